@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { BdcffImporter } from './BdcffImporter';
+import { CaveFile } from './CaveFile';
+import { TileType } from './TileType';
+
+function bdcffFile(...caveLines: string[]): string {
+    return ['[BDCFF]', '[game]', 'Name=Test', ...caveLines, '[/game]', '[/BDCFF]'].join('\n');
+}
+
+const CAVE = [
+    '[cave]',
+    'DiamondsRequired=1',
+    'CaveTime=100',
+    'DiamondValue=10',
+    '[map]',
+    'WWWWWWW',
+    'WPd q W',
+    'W Q  BW',
+    'WWWWWWW',
+    '[/map]',
+    '[/cave]'
+];
+
+describe('BdcffImporter', () => {
+    it('keeps the heading of directional enemies', () => {
+        const { cave } = BdcffImporter.parse(bdcffFile(...CAVE)).caves[0];
+
+        expect(cave.grid.getTile(4, 1)).toBe(TileType.FIREFLY);
+        expect(cave.grid.getTile(2, 2)).toBe(TileType.FIREFLY);
+        expect(cave.grid.getTile(5, 2)).toBe(TileType.BUTTERFLY);
+        // q is the classic firefly start, so only Q and B need a heading
+        expect(cave.enemyHeadings).toEqual([{ x: 2, y: 2, direction: 'up' }, { x: 5, y: 2, direction: 'right' }]);
+    });
+
+    it('carries enemy headings through the cave file format', () => {
+        const { cave } = BdcffImporter.parse(bdcffFile(...CAVE)).caves[0];
+        const text = CaveFile.serialize(cave);
+
+        expect(text).toContain('headings: 2,2 up; 5,2 right');
+        expect(CaveFile.parse(text).enemyHeadings).toEqual(cave.enemyHeadings);
+    });
+
+    it('skips unknown sections and lines without "=" with a warning', () => {
+        const result = BdcffImporter.parse(bdcffFile(
+            '[highscore]', '1000 Somebody', '500 Someone else', '[/highscore]',
+            'Just some text',
+            ...CAVE
+        ));
+
+        expect(result.caves).toHaveLength(1);
+        expect(result.warnings).toEqual([
+            'Line 4: section [highscore] is not supported and was skipped',
+            'Line 8: expected "Key=Value", skipped "Just some text"'
+        ]);
+    });
+
+    it('only accepts whole difficulty levels from 1 to 5', () => {
+        const file = bdcffFile(...CAVE);
+
+        expect(BdcffImporter.parse(file, 5).caves).toHaveLength(1);
+        for (const level of [0, 6, 2.5, NaN]) {
+            expect(() => BdcffImporter.parse(file, level)).toThrow(/level must be a whole number between 1 and 5/);
+        }
+    });
+});
@@ -0,0 +1,377 @@
+import { Grid } from './Grid';
+import { TileType } from './TileType';
+import { Cave, CavePalette, CaveSettings, EnemyHeading, MAGIC_WALL_DEFAULT_TIME } from './Cave';
+import { CaveParseError } from './CaveFile';
+
+/*
+ * Importer for the Boulder Dash Common File Format (BDCFF). A file contains a [game]
+ * section with any number of [cave] sections, each holding `Key=Value` properties and
+ * a [map] block. Properties set in [game] act as defaults for every cave.
+ */
+
+export interface BdcffCave {
+    cave: Cave;
+    warnings: string[];  // Everything that could not be imported faithfully
+}
+
+export interface BdcffImportResult {
+    gameName?: string;
+    caves: BdcffCave[];
+    warnings: string[];  // Parts of the file outside the caves that were skipped
+}
+
+// Map elements this clone can represent
+const SUPPORTED_ELEMENTS: { [char: string]: TileType } = {
+    ' ': TileType.EMPTY,
+    '.': TileType.DIRT,
+    'r': TileType.BOULDER,
+    'd': TileType.DIAMOND,
+    'W': TileType.STEEL_WALL,
+    'w': TileType.BRICK_WALL,
+    'q': TileType.FIREFLY, 'Q': TileType.FIREFLY, 'o': TileType.FIREFLY, 'O': TileType.FIREFLY,
+    'c': TileType.BUTTERFLY, 'C': TileType.BUTTERFLY, 'b': TileType.BUTTERFLY, 'B': TileType.BUTTERFLY,
+    'a': TileType.AMOEBA,
+    'M': TileType.MAGIC_WALL
+};
+
+// Enemies that set off in another direction than the clone's classic start; q and c go left and down as usual
+const ENEMY_HEADINGS: { [char: string]: EnemyHeading['direction'] } = {
+    'Q': 'up', 'o': 'right', 'O': 'down',
+    'C': 'left', 'b': 'up', 'B': 'right'
+};
+
+// Sections that make up the caves; anything else ([highscore], [objects], ...) is skipped
+const KNOWN_SECTIONS = ['bdcff', 'game', 'cave', 'map'];
+
+// Map elements that exist in BDCFF but not (yet) in this clone; they are imported as empty space
+const UNSUPPORTED_ELEMENTS: { [char: string]: string } = {
+    'x': 'expanding wall', 'v': 'expanding wall'
+};
+
+// Cave properties that are imported (lower-case, as keys are matched case-insensitively)
+const SUPPORTED_PROPERTIES = [
+    'diamondsrequired', 'cavetime', 'diamondvalue', 'intermission', 'amoebatime', 'amoebathreshold', 'magicwalltime',
+    'colors'
+];
+
+// Properties that only affect presentation or bookkeeping and are safe to ignore
+const IGNORED_PROPERTIES = [
+    'name', 'description', 'author', 'date', 'www', 'remark', 'size', 'charset',
+    'fontset', 'version', 'levels', 'caves', 'engine'
+];
+
+// Colour names allowed in Colors, with the C64 palette they come from
+const C64_COLORS: { [name: string]: string } = {
+    black: '#000000', white: '#FFFFFF', red: '#68372B', cyan: '#70A4B2',
+    purple: '#6F3D86', green: '#588D43', blue: '#352879', yellow: '#B8C76F',
+    orange: '#6F4F25', brown: '#433900', lightred: '#9A6759', gray1: '#444444',
+    gray2: '#6C6C6C', lightgreen: '#9AD284', lightblue: '#6C5EB5', gray3: '#959595'
+};
+
+const MAX_LEVEL = 5;
+
+// Whether `level` is one of the difficulty levels a BDCFF file has values for
+export function isBdcffLevel(level: number): boolean {
+    return Number.isInteger(level) && level >= 1 && level <= MAX_LEVEL;
+}
+
+interface Section {
+    properties: Map<string, { value: string; line: number }>;
+    mapRows: { text: string; line: number }[];
+    hasMap: boolean;
+    line: number;
+}
+
+export class BdcffImporter {
+    /**
+     * Reads every [cave] section of a BDCFF file. `level` (1-5) selects which of the
+     * per-difficulty values of DiamondsRequired and CaveTime to use.
+     */
+    public static parse(text: string, level: number = 1): BdcffImportResult {
+        if (!isBdcffLevel(level)) {
+            throw new RangeError(`BDCFF level must be a whole number between 1 and ${MAX_LEVEL}, got ${level}`);
+        }
+
+        const lines = text.split(/\r?\n/);
+        const gameSection = this.createSection(0);
+        const caveSections: Section[] = [];
+        const warnings: string[] = [];
+        let current: Section | null = null;
+        let inMap = false;
+        let skipping: string | null = null;  // Name of the unknown section being skipped
+        let sawBdcff = false;
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i];
+            const lineNumber = i + 1;
+            const trimmed = line.trim();
+
+            if (inMap) {
+                if (trimmed.toLowerCase() === '[/map]') {
+                    inMap = false;
+                } else {
+                    current!.mapRows.push({ text: line.replace(/\s+$/, ''), line: lineNumber });
+                }
+                continue;
+            }
+
+            if (skipping !== null) {
+                if (trimmed.toLowerCase() === `[/${skipping}]`) {
+                    skipping = null;
+                }
+                continue;
+            }
+
+            if (trimmed === '' || trimmed.startsWith(';')) {
+                continue;
+            }
+
+            if (trimmed.startsWith('[')) {
+                const tag = trimmed.toLowerCase();
+                if (tag === '[bdcff]') {
+                    sawBdcff = true;
+                } else if (tag === '[cave]') {
+                    if (current) {
+                        throw new CaveParseError('Nested [cave] section', lineNumber, 1);
+                    }
+                    current = this.createSection(lineNumber);
+                    caveSections.push(current);
+                } else if (tag === '[/cave]') {
+                    if (!current) {
+                        throw new CaveParseError('[/cave] without matching [cave]', lineNumber, 1);
+                    }
+                    current = null;
+                } else if (tag === '[map]') {
+                    if (!current) {
+                        throw new CaveParseError('[map] outside of a [cave] section', lineNumber, 1);
+                    }
+                    current.hasMap = true;
+                    inMap = true;
+                } else {
+                    const name = /^\[\/?([^\]]*)\]/.exec(tag)?.[1] ?? tag;
+                    if (!KNOWN_SECTIONS.includes(name)) {
+                        // Closing tags of unknown sections are only expected while skipping them
+                        if (!tag.startsWith('[/')) {
+                            warnings.push(`Line ${lineNumber}: section [${name}] is not supported and was skipped`);
+                            skipping = name;
+                        }
+                    }
+                }
+                // [game] and the closing tags carry nothing we need
+                continue;
+            }
+
+            const equals = line.indexOf('=');
+            if (equals < 0) {
+                warnings.push(`Line ${lineNumber}: expected "Key=Value", skipped "${trimmed}"`);
+                continue;
+            }
+            const key = line.slice(0, equals).trim().toLowerCase();
+            const value = line.slice(equals + 1).trim();
+            (current ?? gameSection).properties.set(key, { value, line: lineNumber });
+        }
+
+        if (!sawBdcff) {
+            throw new CaveParseError('Not a BDCFF file: missing [BDCFF] section', 1, 1);
+        }
+        if (inMap) {
+            throw new CaveParseError('Unterminated [map] section', lines.length, 1);
+        }
+
+        if (skipping !== null) {
+            warnings.push(`Section [${skipping}] is never closed, the rest of the file was skipped`);
+        }
+
+        const result: BdcffImportResult = {
+            caves: caveSections.map((section, index) => this.buildCave(section, gameSection, index, level)),
+            warnings
+        };
+        const gameName = gameSection.properties.get('name');
+        if (gameName) {
+            result.gameName = gameName.value;
+        }
+        return result;
+    }
+
+    private static createSection(line: number): Section {
+        return { properties: new Map(), mapRows: [], hasMap: false, line };
+    }
+
+    private static buildCave(section: Section, gameSection: Section, index: number, level: number): BdcffCave {
+        const warnings: string[] = [];
+        const property = (key: string) => section.properties.get(key) ?? gameSection.properties.get(key);
+
+        // Reads one value of a space-separated per-level list, e.g. "CaveTime=150 110 70 40 30"
+        const readLevelNumber = (key: string, fallback: number): number => {
+            const entry = property(key);
+            if (!entry) {
+                warnings.push(`${key} not set, using ${fallback}`);
+                return fallback;
+            }
+            const values = entry.value.split(/\s+/);
+            const value = values[Math.min(level, values.length) - 1];
+            if (!/^\d+$/.test(value)) {
+                throw new CaveParseError(`${key} must be a whole number, got "${value}"`, entry.line, 1);
+            }
+            return Number(value);
+        };
+
+        const settings: CaveSettings = {
+            diamondsRequired: readLevelNumber('diamondsrequired', 10),
+            timeLimit: Math.max(1, readLevelNumber('cavetime', 150)),
+            diamondValue: 0
+        };
+
+        // DiamondValue is "normal [extra]"; the extra value after the exit opens is not supported
+        const diamondValue = property('diamondvalue');
+        if (diamondValue) {
+            const [normal, extra] = diamondValue.value.split(/\s+/);
+            if (!/^\d+$/.test(normal)) {
+                throw new CaveParseError(`DiamondValue must be a whole number, got "${normal}"`, diamondValue.line, 1);
+            }
+            settings.diamondValue = Number(normal);
+            if (extra !== undefined && extra !== normal) {
+                warnings.push(`Extra diamond value ${extra} is not supported, all diamonds are worth ${normal}`);
+            }
+        } else {
+            warnings.push('DiamondValue not set, using 10');
+            settings.diamondValue = 10;
+        }
+
+        section.properties.forEach((_entry, key) => {
+            if (!SUPPORTED_PROPERTIES.includes(key) && !IGNORED_PROPERTIES.includes(key)) {
+                warnings.push(`Property ${key} is not supported and was ignored`);
+            }
+        });
+
+        if (!section.hasMap || section.mapRows.length === 0) {
+            throw new CaveParseError(
+                `Cave ${index + 1} has no [map]; procedurally defined BDCFF caves are not supported`,
+                section.line, 1
+            );
+        }
+
+        const height = section.mapRows.length;
+        const width = Math.max(...section.mapRows.map(row => row.text.length));
+        const grid = new Grid(width, height);
+        let startX = -1;
+        let startY = -1;
+        let exitX = -1;
+        let exitY = -1;
+        const unsupportedCounts = new Map<string, number>();
+        const unknownCounts = new Map<string, number>();
+        const enemyHeadings: EnemyHeading[] = [];
+
+        section.mapRows.forEach((row, y) => {
+            // Rows shorter than the widest one are padded with empty space
+            const text = row.text.padEnd(width, ' ');
+            for (let x = 0; x < width; x++) {
+                const char = text[x];
+                if (char === 'P') {
+                    if (startX >= 0) {
+                        warnings.push(`Extra player start at ${x},${y} ignored`);
+                    } else {
+                        startX = x;
+                        startY = y;
+                    }
+                    grid.setTile(x, y, TileType.EMPTY);
+                } else if (char === 'X' || char === 'H') {
+                    if (exitX >= 0) {
+                        warnings.push(`Extra exit at ${x},${y} imported as wall`);
+                    } else {
+                        exitX = x;
+                        exitY = y;
+                    }
+                    // The exit stays hidden behind a wall until it is revealed
+                    grid.setTile(x, y, TileType.STEEL_WALL);
+                } else if (SUPPORTED_ELEMENTS[char] !== undefined) {
+                    grid.setTile(x, y, SUPPORTED_ELEMENTS[char]);
+                    if (ENEMY_HEADINGS[char] !== undefined) {
+                        enemyHeadings.push({ x, y, direction: ENEMY_HEADINGS[char] });
+                    }
+                } else if (UNSUPPORTED_ELEMENTS[char] !== undefined) {
+                    const name = UNSUPPORTED_ELEMENTS[char];
+                    unsupportedCounts.set(name, (unsupportedCounts.get(name) ?? 0) + 1);
+                    grid.setTile(x, y, TileType.EMPTY);
+                } else {
+                    unknownCounts.set(char, (unknownCounts.get(char) ?? 0) + 1);
+                    grid.setTile(x, y, TileType.EMPTY);
+                }
+            }
+        });
+
+        unsupportedCounts.forEach((count, name) => {
+            warnings.push(`${count} ${name} tile(s) are not supported and were replaced with empty space`);
+        });
+        unknownCounts.forEach((count, char) => {
+            warnings.push(`${count} tile(s) with unknown map code "${char}" were replaced with empty space`);
+        });
+
+        if (property('magicwalltime')) {
+            settings.magicWallTime = readLevelNumber('magicwalltime', MAGIC_WALL_DEFAULT_TIME);
+        }
+
+        // AmoebaTime is the slow growth time; AmoebaThreshold is either a cell count or a share of the cave
+        if (property('amoebatime')) {
+            settings.amoebaSlowTime = readLevelNumber('amoebatime', 0);
+        }
+        const threshold = property('amoebathreshold');
+        if (threshold) {
+            const value = Number(threshold.value);
+            if (!(value > 0)) {
+                throw new CaveParseError(`AmoebaThreshold must be a positive number, got "${threshold.value}"`, threshold.line, 1);
+            }
+            settings.amoebaMaxSize = value < 1 ? Math.max(1, Math.round(value * width * height)) : Math.round(value);
+        }
+
+        if (startX < 0) {
+            throw new CaveParseError(`Cave ${index + 1} has no player start "P"`, section.mapRows[0].line, 1);
+        }
+        if (exitX < 0) {
+            warnings.push('No exit "X" in map, the exit will be placed randomly');
+        }
+
+        const cave: Cave = { grid, startX, startY, exitX, exitY, settings };
+        if (enemyHeadings.length > 0) {
+            cave.enemyHeadings = enemyHeadings;
+        }
+        const name = section.properties.get('name');
+        cave.name = name ? name.value : `Cave ${index + 1}`;
+        const intermission = property('intermission');
+        if (intermission && intermission.value.toLowerCase() === 'true') {
+            cave.intermission = true;
+        }
+        const colors = property('colors');
+        if (colors) {
+            const palette = this.readPalette(colors.value);
+            if (palette) {
+                cave.palette = palette;
+            } else {
+                warnings.push(`Colors "${colors.value}" could not be read and were ignored`);
+            }
+        }
+
+        return { cave, warnings };
+    }
+
+    /**
+     * Colors is "color1 color2 color3", optionally preceded by the border and background
+     * colours and followed by the amoeba and slime colours, which this clone doesn't use.
+     * Colours are C64 colour names or RGB hex values.
+     */
+    private static readPalette(value: string): CavePalette | null {
+        const values = value.trim().split(/\s+/);
+        if (![3, 5, 7].includes(values.length)) {
+            return null;
+        }
+        const foreground = values.slice(values.length === 3 ? 0 : 2, values.length === 3 ? 3 : 5).map(color => {
+            const hex = /^#?([0-9a-fA-F]{6})$/.exec(color);
+            return hex ? `#${hex[1].toUpperCase()}` : C64_COLORS[color.toLowerCase()];
+        });
+        if (foreground.some(color => color === undefined)) {
+            return null;
+        }
+        const [dirt, wall, highlight] = foreground;
+        return { dirt, wall, highlight };
+    }
+}
@@ -0,0 +1,79 @@
+import { Grid } from './Grid';
+
+/*
+ * Part of the cave on screen, in tiles. It follows a focus point, normally the player, and
+ * eases towards it rather than jumping so the view doesn't jerk with every step.
+ */
+export class Camera {
+    private static readonly LERP_SPEED = 5.0;  // How quickly the camera catches up to the target (units per second)
+    private static readonly DEADZONE = 0.01;  // Stop camera movement when very close to target
+    public readonly width: number;  // How many tiles to show
+    public readonly height: number;
+    private x: number = 0;  // Camera position
+    private y: number = 0;
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+    }
+
+    public getX(): number {
+        return this.x;
+    }
+
+    public getY(): number {
+        return this.y;
+    }
+
+    // Centres the view on the focus at once, as when a cave starts
+    public jumpTo(focusX: number, focusY: number, grid: Grid): void {
+        this.x = this.clampX(focusX - Math.floor(this.width / 2), grid);
+        this.y = this.clampY(focusY - Math.floor(this.height / 2), grid);
+    }
+
+    // Moves part of the way towards the focus for a frame of `deltaTime` ms
+    public follow(focusX: number, focusY: number, grid: Grid, deltaTime: number): void {
+        // Calculate target camera position (centered on the focus) within the level bounds
+        const targetX = this.clampX(focusX - Math.floor(this.width / 2), grid);
+        const targetY = this.clampY(focusY - Math.floor(this.height / 2), grid);
+
+        // Calculate distance to target
+        const dx = targetX - this.x;
+        const dy = targetY - this.y;
+
+        // Only move camera if we're outside the deadzone
+        if (Math.abs(dx) > Camera.DEADZONE || Math.abs(dy) > Camera.DEADZONE) {
+            // Calculate movement this frame
+            const moveSpeed = Camera.LERP_SPEED * (deltaTime / 1000);
+
+            // Calculate new positions
+            let newX = this.x + dx * moveSpeed;
+            let newY = this.y + dy * moveSpeed;
+
+            // Prevent overshooting by clamping to target position
+            if (dx > 0) {
+                newX = Math.min(newX, targetX);
+            } else {
+                newX = Math.max(newX, targetX);
+            }
+
+            if (dy > 0) {
+                newY = Math.min(newY, targetY);
+            } else {
+                newY = Math.max(newY, targetY);
+            }
+
+            // Update camera position, making sure it stays within bounds
+            this.x = this.clampX(newX, grid);
+            this.y = this.clampY(newY, grid);
+        }
+    }
+
+    private clampX(x: number, grid: Grid): number {
+        return Math.max(0, Math.min(x, grid.getWidth() - this.width));
+    }
+
+    private clampY(y: number, grid: Grid): number {
+        return Math.max(0, Math.min(y, grid.getHeight() - this.height));
+    }
+}
@@ -0,0 +1,52 @@
+import { Cave } from './Cave';
+import { CaveLibrary, LibraryCave } from './CaveLibrary';
+
+export interface CampaignDefinition {
+    id: string;  // Used as the key for saved progress
+    name: string;
+    caves: string[];  // Cave names as understood by CaveLibrary.load(), in play order
+}
+
+// An ordered list of caves played one after another
+export class Campaign {
+    private readonly id: string;
+    private readonly name: string;
+    private readonly caves: LibraryCave[];
+
+    constructor(definition: CampaignDefinition) {
+        this.id = definition.id;
+        this.name = definition.name;
+        this.caves = definition.caves.map(caveName => CaveLibrary.load(caveName));
+    }
+
+    public getId(): string {
+        return this.id;
+    }
+
+    public getName(): string {
+        return this.name;
+    }
+
+    public getCaveCount(): number {
+        return this.caves.length;
+    }
+
+    // Returns a fresh copy of the cave, so playing it never changes the original
+    public getCave(index: number): Cave {
+        const cave = this.caves[index].cave;
+        return { ...cave, grid: cave.grid.clone() };
+    }
+
+    // Problems found importing the cave, if it came from a BDCFF file
+    public getCaveWarnings(index: number): string[] {
+        return this.caves[index].warnings;
+    }
+
+    public getCaveName(index: number): string {
+        return this.caves[index].cave.name ?? `Cave ${index + 1}`;
+    }
+
+    public isIntermission(index: number): boolean {
+        return this.caves[index].cave.intermission === true;
+    }
+}
@@ -0,0 +1,59 @@
+interface SavedProgress {
+    unlockedCaves: number;
+    currentCave: number;
+}
+
+// Which caves of a campaign are unlocked, persisted in localStorage
+export class CampaignProgress {
+    private static readonly STORAGE_PREFIX = 'boulderdash.campaign.';
+    private readonly storageKey: string;
+    private unlockedCaves: number = 1;
+    private currentCave: number = 0;
+
+    constructor(campaignId: string, caveCount: number) {
+        this.storageKey = CampaignProgress.STORAGE_PREFIX + campaignId;
+        this.load(caveCount);
+    }
+
+    private load(caveCount: number): void {
+        try {
+            const saved = localStorage.getItem(this.storageKey);
+            if (saved === null) {
+                return;
+            }
+
+            const progress = JSON.parse(saved) as SavedProgress;
+            this.unlockedCaves = Math.max(1, Math.min(caveCount, Math.floor(progress.unlockedCaves) || 1));
+            this.currentCave = Math.max(0, Math.min(this.unlockedCaves - 1, Math.floor(progress.currentCave) || 0));
+        } catch (error) {
+            console.error('Error loading campaign progress:', error);
+        }
+    }
+
+    private save(): void {
+        try {
+            const progress: SavedProgress = {
+                unlockedCaves: this.unlockedCaves,
+                currentCave: this.currentCave
+            };
+            localStorage.setItem(this.storageKey, JSON.stringify(progress));
+        } catch (error) {
+            console.error('Error saving campaign progress:', error);
+        }
+    }
+
+    public isUnlocked(index: number): boolean {
+        return index < this.unlockedCaves;
+    }
+
+    public getCurrentCave(): number {
+        return this.currentCave;
+    }
+
+    // Records the cave being played, unlocking it if needed
+    public setCurrentCave(index: number): void {
+        this.currentCave = index;
+        this.unlockedCaves = Math.max(this.unlockedCaves, index + 1);
+        this.save();
+    }
+}
@@ -0,0 +1,55 @@
+import { Grid } from './Grid';
+import { Direction } from './CaveSimulation';
+
+export interface CaveSettings {
+    diamondsRequired: number;  // Diamonds needed before the exit appears
+    timeLimit: number;  // Time limit in seconds
+    diamondValue: number;  // Points awarded per diamond
+    amoebaMaxSize?: number;  // Amoeba turns into boulders once it grows this big
+    amoebaSlowTime?: number;  // Seconds the amoeba grows slowly before speeding up
+    amoebaSlowGrowth?: number;  // Percent chance per physics update that an amoeba cell grows, slow phase
+    amoebaFastGrowth?: number;  // The same chance after the slow phase
+    magicWallTime?: number;  // Seconds the magic wall stays active once something falls on it
+}
+
+// Amoeba behaviour of the original game, used for settings a cave leaves out
+export const AMOEBA_DEFAULTS = {
+    maxSize: 200,
+    slowTime: 30,
+    slowGrowth: 3,
+    fastGrowth: 25
+};
+
+export const MAGIC_WALL_DEFAULT_TIME = 20;
+
+/**
+ * Per-cave colours, like the original game recolouring its tiles for every cave. Each
+ * is a CSS hex colour; caves without a palette keep the theme's own colours.
+ */
+export interface CavePalette {
+    dirt: string;  // Dirt
+    wall: string;  // Brick walls, magic walls and boulders
+    highlight: string;  // Steel walls
+}
+
+export const PALETTE_ROLES = ['dirt', 'wall', 'highlight'] as const;
+
+// Direction a firefly or butterfly sets off in
+export interface EnemyHeading {
+    x: number;
+    y: number;
+    direction: Direction;
+}
+
+export interface Cave {
+    name?: string;
+    intermission?: boolean;  // Bonus cave between regular caves
+    palette?: CavePalette;
+    grid: Grid;
+    startX: number;
+    startY: number;
+    exitX: number;  // Fixed exit position, or -1 to place the exit randomly when it is revealed
+    exitY: number;
+    settings: CaveSettings;
+    enemyHeadings?: EnemyHeading[];  // Enemies that don't start the classic way, fireflies left and butterflies down
+}
@@ -0,0 +1,290 @@
+import { Grid } from './Grid';
+import { TileType } from './TileType';
+import { Cave, CavePalette, CaveSettings } from './Cave';
+import { CaveFile } from './CaveFile';
+
+// Tools in palette order; PLAYER and EXIT move the start and exit markers
+export const EDITOR_TOOLS: TileType[] = [
+    TileType.EMPTY,
+    TileType.DIRT,
+    TileType.BOULDER,
+    TileType.DIAMOND,
+    TileType.STEEL_WALL,
+    TileType.BRICK_WALL,
+    TileType.PLAYER,
+    TileType.EXIT,
+    TileType.FIREFLY,
+    TileType.BUTTERFLY,
+    TileType.AMOEBA,
+    TileType.MAGIC_WALL
+];
+
+// Editing model behind the editor mode: the cave being edited, undo/redo and storage
+export class CaveEditor {
+    private static readonly DRAFT_KEY = 'boulderdash.editor.draft';
+    private static readonly SAVED_CAVES_KEY = 'boulderdash.editor.caves';
+    private static readonly MAX_UNDO = 100;
+    private cave: Cave;
+    private tool: TileType = TileType.BRICK_WALL;
+    private undoStack: string[] = [];
+    private redoStack: string[] = [];
+    private strokeSnapshot: string | null = null;  // State before the current mouse stroke
+    private strokeRecorded: boolean = false;
+
+    constructor() {
+        this.cave = this.loadDraft() ?? CaveEditor.createBlankCave(40, 22);
+    }
+
+    public static createBlankCave(width: number, height: number): Cave {
+        const grid = new Grid(width, height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const border = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+                grid.setTile(x, y, border ? TileType.STEEL_WALL : TileType.DIRT);
+            }
+        }
+        grid.setTile(1, 1, TileType.EMPTY);
+
+        return {
+            name: 'New cave',
+            grid,
+            startX: 1,
+            startY: 1,
+            exitX: -1,
+            exitY: -1,
+            settings: { diamondsRequired: 10, timeLimit: 120, diamondValue: 10 }
+        };
+    }
+
+    public getCave(): Cave {
+        return this.cave;
+    }
+
+    // A copy of the cave that can be played without touching the one being edited
+    public getPlayableCave(): Cave {
+        return { ...this.cave, grid: this.cave.grid.clone() };
+    }
+
+    public getTool(): TileType {
+        return this.tool;
+    }
+
+    public setTool(tool: TileType): void {
+        this.tool = tool;
+    }
+
+    // Groups all painting until endStroke() into a single undo step
+    public beginStroke(): void {
+        this.strokeSnapshot = CaveFile.serialize(this.cave);
+        this.strokeRecorded = false;
+    }
+
+    public endStroke(): void {
+        this.strokeSnapshot = null;
+    }
+
+    // Saves the state before a change so it can be undone
+    private recordUndo(): void {
+        if (this.strokeSnapshot !== null) {
+            if (this.strokeRecorded) {
+                return;
+            }
+            this.undoStack.push(this.strokeSnapshot);
+            this.strokeRecorded = true;
+        } else {
+            this.undoStack.push(CaveFile.serialize(this.cave));
+        }
+
+        if (this.undoStack.length > CaveEditor.MAX_UNDO) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    // Applies a tool (the current one by default) at a tile; returns whether anything changed
+    public paint(x: number, y: number, tool: TileType = this.tool): boolean {
+        const grid = this.cave.grid;
+        if (!grid.isInBounds(x, y)) {
+            return false;
+        }
+
+        const isStart = this.cave.startX === x && this.cave.startY === y;
+        const isExit = this.cave.exitX === x && this.cave.exitY === y;
+        if (tool === TileType.PLAYER) {
+            if (isStart) {
+                return false;
+            }
+            this.recordUndo();
+            this.cave.startX = x;
+            this.cave.startY = y;
+            grid.setTile(x, y, TileType.EMPTY);
+            if (isExit) {
+                this.cave.exitX = -1;
+                this.cave.exitY = -1;
+            }
+        } else if (tool === TileType.EXIT) {
+            if (isExit || isStart) {
+                return false;
+            }
+            this.recordUndo();
+            this.cave.exitX = x;
+            this.cave.exitY = y;
+            grid.setTile(x, y, TileType.STEEL_WALL);
+        } else {
+            // Painting over the start is not allowed, painting over the exit removes it
+            if (isStart || (!isExit && grid.getTile(x, y) === tool)) {
+                return false;
+            }
+            this.recordUndo();
+            if (isExit) {
+                this.cave.exitX = -1;
+                this.cave.exitY = -1;
+            }
+            grid.setTile(x, y, tool);
+        }
+
+        // Whatever is painted starts out the classic way
+        this.cave.enemyHeadings = this.cave.enemyHeadings?.filter(heading => heading.x !== x || heading.y !== y);
+        this.saveDraft();
+        return true;
+    }
+
+    public undo(): boolean {
+        const previous = this.undoStack.pop();
+        if (previous === undefined) {
+            return false;
+        }
+        this.redoStack.push(CaveFile.serialize(this.cave));
+        this.cave = CaveFile.parse(previous);
+        this.saveDraft();
+        return true;
+    }
+
+    public redo(): boolean {
+        const next = this.redoStack.pop();
+        if (next === undefined) {
+            return false;
+        }
+        this.undoStack.push(CaveFile.serialize(this.cave));
+        this.cave = CaveFile.parse(next);
+        this.saveDraft();
+        return true;
+    }
+
+    // Changes the cave size, keeping the top-left part and filling new space with dirt
+    public resize(width: number, height: number): void {
+        this.recordUndo();
+        const oldGrid = this.cave.grid;
+        const grid = new Grid(width, height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                grid.setTile(x, y, oldGrid.isInBounds(x, y) ? oldGrid.getTile(x, y) : TileType.DIRT);
+            }
+        }
+
+        this.cave.grid = grid;
+        if (!grid.isInBounds(this.cave.startX, this.cave.startY)) {
+            this.cave.startX = Math.min(this.cave.startX, width - 1);
+            this.cave.startY = Math.min(this.cave.startY, height - 1);
+            grid.setTile(this.cave.startX, this.cave.startY, TileType.EMPTY);
+        }
+        if (!grid.isInBounds(this.cave.exitX, this.cave.exitY)) {
+            this.cave.exitX = -1;
+            this.cave.exitY = -1;
+        }
+        this.saveDraft();
+    }
+
+    public setName(name: string): void {
+        this.recordUndo();
+        this.cave.name = name;
+        this.saveDraft();
+    }
+
+    public setSettings(settings: CaveSettings): void {
+        this.recordUndo();
+        this.cave.settings = { ...settings };
+        this.saveDraft();
+    }
+
+    public setPalette(palette: CavePalette | undefined): void {
+        this.recordUndo();
+        this.cave.palette = palette;
+        this.saveDraft();
+    }
+
+    public setIntermission(intermission: boolean): void {
+        this.recordUndo();
+        this.cave.intermission = intermission;
+        this.saveDraft();
+    }
+
+    public toText(): string {
+        return CaveFile.serialize(this.cave);
+    }
+
+    // Replaces the edited cave with one in the cave file format; throws CaveParseError on bad input
+    public loadText(text: string): void {
+        const cave = CaveFile.parse(text);
+        this.recordUndo();
+        this.cave = cave;
+        this.saveDraft();
+    }
+
+    public loadCave(cave: Cave): void {
+        this.recordUndo();
+        this.cave = { ...cave, grid: cave.grid.clone() };
+        this.saveDraft();
+    }
+
+    public getSavedCaveNames(): string[] {
+        return Object.keys(this.readSavedCaves()).sort();
+    }
+
+    public saveToStorage(name: string): void {
+        const saved = this.readSavedCaves();
+        saved[name] = this.toText();
+        try {
+            localStorage.setItem(CaveEditor.SAVED_CAVES_KEY, JSON.stringify(saved));
+        } catch (error) {
+            console.error('Error saving cave:', error);
+        }
+    }
+
+    public loadFromStorage(name: string): boolean {
+        const text = this.readSavedCaves()[name];
+        if (text === undefined) {
+            return false;
+        }
+        this.loadText(text);
+        return true;
+    }
+
+    private readSavedCaves(): { [name: string]: string } {
+        try {
+            return JSON.parse(localStorage.getItem(CaveEditor.SAVED_CAVES_KEY) ?? '{}');
+        } catch (error) {
+            console.error('Error reading saved caves:', error);
+            return {};
+        }
+    }
+
+    // The cave being edited is kept in localStorage so a reload doesn't lose work
+    private saveDraft(): void {
+        try {
+            localStorage.setItem(CaveEditor.DRAFT_KEY, this.toText());
+        } catch (error) {
+            console.error('Error saving editor draft:', error);
+        }
+    }
+
+    private loadDraft(): Cave | null {
+        try {
+            const text = localStorage.getItem(CaveEditor.DRAFT_KEY);
+            return text === null ? null : CaveFile.parse(text);
+        } catch (error) {
+            console.error('Error loading editor draft:', error);
+            return null;
+        }
+    }
+}
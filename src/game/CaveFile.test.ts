@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { CaveFile, CaveParseError } from './CaveFile';
+import { TileType } from './TileType';
+import { parseTestCave } from './testCaves';
+
+const HEADER = ['name: Test', 'width: 5', 'height: 3', 'diamonds: 1', 'time: 100', 'diamondValue: 10', 'map:'];
+
+// Parses a cave expecting it to fail, and returns the error
+function parseError(lines: string[]): CaveParseError {
+    try {
+        CaveFile.parse(lines.join('\n'));
+    } catch (error) {
+        if (error instanceof CaveParseError) {
+            return error;
+        }
+        throw error;
+    }
+    throw new Error('The cave parsed without an error');
+}
+
+describe('CaveFile', () => {
+    it('reports a bad header value at the value', () => {
+        const error = parseError([...HEADER.slice(0, 4), 'time: soon', ...HEADER.slice(5), '#####', '#@.X#', '#####']);
+
+        expect(error.message).toContain('"time" must be a whole number');
+        expect([error.line, error.column]).toEqual([5, 7]);
+    });
+
+    it('reports a row of the wrong width where it ends', () => {
+        const error = parseError([...HEADER, '#####', '#@.X', '#####']);
+
+        expect(error.message).toContain('Row is 4 characters wide but the header says width 5');
+        expect([error.line, error.column]).toEqual([9, 5]);
+    });
+
+    it('reports a map with too few rows at the first missing row', () => {
+        const error = parseError([...HEADER, '#####', '#@.X#']);
+
+        expect(error.message).toContain('Map has 2 rows but the header says height 3');
+        expect([error.line, error.column]).toEqual([10, 1]);
+    });
+
+    it('reports an unknown tile character where it is', () => {
+        const error = parseError([...HEADER, '#####', '#@?X#', '#####']);
+
+        expect(error.message).toContain('Unknown tile character "?"');
+        expect([error.line, error.column]).toEqual([9, 3]);
+    });
+
+    it('gives back the same cave when a serialized cave is parsed', () => {
+        const cave = parseTestCave([
+            '########',
+            '#@:O*.F#',
+            '#=A.M.B#',
+            '#.....X#',
+            '########'
+        ], {
+            name: 'Round trip',
+            diamonds: 3,
+            time: 90,
+            diamondValue: 15,
+            intermission: 'yes',
+            amoebaMaxSize: 40,
+            amoebaSlowTime: 10,
+            amoebaSlowGrowth: 5,
+            amoebaFastGrowth: 50,
+            magicWallTime: 12,
+            colors: '#112233 #445566 #778899',
+            headings: '6,1 down; 6,2 left'
+        });
+        const copy = CaveFile.parse(CaveFile.serialize(cave));
+
+        expect(copy.name).toBe('Round trip');
+        expect([copy.startX, copy.startY, copy.exitX, copy.exitY]).toEqual([1, 1, 6, 3]);
+        expect(copy.settings).toEqual({
+            diamondsRequired: 3,
+            timeLimit: 90,
+            diamondValue: 15,
+            amoebaMaxSize: 40,
+            amoebaSlowTime: 10,
+            amoebaSlowGrowth: 5,
+            amoebaFastGrowth: 50,
+            magicWallTime: 12
+        });
+        expect(copy.intermission).toBe(true);
+        expect(copy.palette).toEqual({ dirt: '#112233', wall: '#445566', highlight: '#778899' });
+        expect(copy.enemyHeadings).toEqual([{ x: 6, y: 1, direction: 'down' }, { x: 6, y: 2, direction: 'left' }]);
+        expect(copy).toEqual(cave);
+        // The exit is hidden behind a wall until it opens
+        expect(copy.grid.getTile(6, 3)).toBe(TileType.STEEL_WALL);
+    });
+
+    it('fingerprints caves by their contents rather than their name', () => {
+        const rows = ['#####', '#@.X#', '#####'];
+        const cave = parseTestCave(rows, { name: 'Cave 1' });
+
+        expect(CaveFile.fingerprint(CaveFile.parse(CaveFile.serialize(cave)))).toBe(CaveFile.fingerprint(cave));
+        expect(CaveFile.fingerprint(parseTestCave(['#####', '#@:X#', '#####'], { name: 'Cave 1' })))
+            .not.toBe(CaveFile.fingerprint(cave));
+        expect(CaveFile.fingerprint(parseTestCave(rows, { name: 'Cave 1', diamonds: 2 })))
+            .not.toBe(CaveFile.fingerprint(cave));
+    });
+});
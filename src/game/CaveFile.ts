@@ -0,0 +1,353 @@
+import { Grid } from './Grid';
+import { TileType } from './TileType';
+import { Cave, CavePalette, CaveSettings, EnemyHeading, PALETTE_ROLES } from './Cave';
+
+/*
+ * Plain-text cave format. A header of `key: value` lines is followed by a `map:` line
+ * and one row of characters per grid row. Lines starting with `;` are comments.
+ *
+ *   name: First steps
+ *   width: 12
+ *   height: 5
+ *   diamonds: 2
+ *   time: 60
+ *   diamondValue: 10
+ *   start: 1,1          (optional when the map contains '@')
+ *   intermission: no    (optional, yes for bonus caves)
+ *   amoebaMaxSize: 200  (optional, see CaveSettings for the amoeba keys)
+ *   magicWallTime: 20   (optional)
+ *   colors: #8B4513 #8B3A3A #696969  (optional dirt, wall and highlight colours, see CavePalette)
+ *   headings: 6,1 up; 3,3 right  (optional directions enemies set off in, see Cave)
+ *   map:
+ *   ############
+ *   #@:::O:::*:#
+ *   #::::::::::#
+ *   #*::::O:::X#
+ *   ############
+ *
+ * 'X' marks a fixed exit; it stays hidden behind a wall until enough diamonds are collected.
+ * '#' is a steel wall and '=' a brick wall. 'F' is a firefly, 'B' a butterfly, 'A' amoeba and 'M' a magic wall.
+ */
+
+export class CaveParseError extends Error {
+    public readonly line: number;
+    public readonly column: number;
+
+    constructor(message: string, line: number, column: number) {
+        super(`Line ${line}, column ${column}: ${message}`);
+        this.name = 'CaveParseError';
+        this.line = line;
+        this.column = column;
+    }
+}
+
+// Tiles that can appear in a cave file; explosions are transient and saved as empty space
+const TILE_CHARS: Partial<Record<TileType, string>> = {
+    [TileType.EMPTY]: '.',
+    [TileType.DIRT]: ':',
+    [TileType.BOULDER]: 'O',
+    [TileType.DIAMOND]: '*',
+    [TileType.STEEL_WALL]: '#',
+    [TileType.BRICK_WALL]: '=',
+    [TileType.PLAYER]: '@',
+    [TileType.EXIT]: 'X',
+    [TileType.FIREFLY]: 'F',
+    [TileType.BUTTERFLY]: 'B',
+    [TileType.AMOEBA]: 'A',
+    [TileType.MAGIC_WALL]: 'M'
+};
+
+const CHAR_TILES: { [char: string]: TileType } = Object.fromEntries(
+    Object.entries(TILE_CHARS).map(([type, char]) => [char, Number(type) as TileType])
+);
+
+const REQUIRED_KEYS = ['width', 'height', 'diamonds', 'time', 'diamondValue'];
+const AMOEBA_KEYS = ['amoebaMaxSize', 'amoebaSlowTime', 'amoebaSlowGrowth', 'amoebaFastGrowth'] as const;
+const KNOWN_KEYS = [...REQUIRED_KEYS, ...AMOEBA_KEYS, 'magicWallTime', 'name', 'start', 'intermission', 'colors', 'headings'];
+
+export class CaveFile {
+    public static parse(text: string): Cave {
+        const lines = text.split(/\r?\n/);
+        const header: { [key: string]: { value: string; line: number; column: number } } = {};
+        let lineIndex = 0;
+        let foundMap = false;
+
+        // Header section
+        for (; lineIndex < lines.length; lineIndex++) {
+            const line = lines[lineIndex];
+            const trimmed = line.trim();
+            if (trimmed === '' || trimmed.startsWith(';')) {
+                continue;
+            }
+            if (trimmed === 'map:') {
+                foundMap = true;
+                lineIndex++;
+                break;
+            }
+
+            const colon = line.indexOf(':');
+            if (colon < 0) {
+                throw new CaveParseError(`Expected "key: value" or "map:", got "${trimmed}"`, lineIndex + 1, 1);
+            }
+            const key = line.slice(0, colon).trim();
+            if (!KNOWN_KEYS.includes(key)) {
+                throw new CaveParseError(`Unknown header key "${key}"`, lineIndex + 1, line.indexOf(key) + 1);
+            }
+            if (header[key]) {
+                throw new CaveParseError(`Duplicate header key "${key}"`, lineIndex + 1, line.indexOf(key) + 1);
+            }
+            const rawValue = line.slice(colon + 1);
+            header[key] = {
+                value: rawValue.trim(),
+                line: lineIndex + 1,
+                column: colon + 2 + (rawValue.length - rawValue.trimStart().length)
+            };
+        }
+
+        if (!foundMap) {
+            throw new CaveParseError('Missing "map:" section', lines.length, 1);
+        }
+
+        for (const key of REQUIRED_KEYS) {
+            if (!header[key]) {
+                throw new CaveParseError(`Missing header key "${key}"`, lineIndex, 1);
+            }
+        }
+
+        const readNumber = (key: string, min: number): number => {
+            const entry = header[key];
+            if (!/^\d+$/.test(entry.value) || Number(entry.value) < min) {
+                throw new CaveParseError(`"${key}" must be a whole number of at least ${min}`, entry.line, entry.column);
+            }
+            return Number(entry.value);
+        };
+
+        const width = readNumber('width', 1);
+        const height = readNumber('height', 1);
+        const settings: CaveSettings = {
+            diamondsRequired: readNumber('diamonds', 0),
+            timeLimit: readNumber('time', 1),
+            diamondValue: readNumber('diamondValue', 0)
+        };
+        for (const key of AMOEBA_KEYS) {
+            if (header[key]) {
+                settings[key] = readNumber(key, key === 'amoebaMaxSize' ? 1 : 0);
+            }
+        }
+        for (const key of ['amoebaSlowGrowth', 'amoebaFastGrowth'] as const) {
+            if ((settings[key] ?? 0) > 100) {
+                throw new CaveParseError(`"${key}" is a percentage and can be at most 100`, header[key].line, header[key].column);
+            }
+        }
+        if (header['magicWallTime']) {
+            settings.magicWallTime = readNumber('magicWallTime', 0);
+        }
+
+        // Map section
+        const grid = new Grid(width, height);
+        let startX = -1;
+        let startY = -1;
+        let exitX = -1;
+        let exitY = -1;
+        const mapStart = lineIndex;
+
+        // Ignore trailing blank lines after the map
+        let mapEnd = lines.length;
+        while (mapEnd > mapStart && lines[mapEnd - 1].trim() === '') {
+            mapEnd--;
+        }
+
+        if (mapEnd - mapStart !== height) {
+            throw new CaveParseError(
+                `Map has ${mapEnd - mapStart} rows but the header says height ${height}`,
+                Math.min(mapEnd, mapStart + height) + 1, 1
+            );
+        }
+
+        for (let y = 0; y < height; y++) {
+            const row = lines[mapStart + y];
+            const lineNumber = mapStart + y + 1;
+            if (row.length !== width) {
+                throw new CaveParseError(
+                    `Row is ${row.length} characters wide but the header says width ${width}`,
+                    lineNumber, Math.min(row.length, width) + 1
+                );
+            }
+
+            for (let x = 0; x < width; x++) {
+                const type = CHAR_TILES[row[x]];
+                if (type === undefined) {
+                    throw new CaveParseError(`Unknown tile character "${row[x]}"`, lineNumber, x + 1);
+                }
+
+                if (type === TileType.PLAYER) {
+                    if (startX >= 0) {
+                        throw new CaveParseError('More than one player start "@"', lineNumber, x + 1);
+                    }
+                    startX = x;
+                    startY = y;
+                    grid.setTile(x, y, TileType.EMPTY);
+                } else if (type === TileType.EXIT) {
+                    if (exitX >= 0) {
+                        throw new CaveParseError('More than one exit "X"', lineNumber, x + 1);
+                    }
+                    exitX = x;
+                    exitY = y;
+                    // The exit is hidden behind a wall until it is revealed
+                    grid.setTile(x, y, TileType.STEEL_WALL);
+                } else {
+                    grid.setTile(x, y, type);
+                }
+            }
+        }
+
+        // Player start from the header, which must agree with '@' if both are given
+        const start = header['start'];
+        if (start) {
+            const match = /^(\d+)\s*,\s*(\d+)$/.exec(start.value);
+            if (!match) {
+                throw new CaveParseError('"start" must be written as x,y', start.line, start.column);
+            }
+            const x = Number(match[1]);
+            const y = Number(match[2]);
+            if (!grid.isInBounds(x, y)) {
+                throw new CaveParseError(`Start ${x},${y} is outside the ${width}x${height} map`, start.line, start.column);
+            }
+            if (startX >= 0 && (startX !== x || startY !== y)) {
+                throw new CaveParseError(`Start ${x},${y} does not match "@" at ${startX},${startY}`, start.line, start.column);
+            }
+            startX = x;
+            startY = y;
+        }
+
+        if (startX < 0) {
+            throw new CaveParseError('No player start: add "start: x,y" or an "@" to the map', mapStart, 1);
+        }
+
+        const cave: Cave = { grid, startX, startY, exitX, exitY, settings };
+        if (header['name']) {
+            cave.name = header['name'].value;
+        }
+
+        const intermission = header['intermission'];
+        if (intermission) {
+            if (intermission.value !== 'yes' && intermission.value !== 'no') {
+                throw new CaveParseError('"intermission" must be yes or no', intermission.line, intermission.column);
+            }
+            cave.intermission = intermission.value === 'yes';
+        }
+
+        const colors = header['colors'];
+        if (colors) {
+            const palette = CaveFile.parsePalette(colors.value);
+            if (!palette) {
+                throw new CaveParseError('"colors" must be three hex colours such as #8B4513', colors.line, colors.column);
+            }
+            cave.palette = palette;
+        }
+
+        const headings = header['headings'];
+        if (headings) {
+            cave.enemyHeadings = [];
+            for (const part of headings.value.split(';')) {
+                const match = /^(\d+)\s*,\s*(\d+)\s+(up|down|left|right)$/.exec(part.trim());
+                if (!match) {
+                    throw new CaveParseError('"headings" must be written as x,y direction; ...', headings.line, headings.column);
+                }
+                const heading: EnemyHeading = {
+                    x: Number(match[1]),
+                    y: Number(match[2]),
+                    direction: match[3] as EnemyHeading['direction']
+                };
+                if (!grid.isInBounds(heading.x, heading.y) || !CaveFile.isEnemy(grid.getTile(heading.x, heading.y))) {
+                    throw new CaveParseError(
+                        `Heading at ${heading.x},${heading.y} is not on a firefly or butterfly`, headings.line, headings.column
+                    );
+                }
+                cave.enemyHeadings.push(heading);
+            }
+        }
+        return cave;
+    }
+
+    private static isEnemy(type: TileType): boolean {
+        return type === TileType.FIREFLY || type === TileType.BUTTERFLY;
+    }
+
+    // Reads "dirt wall highlight" hex colours, or returns null if they aren't valid
+    public static parsePalette(text: string): CavePalette | null {
+        const values = text.trim().split(/[\s,]+/);
+        if (values.length !== PALETTE_ROLES.length || !values.every(value => /^#[0-9a-fA-F]{6}$/.test(value))) {
+            return null;
+        }
+        const [dirt, wall, highlight] = values.map(value => value.toUpperCase());
+        return { dirt, wall, highlight };
+    }
+
+    public static formatPalette(palette: CavePalette): string {
+        return PALETTE_ROLES.map(role => palette[role]).join(' ');
+    }
+
+    // Short hash of the whole cave, telling caves apart that share a name (or have none)
+    public static fingerprint(cave: Cave): string {
+        const text = CaveFile.serialize(cave);
+        // FNV-1a hash of the text
+        let hash = 0x811C9DC5;
+        for (let i = 0; i < text.length; i++) {
+            hash ^= text.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return (hash >>> 0).toString(16).padStart(8, '0');
+    }
+
+    public static serialize(cave: Cave): string {
+        const grid = cave.grid;
+        const lines: string[] = [];
+
+        if (cave.name) {
+            lines.push(`name: ${cave.name}`);
+        }
+        lines.push(`width: ${grid.getWidth()}`);
+        lines.push(`height: ${grid.getHeight()}`);
+        lines.push(`diamonds: ${cave.settings.diamondsRequired}`);
+        lines.push(`time: ${cave.settings.timeLimit}`);
+        lines.push(`diamondValue: ${cave.settings.diamondValue}`);
+        lines.push(`start: ${cave.startX},${cave.startY}`);
+        if (cave.intermission) {
+            lines.push('intermission: yes');
+        }
+        for (const key of AMOEBA_KEYS) {
+            if (cave.settings[key] !== undefined) {
+                lines.push(`${key}: ${cave.settings[key]}`);
+            }
+        }
+        if (cave.settings.magicWallTime !== undefined) {
+            lines.push(`magicWallTime: ${cave.settings.magicWallTime}`);
+        }
+        if (cave.palette) {
+            lines.push(`colors: ${CaveFile.formatPalette(cave.palette)}`);
+        }
+        // Headings of enemies that have since been painted over are dropped
+        const headings = (cave.enemyHeadings ?? []).filter(({ x, y }) => CaveFile.isEnemy(grid.getTile(x, y)));
+        if (headings.length > 0) {
+            lines.push(`headings: ${headings.map(({ x, y, direction }) => `${x},${y} ${direction}`).join('; ')}`);
+        }
+        lines.push('map:');
+
+        for (let y = 0; y < grid.getHeight(); y++) {
+            let row = '';
+            for (let x = 0; x < grid.getWidth(); x++) {
+                if (x === cave.startX && y === cave.startY) {
+                    row += TILE_CHARS[TileType.PLAYER];
+                } else if (x === cave.exitX && y === cave.exitY) {
+                    row += TILE_CHARS[TileType.EXIT];
+                } else {
+                    row += TILE_CHARS[grid.getTile(x, y)] ?? TILE_CHARS[TileType.EMPTY];
+                }
+            }
+            lines.push(row);
+        }
+
+        return lines.join('\n') + '\n';
+    }
+}
@@ -0,0 +1,47 @@
+import { Random } from './Random';
+import { Cave } from './Cave';
+import { CaveValidator } from './CaveValidator';
+import { CAVE_STRATEGIES, GeneratorName } from './CaveStrategies';
+import { DIFFICULTY_PROFILES, DifficultyName, getDifficultySettings } from './Difficulty';
+
+// Which strategy and difficulty a random cave is generated with; the seed does the rest
+export interface GeneratorOptions {
+    generator: GeneratorName;
+    difficulty: DifficultyName;
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: GeneratorOptions = { generator: 'scatter', difficulty: 'normal' };
+
+export class CaveGenerator {
+    private static readonly MAX_ATTEMPTS = 50;
+    private readonly random: Random;
+    private readonly options: GeneratorOptions;
+
+    constructor(random: Random, options: GeneratorOptions = DEFAULT_GENERATOR_OPTIONS) {
+        this.random = random;
+        this.options = options;
+    }
+
+    /**
+     * Generates caves until one passes the CaveValidator checks, giving up after a while and
+     * keeping the last attempt. Rejected attempts use up random numbers, so a seed still
+     * always gives the same cave.
+     */
+    public generate(width: number, height: number): Cave {
+        let cave = this.generateOnce(width, height);
+        for (let attempt = 1; attempt < CaveGenerator.MAX_ATTEMPTS; attempt++) {
+            if (CaveValidator.validate(cave).problems.length === 0) {
+                break;
+            }
+            cave = this.generateOnce(width, height);
+        }
+        return cave;
+    }
+
+    private generateOnce(width: number, height: number): Cave {
+        const profile = DIFFICULTY_PROFILES[this.options.difficulty];
+        const settings = getDifficultySettings(profile, width, height);
+        const layout = CAVE_STRATEGIES[this.options.generator].generate(width, height, settings, profile, this.random);
+        return { ...layout, exitX: -1, exitY: -1, settings };
+    }
+}
@@ -0,0 +1,49 @@
+import { Cave } from './Cave';
+import { CaveFile } from './CaveFile';
+import { BdcffImporter } from './BdcffImporter';
+
+// Hand-made caves and BDCFF files bundled from src/caves, keyed by file name
+const caveFiles = import.meta.glob('../caves/*.{cave,bd}', { query: '?raw', import: 'default', eager: true }) as Record<string, string>;
+
+export interface LibraryCave {
+    cave: Cave;
+    warnings: string[];  // What a BDCFF import could not bring over faithfully, for showing to the player
+}
+
+export class CaveLibrary {
+    // Names of the bundled hand-made caves, usable with load()
+    public static getNames(): string[] {
+        return Object.keys(caveFiles)
+            .filter(path => path.endsWith('.cave'))
+            .map(path => path.slice('../caves/'.length, -'.cave'.length))
+            .sort();
+    }
+
+    /**
+     * Loads a bundled cave by name: `first-steps` reads src/caves/first-steps.cave and
+     * `sample.bd#2` reads the second cave of src/caves/sample.bd.
+     */
+    public static load(name: string, level: number = 1): LibraryCave {
+        const bdcffMatch = /^(.+)\.bd(?:#(\d+))?$/.exec(name);
+        if (bdcffMatch) {
+            const text = caveFiles[`../caves/${bdcffMatch[1]}.bd`];
+            if (text === undefined) {
+                throw new Error(`BDCFF file "${bdcffMatch[1]}" not found`);
+            }
+
+            const number = Number(bdcffMatch[2] ?? '1');
+            const result = BdcffImporter.parse(text, level);
+            const imported = result.caves[number - 1];
+            if (imported === undefined) {
+                throw new Error(`BDCFF file "${bdcffMatch[1]}" has no cave number ${number}`);
+            }
+            return { cave: imported.cave, warnings: [...result.warnings, ...imported.warnings] };
+        }
+
+        const text = caveFiles[`../caves/${name}.cave`];
+        if (text === undefined) {
+            throw new Error(`Cave "${name}" not found`);
+        }
+        return { cave: CaveFile.parse(text), warnings: [] };
+    }
+}
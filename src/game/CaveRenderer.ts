@@ -0,0 +1,273 @@
+import { Grid } from './Grid';
+import { TileType } from './TileType';
+import { CaveSimulation } from './CaveSimulation';
+import { TileSprites } from './TileSprites';
+import { TileLayer } from './TileLayer';
+import { Motion, MotionTracker } from './MotionTracker';
+
+// What drawing the cave needs from the game around it
+export interface CaveRendererHost {
+    getCamera(): { x: number; y: number };
+    getSimulation(): CaveSimulation | null;  // Null in the editor, where nothing is simulated
+}
+
+/*
+ * Draws the tiles of the cave on screen below the score area: the grid around the camera,
+ * objects sliding between cells, the player's walking animation, explosions and the exit
+ * as it opens. With dirty rendering on, the tiles are kept on an offscreen canvas and only
+ * the cells that changed since the last frame are repainted.
+ */
+export class CaveRenderer {
+    private static readonly ANIM_FRAME_DURATION = 150;  // Duration of each animation frame in ms
+    private static readonly EXIT_APPEAR_DELAY = 500; // Delay before exit appears (ms)
+    private readonly ctx: CanvasRenderingContext2D;
+    private readonly tileSize: number;
+    private readonly top: number;  // Top of the game area, below the score area
+    private readonly viewportWidth: number;  // Tiles on screen
+    private readonly viewportHeight: number;
+    private readonly tileSprites: TileSprites;
+    private readonly motions: MotionTracker;
+    private readonly host: CaveRendererHost;
+    private dirtyRendering: boolean = true;  // Only redraw tiles that changed since the last frame
+    private tileLayerCanvas: HTMLCanvasElement | null = null;  // The tiles around the viewport as drawn last frame
+    private readonly tileLayer: TileLayer<HTMLCanvasElement>;
+    private playerAnimFrame: number = 0;  // Track animation frame
+    private lastAnimUpdate: number = 0;  // Track last animation update
+    private exitAppearTime: number = 0;
+
+    constructor(
+        ctx: CanvasRenderingContext2D, tileSize: number, top: number, viewportWidth: number, viewportHeight: number,
+        tileSprites: TileSprites, motions: MotionTracker, host: CaveRendererHost
+    ) {
+        this.ctx = ctx;
+        this.tileSize = tileSize;
+        this.top = top;
+        this.viewportWidth = viewportWidth;
+        this.viewportHeight = viewportHeight;
+        this.tileSprites = tileSprites;
+        this.motions = motions;
+        this.host = host;
+        this.tileLayer = new TileLayer<HTMLCanvasElement>(viewportWidth + 3, viewportHeight + 3);
+    }
+
+    public setDirtyRendering(dirtyRendering: boolean): void {
+        this.dirtyRendering = dirtyRendering;
+        this.tileLayer.invalidate();
+    }
+
+    // A new or restarted cave starts with the player standing still and the exit closed
+    public reset(): void {
+        this.playerAnimFrame = 0;
+        this.lastAnimUpdate = 0;
+        this.exitAppearTime = 0;
+    }
+
+    // The walking animation advances whenever the player actually moved
+    public advancePlayerAnimation(): void {
+        this.playerAnimFrame = (this.playerAnimFrame + 1) % 4;
+    }
+
+    // Called every frame so the walking animation plays out at a fixed rate
+    public updateAnimation(timestamp: number): void {
+        if (timestamp - this.lastAnimUpdate >= CaveRenderer.ANIM_FRAME_DURATION) {
+            // Only update animation when moving
+            if (this.playerAnimFrame > 0) {
+                this.playerAnimFrame = (this.playerAnimFrame + 1) % 4;
+            }
+            this.lastAnimUpdate = timestamp;
+        }
+    }
+
+    public openExit(): void {
+        this.exitAppearTime = performance.now();
+    }
+
+    // Draws the visible part of a grid below the score area; drawExtras draws on top in tile coordinates
+    public renderGameArea(grid: Grid, drawExtras: () => void): void {
+        const { width, height } = this.ctx.canvas;
+        const camera = this.host.getCamera();
+
+        // Create a clipping region for the game area
+        this.ctx.save();
+        this.ctx.beginPath();
+        this.ctx.rect(0, this.top, width, height - this.top);
+        this.ctx.clip();
+
+        // Translate for game area only
+        this.ctx.translate(-camera.x * this.tileSize, -camera.y * this.tileSize + this.top);
+
+        // Render the game grid
+        const startX = Math.floor(camera.x);
+        const startY = Math.floor(camera.y);
+        const endX = startX + this.viewportWidth + 1;
+        const endY = startY + this.viewportHeight + 1;
+
+        if (this.dirtyRendering) {
+            this.renderTileLayer(grid, startX, startY);
+        } else {
+            // Objects on the move are drawn last, over the cells they are crossing
+            const movingTiles: Motion[] = [];
+            for (let y = startY; y < endY; y++) {
+                for (let x = startX; x < endX; x++) {
+                    if (grid.isInBounds(x, y)) {
+                        const tile = grid.getTile(x, y);
+                        const motion = this.getTileMotion(grid, x, y, tile);
+                        if (motion) {
+                            movingTiles.push(motion);
+                        } else {
+                            this.renderTile(x, y, tile);
+                        }
+                    }
+                }
+            }
+            movingTiles.forEach(motion => this.renderMovingTile(motion));
+        }
+
+        drawExtras();
+
+        this.ctx.restore();
+    }
+
+    public renderTile(x: number, y: number, type: TileType): void {
+        if (this.isTileDrawnLive(type)) {
+            this.tileSprites.drawAppearingExit(this.ctx, x, y, performance.now(), this.getExitAppearProgress());
+            return;
+        }
+        const sprite = this.getTileSprite(x, y, type);
+        if (sprite) {
+            this.tileSprites.draw(this.ctx, sprite, x, y);
+        }
+    }
+
+    /**
+     * Dirty-region version of the tile loop in renderGameArea(): the tiles are kept on an
+     * offscreen canvas and the TileLayer tells which cells changed since the last frame.
+     */
+    private renderTileLayer(grid: Grid, startX: number, startY: number): void {
+        const { columns, rows } = this.tileLayer;
+        const layerX = startX - 1;
+        const layerY = startY - 1;
+        if (!this.tileLayerCanvas) {
+            this.tileLayerCanvas = document.createElement('canvas');
+            this.tileLayerCanvas.width = columns * this.tileSize;
+            this.tileLayerCanvas.height = rows * this.tileSize;
+        }
+        const layer = this.tileLayerCanvas.getContext('2d')!;
+
+        const sprites: (HTMLCanvasElement | null)[] = new Array(columns * rows);
+        const liveTiles: { x: number; y: number; type: TileType }[] = [];
+        const movingTiles: Motion[] = [];
+        for (let row = 0; row < rows; row++) {
+            for (let column = 0; column < columns; column++) {
+                const x = layerX + column;
+                const y = layerY + row;
+                const cell = row * columns + column;
+                const tile = grid.isInBounds(x, y) ? grid.getTile(x, y) : TileType.EMPTY;
+                const motion = grid.isInBounds(x, y) ? this.getTileMotion(grid, x, y, tile) : null;
+                // The exit while it opens and objects on the move are left off the layer and drawn on top instead
+                if (this.isTileDrawnLive(tile)) {
+                    liveTiles.push({ x, y, type: tile });
+                    sprites[cell] = null;
+                } else if (motion) {
+                    movingTiles.push(motion);
+                    sprites[cell] = null;
+                } else {
+                    sprites[cell] = grid.isInBounds(x, y) ? this.getTileSprite(x, y, tile) : null;
+                }
+            }
+        }
+        const dirty = this.tileLayer.update(grid, layerX, layerY, sprites);
+
+        layer.save();
+        layer.translate(-layerX * this.tileSize, -layerY * this.tileSize);
+        const drawCell = (column: number, row: number) => {
+            const sprite = sprites[row * columns + column];
+            if (sprite) {
+                this.tileSprites.draw(layer, sprite, layerX + column, layerY + row);
+            }
+        };
+        if (dirty === null) {
+            layer.clearRect(layerX * this.tileSize, layerY * this.tileSize, columns * this.tileSize, rows * this.tileSize);
+            for (let row = 0; row < rows; row++) {
+                for (let column = 0; column < columns; column++) {
+                    drawCell(column, row);
+                }
+            }
+        } else {
+            // Clip each dirty cell and repaint the sprites that reach into it, in the usual order
+            for (let row = 0; row < rows; row++) {
+                for (let column = 0; column < columns; column++) {
+                    if (!dirty[row * columns + column]) {
+                        continue;
+                    }
+                    const left = (layerX + column) * this.tileSize;
+                    const top = (layerY + row) * this.tileSize;
+                    layer.save();
+                    layer.beginPath();
+                    layer.rect(left, top, this.tileSize, this.tileSize);
+                    layer.clip();
+                    layer.clearRect(left, top, this.tileSize, this.tileSize);
+                    for (let neighbourRow = Math.max(0, row - 1); neighbourRow <= Math.min(rows - 1, row + 1); neighbourRow++) {
+                        for (let neighbourColumn = Math.max(0, column - 1); neighbourColumn <= Math.min(columns - 1, column + 1); neighbourColumn++) {
+                            drawCell(neighbourColumn, neighbourRow);
+                        }
+                    }
+                    layer.restore();
+                }
+            }
+        }
+        layer.restore();
+
+        this.ctx.drawImage(this.tileLayerCanvas, layerX * this.tileSize, layerY * this.tileSize);
+        liveTiles.forEach(({ x, y, type }) => this.renderTile(x, y, type));
+        movingTiles.forEach(motion => this.renderMovingTile(motion));
+    }
+
+    private getTileMotion(grid: Grid, x: number, y: number, tile: TileType): Motion | null {
+        const simulation = this.host.getSimulation();
+        return simulation ? this.motions.getTileMotion(simulation, grid, x, y, tile) : null;
+    }
+
+    private renderMovingTile(motion: Motion): void {
+        const sprite = this.getTileSprite(motion.toX, motion.toY, motion.tile);
+        if (sprite) {
+            const { x, y } = this.motions.getPosition(motion);
+            this.tileSprites.draw(this.ctx, sprite, x, y);
+        }
+    }
+
+    // Sprite for a tile as it looks right now, or null for empty space
+    private getTileSprite(x: number, y: number, type: TileType): HTMLCanvasElement | null {
+        const simulation = this.host.getSimulation();
+
+        // Tiles caught in the player's explosion
+        if (simulation?.isExploding()) {
+            const distance = Math.sqrt(
+                Math.pow(x - simulation.getExplosionX(), 2) +
+                Math.pow(y - simulation.getExplosionY(), 2)
+            );
+            if (distance <= simulation.getExplosionRadius() + 1) {
+                return this.tileSprites.getExplosion(type, simulation.getExplosionProgress());
+            }
+        }
+
+        if (type === TileType.EMPTY) {
+            return null;
+        }
+        if (type === TileType.PLAYER) {
+            return this.tileSprites.getPlayer(this.playerAnimFrame, simulation?.isPlayerFacingLeft() ?? false);
+        }
+        const animated = type !== TileType.MAGIC_WALL || simulation?.getMagicWallState() === 'active';
+        return this.tileSprites.getTile(type, this.tileSprites.getFrame(type, x, y, performance.now(), animated));
+    }
+
+    // Progress of the exit opening, from 0 to 1
+    private getExitAppearProgress(): number {
+        return Math.min(1, (performance.now() - this.exitAppearTime) / CaveRenderer.EXIT_APPEAR_DELAY);
+    }
+
+    // Tiles animated too smoothly to be cached: the exit while it opens
+    private isTileDrawnLive(type: TileType): boolean {
+        return type === TileType.EXIT && this.host.getSimulation() !== null && this.getExitAppearProgress() < 1;
+    }
+}
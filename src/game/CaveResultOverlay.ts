@@ -0,0 +1,22 @@
+// Outcome of a cave as shown over the game area: a big title with a few lines under it
+export interface CaveResult {
+    title: string;
+    color: string;  // Colour of the title
+    lines: string[];  // Score, hints and what comes next
+}
+
+// Darkens the game area below `top` and centres the result on it
+export function renderCaveResult(ctx: CanvasRenderingContext2D, top: number, result: CaveResult): void {
+    const { width, height } = ctx.canvas;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, top, width, height - top);
+
+    const centerX = width / 2;
+    const centerY = (height - top) / 2 + top;
+    ctx.textAlign = 'center';
+    ctx.fillStyle = result.color;
+    ctx.font = '48px Arial';
+    ctx.fillText(result.title, centerX, centerY);
+    ctx.font = '24px Arial';
+    result.lines.forEach((line, i) => ctx.fillText(line, centerX, centerY + 40 + i * 40));
+}
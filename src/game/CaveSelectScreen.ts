@@ -0,0 +1,127 @@
+import { Campaign } from './Campaign';
+import { CampaignProgress } from './CampaignProgress';
+import { Action, Controls } from './Controls';
+
+/*
+ * Screen listing the caves of a campaign, where any unlocked cave can be picked to start
+ * a new run from. Locked caves are shown but can't be chosen.
+ */
+export class CaveSelectScreen {
+    private static readonly VISIBLE_ROWS = 12;
+    private readonly campaign: Campaign;
+    private readonly progress: CampaignProgress;
+    private readonly controls: Controls;
+    private readonly top: number;  // Top of the area the screen covers, below the score area
+    private readonly onSelect: (index: number) => void;
+    private open: boolean = false;
+    private index: number = 0;  // Selected cave
+
+    // `onSelect` is called with the cave the player picked
+    constructor(campaign: Campaign, progress: CampaignProgress, controls: Controls, top: number, onSelect: (index: number) => void) {
+        this.campaign = campaign;
+        this.progress = progress;
+        this.controls = controls;
+        this.top = top;
+        this.onSelect = onSelect;
+    }
+
+    public isOpen(): boolean {
+        return this.open;
+    }
+
+    // Opens the list at the given cave
+    public show(index: number): void {
+        this.open = true;
+        this.index = index;
+    }
+
+    public close(): void {
+        this.open = false;
+    }
+
+    public handleKey(event: KeyboardEvent): void {
+        switch (event.key) {
+            case 'ArrowUp':
+                this.handleAction('up');
+                break;
+            case 'ArrowDown':
+                this.handleAction('down');
+                break;
+            case 'Enter':
+                this.handleAction('snap');
+                break;
+            case 'Escape':
+                this.open = false;
+                break;
+            default:
+                if (this.controls.getActionForKey(event.code) === 'caveSelect') {
+                    this.open = false;
+                }
+        }
+    }
+
+    // Up and down choose a cave, snap starts it and pause closes the list, so it works with any controls
+    public handleAction(action: Action): void {
+        const caveCount = this.campaign.getCaveCount();
+
+        switch (action) {
+            case 'up':
+                this.index = (this.index + caveCount - 1) % caveCount;
+                break;
+            case 'down':
+                this.index = (this.index + 1) % caveCount;
+                break;
+            case 'snap':
+                // Only unlocked caves can be started
+                if (this.progress.isUnlocked(this.index)) {
+                    this.open = false;
+                    this.onSelect(this.index);
+                }
+                break;
+            case 'pause':
+            case 'caveSelect':
+                this.open = false;
+                break;
+        }
+    }
+
+    public render(ctx: CanvasRenderingContext2D): void {
+        const { width, height } = ctx.canvas;
+        const centerX = width / 2;
+        const rowHeight = 40;
+        const visibleRows = CaveSelectScreen.VISIBLE_ROWS;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+        ctx.fillRect(0, this.top, width, height - this.top);
+
+        ctx.textAlign = 'center';
+        ctx.fillStyle = 'gold';
+        ctx.font = '40px Arial';
+        ctx.fillText(this.campaign.getName(), centerX, this.top + 80);
+        ctx.fillStyle = '#AAAAAA';
+        ctx.font = '20px Arial';
+        ctx.fillText('Up/Down to choose, Enter to play, Esc to close', centerX, this.top + 115);
+
+        // Scroll the list so the selected cave is always visible
+        const firstRow = Math.max(0, Math.min(
+            this.index - Math.floor(visibleRows / 2),
+            this.campaign.getCaveCount() - visibleRows
+        ));
+        const lastRow = Math.min(this.campaign.getCaveCount(), firstRow + visibleRows);
+
+        ctx.font = '28px Arial';
+        for (let i = firstRow; i < lastRow; i++) {
+            const y = this.top + 180 + (i - firstRow) * rowHeight;
+            const unlocked = this.progress.isUnlocked(i);
+            const bonus = this.campaign.isIntermission(i) ? ' (bonus)' : '';
+            const label = unlocked ? `${i + 1}. ${this.campaign.getCaveName(i)}${bonus}` : `${i + 1}. 🔒 Locked`;
+
+            if (i === this.index) {
+                ctx.fillStyle = 'rgba(255, 215, 0, 0.2)';
+                ctx.fillRect(centerX - 300, y - rowHeight + 10, 600, rowHeight);
+            }
+            ctx.fillStyle = unlocked ? (i === this.index ? 'gold' : 'white') : '#666666';
+            ctx.fillText(label, centerX, y);
+        }
+    }
+}
@@ -0,0 +1,417 @@
+import { describe, expect, it } from 'vitest';
+import { CaveSimulation, Direction, SimulationEvent } from './CaveSimulation';
+import { TileType } from './TileType';
+import { createTestSimulation } from './testCaves';
+
+// Runs whole physics updates without input and returns the events they raised
+function runPhysics(simulation: CaveSimulation, updates: number): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+    for (let tick = 0; tick < updates * CaveSimulation.PHYSICS_TICKS; tick++) {
+        events.push(...simulation.step({ move: null, snap: false }));
+    }
+    return events;
+}
+
+// Steps until the player can move, then makes one move
+function movePlayer(simulation: CaveSimulation, direction: Direction, snap: boolean = false): SimulationEvent[] {
+    const events: SimulationEvent[] = [];
+    while (!simulation.isMoveTick()) {
+        events.push(...simulation.step({ move: null, snap: false }));
+    }
+    events.push(...simulation.step({ move: direction, snap }));
+    return events;
+}
+
+function countTiles(simulation: CaveSimulation, type: TileType): number {
+    const grid = simulation.getGrid();
+    let count = 0;
+    for (let y = 0; y < grid.getHeight(); y++) {
+        for (let x = 0; x < grid.getWidth(); x++) {
+            if (grid.getTile(x, y) === type) {
+                count++;
+            }
+        }
+    }
+    return count;
+}
+
+describe('CaveSimulation physics', () => {
+    it('drops a boulder one cell per physics update until it lands', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '#.O.#',
+            '#...#',
+            '#...#',
+            '#@..#',
+            '#####'
+        ]);
+        const grid = simulation.getGrid();
+
+        runPhysics(simulation, 1);
+        expect(grid.getTile(2, 1)).toBe(TileType.EMPTY);
+        expect(grid.getTile(2, 2)).toBe(TileType.BOULDER);
+        runPhysics(simulation, 5);
+        expect(grid.getTile(2, 4)).toBe(TileType.BOULDER);
+        expect(simulation.getStatus()).toBe('playing');
+    });
+
+    it('leaves the player alone under a resting boulder', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '#.O.#',
+            '#.@.#',
+            '#####'
+        ]);
+
+        runPhysics(simulation, 5);
+        expect(simulation.getGrid().getTile(2, 1)).toBe(TileType.BOULDER);
+        expect(simulation.getStatus()).toBe('playing');
+    });
+
+    it('kills the player with a falling boulder', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '#.O.#',
+            '#...#',
+            '#.@.#',
+            '#####'
+        ]);
+
+        const events = runPhysics(simulation, 2);
+        expect(events).toContain('explosion');
+        expect(simulation.getStatus()).toBe('dying');
+    });
+
+    it('rolls a boulder off another boulder, to the left first', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '#.O@#',
+            '#.O.#',
+            '#####'
+        ]);
+        const grid = simulation.getGrid();
+
+        runPhysics(simulation, 1);
+        expect(grid.getTile(2, 1)).toBe(TileType.EMPTY);
+        expect(grid.getTile(1, 2)).toBe(TileType.BOULDER);
+    });
+
+    it('keeps objects on dirt where they are', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '#.O.#',
+            '#.:.#',
+            '#@..#',
+            '#####'
+        ]);
+
+        runPhysics(simulation, 3);
+        expect(simulation.getGrid().getTile(2, 1)).toBe(TileType.BOULDER);
+    });
+
+    it('lets the player push a boulder into empty space', () => {
+        const simulation = createTestSimulation([
+            '######',
+            '#@O..#',
+            '######'
+        ]);
+
+        const events = movePlayer(simulation, 'right');
+        expect(events).toContain('boulder');
+        expect(simulation.getPlayerX()).toBe(2);
+        expect(simulation.getGrid().getTile(3, 1)).toBe(TileType.BOULDER);
+    });
+
+    it('turns boulders into diamonds through an active magic wall', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '#.O.#',
+            '#...#',
+            '#.M.#',
+            '#...#',
+            '#@..#',
+            '#####'
+        ]);
+
+        const events = runPhysics(simulation, 3);
+        expect(events).toContain('magicWall');
+        expect(simulation.getMagicWallState()).toBe('active');
+        expect(countTiles(simulation, TileType.BOULDER)).toBe(0);
+        expect(countTiles(simulation, TileType.DIAMOND)).toBe(1);
+    });
+});
+
+describe('CaveSimulation player', () => {
+    it('snaps a diamond or dirt away without moving', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '#:@*#',
+            '#####'
+        ], { diamonds: 2 });
+        const grid = simulation.getGrid();
+
+        expect(movePlayer(simulation, 'right', true)).toContain('diamond');
+        expect(grid.getTile(3, 1)).toBe(TileType.EMPTY);
+        expect(simulation.getDiamondsCollected()).toBe(1);
+        expect(movePlayer(simulation, 'left', true)).toContain('walk');
+        expect(grid.getTile(1, 1)).toBe(TileType.EMPTY);
+        expect([simulation.getPlayerX(), simulation.getPlayerY()]).toEqual([2, 1]);
+    });
+
+    it('snaps at nothing when the tile next to the player is a wall or a boulder', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '#O@.#',
+            '#####'
+        ]);
+
+        expect(movePlayer(simulation, 'left', true)).toEqual([]);
+        expect(movePlayer(simulation, 'up', true)).toEqual([]);
+        expect(simulation.getGrid().getTile(1, 1)).toBe(TileType.BOULDER);
+        expect(simulation.getPlayerX()).toBe(2);
+    });
+
+    it('keeps moving while a direction is held, one cell per move tick', () => {
+        const simulation = createTestSimulation([
+            '########',
+            '#@:::..#',
+            '########'
+        ]);
+        const positions: number[] = [];
+
+        for (let tick = 0; tick < 4 * CaveSimulation.MOVE_TICKS; tick++) {
+            simulation.step({ move: 'right', snap: false });
+            positions.push(simulation.getPlayerX());
+        }
+        // Only the move ticks move the player, and each of them does
+        expect(positions).toEqual([1, 2, 2, 3, 3, 4, 4, 5]);
+
+        // until something is in the way
+        for (let tick = 0; tick < 4 * CaveSimulation.MOVE_TICKS; tick++) {
+            simulation.step({ move: 'right', snap: false });
+        }
+        expect(simulation.getPlayerX()).toBe(6);
+    });
+});
+
+describe('CaveSimulation borderless caves', () => {
+    it('moves objects in the last column and row', () => {
+        const simulation = createTestSimulation([
+            '@..O',
+            '....',
+            '....'
+        ]);
+        const grid = simulation.getGrid();
+
+        runPhysics(simulation, 1);
+        expect(grid.getTile(3, 0)).toBe(TileType.EMPTY);
+        expect(grid.getTile(3, 1)).toBe(TileType.BOULDER);
+        runPhysics(simulation, 3);
+        expect(grid.getTile(3, 2)).toBe(TileType.BOULDER);
+    });
+
+    it('moves enemies along the edge of the grid', () => {
+        const simulation = createTestSimulation([
+            '@....',
+            ':::::',
+            '....F'
+        ]);
+        const grid = simulation.getGrid();
+
+        runPhysics(simulation, 1);
+        expect(grid.getTile(4, 2)).toBe(TileType.EMPTY);
+        expect(grid.getTile(3, 2)).toBe(TileType.FIREFLY);
+    });
+});
+
+describe('CaveSimulation enemies', () => {
+    it('moves a firefly along a corridor by turning until it finds a way', () => {
+        const simulation = createTestSimulation([
+            '#######',
+            '#F....#',
+            '#######',
+            '#@....#',
+            '#######'
+        ]);
+        const grid = simulation.getGrid();
+
+        // Starting left it finds walls down, left and up before it turns right and sets off
+        runPhysics(simulation, 2);
+        expect(grid.getTile(1, 1)).toBe(TileType.FIREFLY);
+        runPhysics(simulation, 1);
+        expect(grid.getTile(1, 1)).toBe(TileType.EMPTY);
+        expect(grid.getTile(2, 1)).toBe(TileType.FIREFLY);
+    });
+
+    it('starts an enemy off in the heading the cave gives it', () => {
+        const simulation = createTestSimulation([
+            '#######',
+            '#..F..#',
+            '#######',
+            '#@....#',
+            '#######'
+        ], { headings: '3,1 right' });
+        const grid = simulation.getGrid();
+
+        // A firefly heading right turns left first, finds the wall and goes straight on
+        runPhysics(simulation, 1);
+        expect(grid.getTile(4, 1)).toBe(TileType.FIREFLY);
+    });
+
+    it('explodes an enemy next to the player, taking the player with it', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '#@F.#',
+            '#####'
+        ]);
+
+        const events = runPhysics(simulation, 1);
+        expect(events).toContain('explosion');
+        expect(simulation.getStatus()).toBe('dying');
+    });
+
+    it('turns a butterfly hit by a falling boulder into diamonds', () => {
+        const simulation = createTestSimulation([
+            '#######',
+            '#@.O..#',
+            '#.....#',
+            '###B###',
+            '#######'
+        ]);
+
+        runPhysics(simulation, 2);
+        expect(countTiles(simulation, TileType.EXPLOSION)).toBe(4);
+        runPhysics(simulation, 4);
+        expect(countTiles(simulation, TileType.BUTTERFLY)).toBe(0);
+        expect(countTiles(simulation, TileType.DIAMOND)).toBe(4);
+        expect(simulation.getStatus()).toBe('playing');
+    });
+});
+
+describe('CaveSimulation amoeba', () => {
+    it('grows into empty space and dirt', () => {
+        const simulation = createTestSimulation([
+            '#######',
+            '#..A..#',
+            '#:::::#',
+            '#@....#',
+            '#######'
+        ], { amoebaSlowGrowth: 100 });
+
+        runPhysics(simulation, 4);
+        expect(simulation.getAmoebaSize()).toBeGreaterThan(1);
+    });
+
+    it('turns into diamonds when it has nowhere to grow', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '##A##',
+            '#####',
+            '#@..#',
+            '#####'
+        ]);
+
+        const events = runPhysics(simulation, 1);
+        expect(events).toContain('amoebaDiamonds');
+        expect(simulation.getGrid().getTile(2, 1)).toBe(TileType.DIAMOND);
+    });
+
+    it('turns into boulders once it grows too big', () => {
+        const simulation = createTestSimulation([
+            '#######',
+            '#..A..#',
+            '#.....#',
+            '#@....#',
+            '#######'
+        ], { amoebaMaxSize: 3, amoebaSlowGrowth: 100 });
+
+        const events = runPhysics(simulation, 10);
+        expect(events).toContain('amoebaBoulders');
+        expect(countTiles(simulation, TileType.AMOEBA)).toBe(0);
+        expect(countTiles(simulation, TileType.BOULDER)).toBeGreaterThanOrEqual(3);
+    });
+});
+
+describe('CaveSimulation exit', () => {
+    it('opens a fixed exit once enough diamonds are collected', () => {
+        const simulation = createTestSimulation([
+            '######',
+            '#@*.X#',
+            '######'
+        ]);
+        const grid = simulation.getGrid();
+        expect(grid.getTile(4, 1)).toBe(TileType.STEEL_WALL);
+
+        expect(movePlayer(simulation, 'right')).toEqual(expect.arrayContaining(['diamond', 'portal']));
+        expect(grid.getTile(4, 1)).toBe(TileType.EXIT);
+        movePlayer(simulation, 'right');
+        expect(movePlayer(simulation, 'right')).toContain('victory');
+        expect(simulation.getStatus()).toBe('won');
+    });
+
+    it('places a random exit away from the player where it can be reached', () => {
+        const rows = [
+            '##############',
+            '#@*..........#',
+            ...Array(8).fill('#............#'),
+            '##############'
+        ];
+        for (let seed = 1; seed <= 20; seed++) {
+            const simulation = createTestSimulation(rows, {}, seed);
+            expect(movePlayer(simulation, 'right')).toContain('portal');
+
+            const exitX = simulation.getExitX();
+            const exitY = simulation.getExitY();
+            expect(simulation.getGrid().getTile(exitX, exitY)).toBe(TileType.EXIT);
+            // The exit is placed as the diamond is collected, before the player steps onto its cell
+            expect(Math.abs(exitX - 1) > 2 || Math.abs(exitY - 1) > 2).toBe(true);
+            expect(exitX).toBeGreaterThanOrEqual(2);
+            expect(exitY).toBeGreaterThanOrEqual(2);
+        }
+    });
+
+    it('only puts a random exit in place of dirt, space or wall', () => {
+        const rows = [
+            '###########',
+            '#@*:******#',
+            '#*********#',
+            '#**B*F**A*#',
+            '#***=*****#',
+            '#****.****#',
+            '#*****:*O*#',
+            '#*********#',
+            '###########'
+        ];
+        for (let seed = 1; seed <= 20; seed++) {
+            const simulation = createTestSimulation(rows, { diamonds: 1 }, seed);
+            expect(movePlayer(simulation, 'right')).toContain('portal');
+
+            expect(['=', '.', ':']).toContain(rows[simulation.getExitY()][simulation.getExitX()]);
+        }
+    });
+
+    it('finds a spot for a random exit in caves too small for the usual rules', () => {
+        const simulation = createTestSimulation([
+            '#####',
+            '#@*.#',
+            '#####'
+        ]);
+
+        expect(movePlayer(simulation, 'right')).toContain('portal');
+        expect(simulation.getExitX()).toBe(3);
+        expect(simulation.getExitY()).toBe(1);
+        expect(movePlayer(simulation, 'right')).toContain('victory');
+    });
+
+    it('places a random exit in the smallest cave the editor allows', () => {
+        const simulation = createTestSimulation([
+            '@*.',
+            ':::',
+            ':::'
+        ]);
+
+        expect(movePlayer(simulation, 'right', true)).toContain('portal');
+        expect(simulation.getGrid().getTile(simulation.getExitX(), simulation.getExitY())).toBe(TileType.EXIT);
+        expect(simulation.getExitX() !== 0 || simulation.getExitY() !== 0).toBe(true);
+    });
+});
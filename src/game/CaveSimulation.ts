@@ -0,0 +1,974 @@
+import { Grid } from './Grid';
+import { TileType } from './TileType';
+import { TILE_ATTRIBUTES } from './TileAttributes';
+import { Random } from './Random';
+import { Cave, CaveSettings, AMOEBA_DEFAULTS, MAGIC_WALL_DEFAULT_TIME } from './Cave';
+import { CaveValidator } from './CaveValidator';
+
+export type Direction = 'left' | 'right' | 'up' | 'down';
+
+// Enemy headings, in clockwise order so that +1 turns right and +3 turns left
+const HEADING_DX = [0, 1, 0, -1];  // Up, right, down, left
+const HEADING_DY = [-1, 0, 1, 0];
+const FIREFLY_START_HEADING = 3;  // Fireflies start moving left
+const BUTTERFLY_START_HEADING = 2;  // Butterflies start moving down
+const DIRECTION_HEADINGS: Record<Direction, number> = { up: 0, right: 1, down: 2, left: 3 };
+
+// Magic walls are inactive until something falls on them, then active for a while and dormant for good
+export type MagicWallState = 'inactive' | 'active' | 'dormant';
+
+// 'dying' lasts while the player's explosion plays out; 'won' and 'lost' are final
+export type CaveStatus = 'playing' | 'dying' | 'won' | 'lost';
+
+// What the simulation keeps doing in each status
+const STATUS_RULES: Record<CaveStatus, { input: boolean; physics: boolean; time: boolean }> = {
+    playing: { input: true, physics: true, time: true },
+    dying: { input: false, physics: true, time: false },
+    won: { input: false, physics: false, time: false },
+    lost: { input: false, physics: false, time: false }
+};
+
+export interface TickInput {
+    move: Direction | null;
+    snap: boolean;  // Dig or collect the tile in the move direction without stepping into it
+}
+
+/*
+ * The complete state of a running simulation as plain data, so a cave can be saved
+ * mid-run and resumed exactly where it was. Cells are indexed as y * width + x.
+ */
+export interface SimulationSnapshot {
+    width: number;
+    height: number;
+    tiles: TileType[];
+    settings: CaveSettings;
+    randomSeed: number;
+    randomState: number;
+    tick: number;
+    msSinceTimeUpdate: number;
+    playerX: number;
+    playerY: number;
+    playerFacingLeft: boolean;
+    score: number;
+    diamondsCollected: number;
+    timeRemaining: number;
+    timeWarning: boolean;
+    status: CaveStatus;
+    explosion: { frame: number; radius: number; x: number; y: number } | null;
+    exitX: number;
+    exitY: number;
+    exitRevealed: boolean;
+    fixedExitX: number;
+    fixedExitY: number;
+    falling: number[];
+    enemyHeadings: [number, number][];
+    blasts: [number, TileType, number][];  // Cell, tile left behind, physics updates remaining
+    amoebaSize: number;
+    amoebaFrontier: number;
+    magicWallState: MagicWallState;
+    magicWallTicksLeft: number;
+}
+
+// A boulder, diamond or enemy that moved one cell during a tick, so the front end can animate it
+export interface TileMove {
+    fromX: number;
+    fromY: number;
+    toX: number;
+    toY: number;
+    tile: TileType;
+    ticks: number;  // Ticks until the object can move again, over which the move is drawn
+}
+
+// Things that happened during a tick, used by the front end to play sounds and effects
+export type SimulationEvent =
+    | 'walk'
+    | 'diamond'
+    | 'boulder'
+    | 'portal'
+    | 'victory'
+    | 'explosion'
+    | 'timeWarning'
+    | 'timeUp'
+    | 'amoebaDiamonds'
+    | 'amoebaBoulders'
+    | 'magicWall'
+    | 'magicWallDormant';
+
+export class CaveSimulation {
+    public static readonly TICK_DURATION = 75;  // Simulated milliseconds per tick
+    public static readonly PHYSICS_TICKS = 3;  // Physics runs every third tick (225 ms)
+    public static readonly MOVE_TICKS = 2;  // The player can move every second tick (150 ms)
+    public static readonly POINTS_PER_SECOND = 1;  // Score for each second left on the clock at the exit
+    private readonly TIME_WARNING_THRESHOLD = 60;
+    private readonly EXPLOSION_MAX_RADIUS = 3;
+    private readonly BLAST_DURATION = 2;  // Physics updates an enemy explosion lasts before it clears
+    private readonly EXIT_PLACEMENT_ATTEMPTS = 200;  // Random exit positions tried before scanning the grid for one
+    private readonly random: Random;
+    private grid: Grid;
+    private settings: CaveSettings;
+    private tick: number = 0;
+    private msSinceTimeUpdate: number = 0;  // Simulated time since the clock last ticked down
+    private playerX: number;
+    private playerY: number;
+    private playerFacingLeft: boolean = false;
+    private score: number = 0;
+    private diamondsCollected: number = 0;
+    private timeRemaining: number;
+    private isTimeWarning: boolean = false;
+    private status: CaveStatus = 'playing';
+    private exploding: boolean = false;
+    private explosionFrame: number = 0;
+    private explosionRadius: number = 0;
+    private explosionX: number = 0;
+    private explosionY: number = 0;
+    private exitX: number = -1;
+    private exitY: number = -1;
+    private exitRevealed: boolean = false;
+    private readonly fixedExitX: number;
+    private readonly fixedExitY: number;
+    private events: SimulationEvent[] = [];
+    private moves: TileMove[] = [];
+    private falling: Set<number> = new Set();  // Cells holding boulders or diamonds that are falling or rolling
+    private enemyHeadings: Map<number, number> = new Map();  // Heading of each firefly/butterfly, by cell index
+    private blasts: Map<number, { result: TileType; remaining: number }> = new Map();  // Enemy explosion cells
+    private readonly amoebaMaxSize: number;
+    private readonly amoebaSlowTicks: number;  // Ticks of slow growth from the start of the cave
+    private readonly amoebaSlowGrowth: number;
+    private readonly amoebaFastGrowth: number;
+    private amoebaSize: number = 0;
+    private amoebaFrontier: number = 0;  // Free cells the amoeba can still grow into
+    private magicWallState: MagicWallState = 'inactive';
+    private readonly magicWallTicks: number;
+    private magicWallTicksLeft: number = 0;
+
+    constructor(cave: Cave, random: Random) {
+        this.grid = cave.grid;
+        this.settings = cave.settings;
+        this.playerX = cave.startX;
+        this.playerY = cave.startY;
+        this.fixedExitX = cave.exitX;
+        this.fixedExitY = cave.exitY;
+        this.timeRemaining = cave.settings.timeLimit;
+        this.random = random;
+        this.amoebaMaxSize = cave.settings.amoebaMaxSize ?? AMOEBA_DEFAULTS.maxSize;
+        this.amoebaSlowTicks = (cave.settings.amoebaSlowTime ?? AMOEBA_DEFAULTS.slowTime) * 1000 / CaveSimulation.TICK_DURATION;
+        this.amoebaSlowGrowth = (cave.settings.amoebaSlowGrowth ?? AMOEBA_DEFAULTS.slowGrowth) / 100;
+        this.amoebaFastGrowth = (cave.settings.amoebaFastGrowth ?? AMOEBA_DEFAULTS.fastGrowth) / 100;
+        this.magicWallTicks = (cave.settings.magicWallTime ?? MAGIC_WALL_DEFAULT_TIME) * 1000 / CaveSimulation.TICK_DURATION;
+
+        // Enemies start with their classic initial headings unless the cave gives them another
+        for (let y = 0; y < this.grid.getHeight(); y++) {
+            for (let x = 0; x < this.grid.getWidth(); x++) {
+                const tile = this.grid.getTile(x, y);
+                if (tile === TileType.FIREFLY) {
+                    this.enemyHeadings.set(this.cellIndex(x, y), FIREFLY_START_HEADING);
+                } else if (tile === TileType.BUTTERFLY) {
+                    this.enemyHeadings.set(this.cellIndex(x, y), BUTTERFLY_START_HEADING);
+                }
+            }
+        }
+        for (const { x, y, direction } of cave.enemyHeadings ?? []) {
+            if (this.isEnemy(this.grid.getTile(x, y))) {
+                this.enemyHeadings.set(this.cellIndex(x, y), DIRECTION_HEADINGS[direction]);
+            }
+        }
+    }
+
+    public getSnapshot(): SimulationSnapshot {
+        const tiles: TileType[] = [];
+        for (let y = 0; y < this.grid.getHeight(); y++) {
+            for (let x = 0; x < this.grid.getWidth(); x++) {
+                tiles.push(this.grid.getTile(x, y));
+            }
+        }
+
+        return {
+            width: this.grid.getWidth(),
+            height: this.grid.getHeight(),
+            tiles,
+            settings: { ...this.settings },
+            randomSeed: this.random.getSeed(),
+            randomState: this.random.getState(),
+            tick: this.tick,
+            msSinceTimeUpdate: this.msSinceTimeUpdate,
+            playerX: this.playerX,
+            playerY: this.playerY,
+            playerFacingLeft: this.playerFacingLeft,
+            score: this.score,
+            diamondsCollected: this.diamondsCollected,
+            timeRemaining: this.timeRemaining,
+            timeWarning: this.isTimeWarning,
+            status: this.status,
+            explosion: this.exploding
+                ? { frame: this.explosionFrame, radius: this.explosionRadius, x: this.explosionX, y: this.explosionY }
+                : null,
+            exitX: this.exitX,
+            exitY: this.exitY,
+            exitRevealed: this.exitRevealed,
+            fixedExitX: this.fixedExitX,
+            fixedExitY: this.fixedExitY,
+            falling: [...this.falling],
+            enemyHeadings: [...this.enemyHeadings],
+            blasts: [...this.blasts].map(([cell, blast]) => [cell, blast.result, blast.remaining]),
+            amoebaSize: this.amoebaSize,
+            amoebaFrontier: this.amoebaFrontier,
+            magicWallState: this.magicWallState,
+            magicWallTicksLeft: this.magicWallTicksLeft
+        };
+    }
+
+    // Rebuilds a simulation from getSnapshot(); stepping it continues exactly like the original
+    public static fromSnapshot(snapshot: SimulationSnapshot): CaveSimulation {
+        const grid = new Grid(snapshot.width, snapshot.height);
+        snapshot.tiles.forEach((tile, cell) => {
+            grid.setTile(cell % snapshot.width, Math.floor(cell / snapshot.width), tile);
+        });
+
+        const random = new Random(snapshot.randomSeed);
+        random.setState(snapshot.randomState);
+        const cave: Cave = {
+            grid,
+            startX: snapshot.playerX,
+            startY: snapshot.playerY,
+            exitX: snapshot.fixedExitX,
+            exitY: snapshot.fixedExitY,
+            settings: { ...snapshot.settings }
+        };
+        const simulation = new CaveSimulation(cave, random);
+
+        simulation.tick = snapshot.tick;
+        simulation.msSinceTimeUpdate = snapshot.msSinceTimeUpdate;
+        simulation.playerFacingLeft = snapshot.playerFacingLeft;
+        simulation.score = snapshot.score;
+        simulation.diamondsCollected = snapshot.diamondsCollected;
+        simulation.timeRemaining = snapshot.timeRemaining;
+        simulation.isTimeWarning = snapshot.timeWarning;
+        simulation.status = snapshot.status;
+        if (snapshot.explosion) {
+            simulation.exploding = true;
+            simulation.explosionFrame = snapshot.explosion.frame;
+            simulation.explosionRadius = snapshot.explosion.radius;
+            simulation.explosionX = snapshot.explosion.x;
+            simulation.explosionY = snapshot.explosion.y;
+        }
+        simulation.exitX = snapshot.exitX;
+        simulation.exitY = snapshot.exitY;
+        simulation.exitRevealed = snapshot.exitRevealed;
+        simulation.falling = new Set(snapshot.falling);
+        simulation.enemyHeadings = new Map(snapshot.enemyHeadings);
+        simulation.blasts = new Map(snapshot.blasts.map(([cell, result, remaining]) => [cell, { result, remaining }]));
+        simulation.amoebaSize = snapshot.amoebaSize;
+        simulation.amoebaFrontier = snapshot.amoebaFrontier;
+        simulation.magicWallState = snapshot.magicWallState;
+        simulation.magicWallTicksLeft = snapshot.magicWallTicksLeft;
+        return simulation;
+    }
+
+    private cellIndex(x: number, y: number): number {
+        return y * this.grid.getWidth() + x;
+    }
+
+    /**
+     * Advances the cave by one tick using the given input and returns the events
+     * that occurred during it. Identical inputs always produce identical outcomes.
+     */
+    public step(input: TickInput): SimulationEvent[] {
+        this.events = [];
+        this.moves = [];
+        this.tick++;
+
+        const rules = STATUS_RULES[this.status];
+
+        if (rules.input && input.move && this.tick % CaveSimulation.MOVE_TICKS === 0) {
+            this.movePlayer(input.move, input.snap);
+        }
+
+        if (rules.physics && this.tick % CaveSimulation.PHYSICS_TICKS === 0) {
+            this.updatePhysics();
+        }
+
+        this.updateExplosion();
+        this.updateMagicWall();
+
+        // Update time every simulated second
+        this.msSinceTimeUpdate += CaveSimulation.TICK_DURATION;
+        if (this.msSinceTimeUpdate >= 1000) {
+            this.msSinceTimeUpdate -= 1000;
+            if (rules.time) {
+                this.updateTime();
+            }
+        }
+
+        return this.events;
+    }
+
+    // True when the next step() accepts player movement; input on other ticks is ignored
+    public isMoveTick(): boolean {
+        return (this.tick + 1) % CaveSimulation.MOVE_TICKS === 0;
+    }
+
+    private movePlayer(direction: Direction, snap: boolean): void {
+        let newX = this.playerX;
+        let newY = this.playerY;
+
+        switch (direction) {
+            case 'left':
+                newX--;
+                this.playerFacingLeft = true;
+                break;
+            case 'right':
+                newX++;
+                this.playerFacingLeft = false;
+                break;
+            case 'up':
+                newY--;
+                break;
+            case 'down':
+                newY++;
+                break;
+        }
+
+        const targetTile = this.grid.getTile(newX, newY);
+        const attributes = TILE_ATTRIBUTES[targetTile];
+
+        // Snapping clears or collects the neighbouring tile while the player stays put
+        if (snap) {
+            if (attributes.consumable) {
+                this.collectDiamond();
+                this.events.push('diamond');
+            } else if (attributes.diggable) {
+                this.events.push('walk');
+            } else {
+                return;
+            }
+            this.grid.setTile(newX, newY, TileType.EMPTY);
+            return;
+        }
+
+        // Pushable objects have to be moved out of the way first
+        if (attributes.pushable) {
+            if (!this.tryPush(newX, newY, direction)) {
+                return;
+            }
+        } else if (!this.canMoveTo(newX, newY)) {
+            return;
+        }
+
+        // Handle diamond collection
+        if (attributes.consumable) {
+            this.collectDiamond();
+            this.events.push('diamond');
+        } else if (attributes.diggable) {
+            this.events.push('walk');
+        } else if (targetTile === TileType.EXIT && this.exitRevealed) {
+            this.status = 'won';
+            this.isTimeWarning = false;
+            this.events.push('victory');
+            return;
+        }
+
+        // Clear the new position before moving there
+        this.grid.setTile(newX, newY, TileType.EMPTY);
+        this.playerX = newX;
+        this.playerY = newY;
+    }
+
+    private collectDiamond(): void {
+        this.score += this.settings.diamondValue;
+        this.diamondsCollected++;
+
+        if (this.diamondsCollected >= this.settings.diamondsRequired && !this.exitRevealed) {
+            this.revealExit();
+        }
+    }
+
+    /**
+     * Counts one second of the time left into the score once the cave is won, so the front
+     * end can animate the tally. Returns false when there is no time left to count.
+     */
+    public tallyTimeBonus(): boolean {
+        if (this.status !== 'won' || this.timeRemaining <= 0) {
+            return false;
+        }
+        this.timeRemaining--;
+        this.score += CaveSimulation.POINTS_PER_SECOND;
+        return true;
+    }
+
+    private revealExit(): void {
+        // Hand-made caves define where the exit is, otherwise find a suitable random position
+        if (this.fixedExitX >= 0 && this.fixedExitY >= 0) {
+            this.exitX = this.fixedExitX;
+            this.exitY = this.fixedExitY;
+        } else {
+            this.placeRandomExit();
+        }
+
+        this.exitRevealed = true;
+        this.grid.setTile(this.exitX, this.exitY, TileType.EXIT);
+        this.events.push('portal');
+    }
+
+    // Dirt, space or wall away from the border and the player, with no boulder above to crush it
+    private isGoodExitSpot(x: number, y: number): boolean {
+        return CaveValidator.isRandomExitSpot(this.grid, x, y, this.playerX, this.playerY);
+    }
+
+    /**
+     * Picks random good spots the player can get to. Caves too small or crowded for that
+     * get the best spot a scan of the grid finds: a good reachable one, then any reachable
+     * empty or dirt cell, then any good one. If even that fails the exit goes next to the player,
+     * on dirt, space or wall if there is any.
+     */
+    private placeRandomExit(): void {
+        const reachable = CaveValidator.findReachable(this.grid, this.playerX, this.playerY);
+        const margin = CaveValidator.EXIT_MARGIN;
+        const rangeX = this.grid.getWidth() - margin * 2;
+        const rangeY = this.grid.getHeight() - margin * 2;
+        for (let attempt = 0; attempt < this.EXIT_PLACEMENT_ATTEMPTS && rangeX > 0 && rangeY > 0; attempt++) {
+            const x = Math.floor(this.random.next() * rangeX) + margin;
+            const y = Math.floor(this.random.next() * rangeY) + margin;
+            if (this.isGoodExitSpot(x, y) && reachable[this.cellIndex(x, y)]) {
+                this.exitX = x;
+                this.exitY = y;
+                return;
+            }
+        }
+
+        // The diamond being collected counts as taken, the player is about to step onto it
+        const isFree = (x: number, y: number) => (this.grid.getTile(x, y) === TileType.EMPTY ||
+            this.grid.getTile(x, y) === TileType.DIRT) && !(x === this.playerX && y === this.playerY);
+        const rules = [
+            (x: number, y: number) => this.isGoodExitSpot(x, y) && reachable[this.cellIndex(x, y)],
+            (x: number, y: number) => reachable[this.cellIndex(x, y)] && isFree(x, y),
+            (x: number, y: number) => this.isGoodExitSpot(x, y)
+        ];
+        for (const rule of rules) {
+            for (let y = 0; y < this.grid.getHeight(); y++) {
+                for (let x = 0; x < this.grid.getWidth(); x++) {
+                    if (rule(x, y)) {
+                        this.exitX = x;
+                        this.exitY = y;
+                        return;
+                    }
+                }
+            }
+        }
+
+        const besidePlayer = [[1, 0], [-1, 0], [0, 1], [0, -1]].filter(([dx, dy]) => this.grid.isInBounds(this.playerX + dx, this.playerY + dy));
+        const beside = besidePlayer.find(([dx, dy]) =>
+            CaveValidator.isRandomExitTile(this.grid.getTile(this.playerX + dx, this.playerY + dy))
+        ) ?? besidePlayer[0];
+        this.exitX = this.playerX + (beside?.[0] ?? 0);
+        this.exitY = this.playerY + (beside?.[1] ?? 0);
+    }
+
+    // Pushes the object at x,y sideways into empty space; returns whether it moved
+    private tryPush(x: number, y: number, direction: Direction): boolean {
+        if (direction !== 'left' && direction !== 'right') {
+            return false;
+        }
+
+        // Falling objects can't be pushed
+        const nextX = x + (direction === 'left' ? -1 : 1);
+        if (this.falling.has(this.cellIndex(x, y)) || this.grid.getTile(nextX, y) !== TileType.EMPTY) {
+            return false;
+        }
+        const tile = this.grid.getTile(x, y);
+        this.grid.setTile(nextX, y, tile);
+        this.grid.setTile(x, y, TileType.EMPTY);
+        this.moves.push({ fromX: x, fromY: y, toX: nextX, toY: y, tile, ticks: CaveSimulation.MOVE_TICKS });
+        this.events.push('boulder');
+        return true;
+    }
+
+    private canMoveTo(x: number, y: number): boolean {
+        const tile = this.grid.getTile(x, y);
+        const attributes = TILE_ATTRIBUTES[tile];
+        return tile === TileType.EMPTY || tile === TileType.EXIT || attributes.diggable || attributes.consumable;
+    }
+
+    // The player blocks falling and rolling objects until the cave is won
+    private isPlayerAt(x: number, y: number): boolean {
+        return this.status !== 'won' && x === this.playerX && y === this.playerY;
+    }
+
+    private updatePhysics(): void {
+        this.updateBlasts();
+
+        // Cells that objects or enemies moved or amoeba grew into during this scan, so nothing is updated twice
+        const updatedCells = new Set<number>();
+
+        // Objects that are falling after this update; everything else is stationary
+        const falling = new Set<number>();
+
+        // Update from bottom to top, right to left; cells outside the grid count as steel wall
+        for (let y = this.grid.getHeight() - 1; y >= 0; y--) {
+            for (let x = this.grid.getWidth() - 1; x >= 0; x--) {
+                const currentTile = this.grid.getTile(x, y);
+                if (updatedCells.has(this.cellIndex(x, y))) {
+                    continue;
+                }
+
+                if (currentTile === TileType.FIREFLY || currentTile === TileType.BUTTERFLY) {
+                    this.updateEnemy(x, y, currentTile, updatedCells);
+                } else if (currentTile === TileType.AMOEBA) {
+                    this.growAmoeba(x, y, updatedCells);
+                } else if (TILE_ATTRIBUTES[currentTile].falls) {
+                    this.updateFallingObject(x, y, currentTile, updatedCells, falling);
+                }
+            }
+        }
+
+        this.falling = falling;
+        this.updateAmoeba();
+    }
+
+    /**
+     * Moves a boulder or diamond. Objects fall into empty space and roll off rounded things;
+     * while moving they are falling, and a falling object that lands on the player or an
+     * enemy kills it. A stationary object never harms anything below it.
+     */
+    private updateFallingObject(
+        x: number, y: number, tile: TileType, updatedCells: Set<number>, falling: Set<number>
+    ): void {
+        const wasFalling = this.falling.has(this.cellIndex(x, y));
+        const below = this.grid.getTile(x, y + 1);
+
+        // Fall straight down
+        if (below === TileType.EMPTY && !this.isPlayerAt(x, y + 1)) {
+            this.moveObject(x, y, x, y + 1, tile, updatedCells, falling);
+            return;
+        }
+
+        if (wasFalling) {
+            if (this.isPlayerAt(x, y + 1)) {
+                this.startExplosion();
+                return;
+            }
+            if (this.isEnemy(below)) {
+                this.explodeEnemy(x, y + 1);
+                return;
+            }
+            if (below === TileType.MAGIC_WALL && this.passThroughMagicWall(x, y, tile, falling)) {
+                return;
+            }
+            if (tile === TileType.BOULDER) {
+                this.events.push('boulder');
+            }
+        }
+
+        // Objects resting on something rounded roll off it, to the left if possible
+        if (TILE_ATTRIBUTES[below].rounded) {
+            for (const side of [-1, 1]) {
+                if (this.grid.getTile(x + side, y) === TileType.EMPTY &&
+                    this.grid.getTile(x + side, y + 1) === TileType.EMPTY &&
+                    !this.isPlayerAt(x + side, y) && // Don't roll if player is in the way
+                    !this.isPlayerAt(x + side, y + 1)) {
+                    this.moveObject(x, y, x + side, y + 1, tile, updatedCells, falling);
+                    return;
+                }
+            }
+        }
+    }
+
+    private moveObject(
+        x: number, y: number, newX: number, newY: number, tile: TileType,
+        updatedCells: Set<number>, falling: Set<number>
+    ): void {
+        this.grid.setTile(x, y, TileType.EMPTY);
+        this.grid.setTile(newX, newY, tile);
+        this.moves.push({ fromX: x, fromY: y, toX: newX, toY: newY, tile, ticks: CaveSimulation.PHYSICS_TICKS });
+        updatedCells.add(this.cellIndex(newX, newY));
+        falling.add(this.cellIndex(newX, newY));
+    }
+
+    private isEnemy(tile: TileType): boolean {
+        return tile === TileType.FIREFLY || tile === TileType.BUTTERFLY;
+    }
+
+    // Empty cells that the player isn't standing in
+    private isFreeForEnemy(x: number, y: number): boolean {
+        return this.grid.getTile(x, y) === TileType.EMPTY && !(x === this.playerX && y === this.playerY);
+    }
+
+    /**
+     * Moves a firefly or butterfly one step by the classic wall-following rules: fireflies
+     * keep a wall on their left and turn left whenever they can, butterflies mirror that.
+     */
+    private updateEnemy(x: number, y: number, tile: TileType, updatedCells: Set<number>): void {
+        // Touching the player makes the enemy explode, taking the player with it
+        if (this.status === 'playing' && Math.abs(x - this.playerX) + Math.abs(y - this.playerY) === 1) {
+            this.explodeEnemy(x, y);
+            return;
+        }
+
+        // Touching the amoeba is fatal for enemies too
+        for (let heading = 0; heading < 4; heading++) {
+            if (this.grid.getTile(x + HEADING_DX[heading], y + HEADING_DY[heading]) === TileType.AMOEBA) {
+                this.explodeEnemy(x, y);
+                return;
+            }
+        }
+
+        const index = this.cellIndex(x, y);
+        const startHeading = tile === TileType.FIREFLY ? FIREFLY_START_HEADING : BUTTERFLY_START_HEADING;
+        let heading = this.enemyHeadings.get(index) ?? startHeading;
+        const preferredTurn = tile === TileType.FIREFLY ? 3 : 1;
+        const fallbackTurn = tile === TileType.FIREFLY ? 1 : 3;
+
+        const turned = (heading + preferredTurn) % 4;
+        let moveHeading = -1;
+        if (this.isFreeForEnemy(x + HEADING_DX[turned], y + HEADING_DY[turned])) {
+            heading = turned;
+            moveHeading = turned;
+        } else if (this.isFreeForEnemy(x + HEADING_DX[heading], y + HEADING_DY[heading])) {
+            moveHeading = heading;
+        } else {
+            heading = (heading + fallbackTurn) % 4;
+        }
+
+        if (moveHeading < 0) {
+            this.enemyHeadings.set(index, heading);
+            return;
+        }
+
+        const newX = x + HEADING_DX[moveHeading];
+        const newY = y + HEADING_DY[moveHeading];
+        const newIndex = this.cellIndex(newX, newY);
+        this.grid.setTile(x, y, TileType.EMPTY);
+        this.grid.setTile(newX, newY, tile);
+        this.moves.push({ fromX: x, fromY: y, toX: newX, toY: newY, tile, ticks: CaveSimulation.PHYSICS_TICKS });
+        this.enemyHeadings.delete(index);
+        this.enemyHeadings.set(newIndex, heading);
+        updatedCells.add(newIndex);
+    }
+
+    private canAmoebaGrowInto(x: number, y: number): boolean {
+        const tile = this.grid.getTile(x, y);
+        return (tile === TileType.EMPTY || tile === TileType.DIRT) && !(x === this.playerX && y === this.playerY);
+    }
+
+    // Each amoeba cell has a chance to spread into a random neighbouring empty or dirt cell
+    private growAmoeba(x: number, y: number, updatedCells: Set<number>): void {
+        const growth = this.tick < this.amoebaSlowTicks ? this.amoebaSlowGrowth : this.amoebaFastGrowth;
+        if (this.random.next() >= growth) {
+            return;
+        }
+
+        const heading = Math.floor(this.random.next() * 4);
+        const newX = x + HEADING_DX[heading];
+        const newY = y + HEADING_DY[heading];
+        if (this.canAmoebaGrowInto(newX, newY)) {
+            this.grid.setTile(newX, newY, TileType.AMOEBA);
+            updatedCells.add(this.cellIndex(newX, newY));
+        }
+    }
+
+    /**
+     * Measures the amoeba after it has grown. An amoeba that has grown too big turns into
+     * boulders, one that has nowhere left to grow turns into diamonds.
+     */
+    private updateAmoeba(): void {
+        const frontier = new Set<number>();
+        let size = 0;
+        for (let y = 0; y < this.grid.getHeight(); y++) {
+            for (let x = 0; x < this.grid.getWidth(); x++) {
+                if (this.grid.getTile(x, y) !== TileType.AMOEBA) {
+                    continue;
+                }
+                size++;
+                for (let heading = 0; heading < 4; heading++) {
+                    const neighbourX = x + HEADING_DX[heading];
+                    const neighbourY = y + HEADING_DY[heading];
+                    if (this.canAmoebaGrowInto(neighbourX, neighbourY)) {
+                        frontier.add(this.cellIndex(neighbourX, neighbourY));
+                    }
+                }
+            }
+        }
+
+        this.amoebaSize = size;
+        this.amoebaFrontier = frontier.size;
+        if (size === 0) {
+            return;
+        }
+
+        let result: TileType | null = null;
+        if (size >= this.amoebaMaxSize) {
+            result = TileType.BOULDER;
+        } else if (frontier.size === 0) {
+            result = TileType.DIAMOND;
+        }
+        if (result === null) {
+            return;
+        }
+
+        for (let y = 0; y < this.grid.getHeight(); y++) {
+            for (let x = 0; x < this.grid.getWidth(); x++) {
+                if (this.grid.getTile(x, y) === TileType.AMOEBA) {
+                    this.grid.setTile(x, y, result);
+                }
+            }
+        }
+        this.amoebaSize = 0;
+        this.amoebaFrontier = 0;
+        this.events.push(result === TileType.DIAMOND ? 'amoebaDiamonds' : 'amoebaBoulders');
+    }
+
+    /**
+     * Blows up the 3x3 area around an enemy. Fireflies leave empty space and butterflies
+     * leave diamonds; other enemies caught in the blast explode as well.
+     */
+    private explodeEnemy(x: number, y: number): void {
+        const tile = this.grid.getTile(x, y);
+        const result = tile === TileType.BUTTERFLY ? TileType.DIAMOND : TileType.EMPTY;
+        const chained: { x: number; y: number }[] = [];
+
+        this.enemyHeadings.delete(this.cellIndex(x, y));
+        this.grid.setTile(x, y, TileType.EXPLOSION);
+        this.blasts.set(this.cellIndex(x, y), { result, remaining: this.BLAST_DURATION });
+
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const cellX = x + dx;
+                const cellY = y + dy;
+                const cellTile = this.grid.getTile(cellX, cellY);
+                if (!this.grid.isInBounds(cellX, cellY) || !TILE_ATTRIBUTES[cellTile].explodable) {
+                    continue;
+                }
+
+                if (this.isEnemy(cellTile)) {
+                    chained.push({ x: cellX, y: cellY });
+                    continue;
+                }
+                if (cellX === this.playerX && cellY === this.playerY) {
+                    this.startExplosion();
+                }
+                this.grid.setTile(cellX, cellY, TileType.EXPLOSION);
+                this.falling.delete(this.cellIndex(cellX, cellY));
+                this.blasts.set(this.cellIndex(cellX, cellY), { result, remaining: this.BLAST_DURATION });
+            }
+        }
+
+        this.events.push('explosion');
+        chained.forEach(enemy => this.explodeEnemy(enemy.x, enemy.y));
+    }
+
+    // Counts down enemy explosions and replaces them with what they leave behind
+    private updateBlasts(): void {
+        this.blasts.forEach((blast, index) => {
+            blast.remaining--;
+            if (blast.remaining > 0) {
+                return;
+            }
+
+            const x = index % this.grid.getWidth();
+            const y = Math.floor(index / this.grid.getWidth());
+            if (this.grid.getTile(x, y) === TileType.EXPLOSION) {
+                this.grid.setTile(x, y, blast.result);
+            }
+            this.blasts.delete(index);
+        });
+    }
+
+    /**
+     * Lets an object that fell onto a magic wall through it, waking the wall up if needed.
+     * Boulders come out as diamonds and diamonds as boulders; an object with no room below
+     * the wall is lost. Returns false when the wall is dormant and the object stays put.
+     */
+    private passThroughMagicWall(x: number, y: number, tile: TileType, falling: Set<number>): boolean {
+        if (this.magicWallState === 'dormant') {
+            return false;
+        }
+        if (this.magicWallState === 'inactive') {
+            this.magicWallState = 'active';
+            this.magicWallTicksLeft = this.magicWallTicks;
+            this.events.push('magicWall');
+        }
+
+        this.grid.setTile(x, y, TileType.EMPTY);
+        if (this.grid.getTile(x, y + 2) === TileType.EMPTY && !this.isPlayerAt(x, y + 2)) {
+            this.grid.setTile(x, y + 2, tile === TileType.BOULDER ? TileType.DIAMOND : TileType.BOULDER);
+            falling.add(this.cellIndex(x, y + 2));
+        }
+        return true;
+    }
+
+    private updateMagicWall(): void {
+        if (this.magicWallState !== 'active') {
+            return;
+        }
+        this.magicWallTicksLeft--;
+        if (this.magicWallTicksLeft <= 0) {
+            this.magicWallState = 'dormant';
+            this.events.push('magicWallDormant');
+        }
+    }
+
+    private startExplosion(): void {
+        if (this.status === 'playing') {
+            this.status = 'dying';
+            this.isTimeWarning = false;
+            this.exploding = true;
+            this.explosionRadius = 0;
+            this.explosionFrame = 0;
+            this.explosionX = this.playerX;
+            this.explosionY = this.playerY;
+            this.events.push('explosion');
+        }
+    }
+
+    private updateExplosion(): void {
+        if (!this.exploding) return;
+
+        this.explosionFrame++;
+        this.explosionRadius = Math.floor(this.explosionFrame / 2);
+
+        if (this.explosionRadius >= this.EXPLOSION_MAX_RADIUS) {
+            this.exploding = false;
+            this.status = 'lost';
+            return;
+        }
+
+        // Clear explodable tiles in expanding radius
+        for (let y = -this.explosionRadius; y <= this.explosionRadius; y++) {
+            for (let x = -this.explosionRadius; x <= this.explosionRadius; x++) {
+                const distance = Math.sqrt(x * x + y * y);
+                if (distance <= this.explosionRadius) {
+                    const tileX = this.explosionX + x;
+                    const tileY = this.explosionY + y;
+                    if (this.grid.isInBounds(tileX, tileY) &&
+                        TILE_ATTRIBUTES[this.grid.getTile(tileX, tileY)].explodable) {
+                        this.grid.setTile(tileX, tileY, TileType.EMPTY);
+                        this.falling.delete(this.cellIndex(tileX, tileY));
+                    }
+                }
+            }
+        }
+    }
+
+    private updateTime(): void {
+        this.timeRemaining--;
+
+        // Check for time warning state
+        if (this.timeRemaining <= this.TIME_WARNING_THRESHOLD && !this.isTimeWarning) {
+            this.isTimeWarning = true;
+            this.events.push('timeWarning');
+        }
+
+        // Check if time has run out
+        if (this.timeRemaining <= 0) {
+            this.timeRemaining = 0;
+            this.status = 'lost';
+            this.isTimeWarning = false;
+            this.events.push('timeUp');
+        }
+    }
+
+    public getGrid(): Grid {
+        return this.grid;
+    }
+
+    // Objects and enemies that moved during the last tick
+    public getMoves(): TileMove[] {
+        return this.moves;
+    }
+
+    public getSettings(): CaveSettings {
+        return this.settings;
+    }
+
+    public getTick(): number {
+        return this.tick;
+    }
+
+    public getPlayerX(): number {
+        return this.playerX;
+    }
+
+    public getPlayerY(): number {
+        return this.playerY;
+    }
+
+    public isPlayerFacingLeft(): boolean {
+        return this.playerFacingLeft;
+    }
+
+    public getScore(): number {
+        return this.score;
+    }
+
+    public getDiamondsCollected(): number {
+        return this.diamondsCollected;
+    }
+
+    public getTimeRemaining(): number {
+        return this.timeRemaining;
+    }
+
+    public isTimeWarningActive(): boolean {
+        return this.isTimeWarning;
+    }
+
+    public getStatus(): CaveStatus {
+        return this.status;
+    }
+
+    // True once the player has died or run out of time, including while the explosion plays
+    public isGameOver(): boolean {
+        return this.status === 'dying' || this.status === 'lost';
+    }
+
+    public isGameWon(): boolean {
+        return this.status === 'won';
+    }
+
+    public isExploding(): boolean {
+        return this.exploding;
+    }
+
+    public getExplosionX(): number {
+        return this.explosionX;
+    }
+
+    public getExplosionY(): number {
+        return this.explosionY;
+    }
+
+    public getExplosionRadius(): number {
+        return this.explosionRadius;
+    }
+
+    public getExplosionProgress(): number {
+        return this.explosionFrame / (this.EXPLOSION_MAX_RADIUS * 2);
+    }
+
+    public isExitRevealed(): boolean {
+        return this.exitRevealed;
+    }
+
+    public getExitX(): number {
+        return this.exitX;
+    }
+
+    public getExitY(): number {
+        return this.exitY;
+    }
+
+    public getAmoebaSize(): number {
+        return this.amoebaSize;
+    }
+
+    public getAmoebaMaxSize(): number {
+        return this.amoebaMaxSize;
+    }
+
+    public getAmoebaFrontier(): number {
+        return this.amoebaFrontier;
+    }
+
+    public getMagicWallState(): MagicWallState {
+        return this.magicWallState;
+    }
+}
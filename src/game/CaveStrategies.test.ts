@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { CAVE_STRATEGIES, ENEMY_SAFE_DISTANCE, GENERATOR_NAMES } from './CaveStrategies';
+import { DIFFICULTY_PROFILES, getDifficultySettings } from './Difficulty';
+import { Random } from './Random';
+import { TileType } from './TileType';
+
+const WIDTH = 60;
+const HEIGHT = 40;
+
+describe('CaveStrategy', () => {
+    GENERATOR_NAMES.forEach(name => {
+        it(`${name} keeps enemies away from the start and places them by the profile`, () => {
+            const profile = DIFFICULTY_PROFILES.hard;
+            const settings = getDifficultySettings(profile, WIDTH, HEIGHT);
+            let enemies = 0;
+
+            for (let seed = 1; seed <= 10; seed++) {
+                const { grid, startX, startY } = CAVE_STRATEGIES[name].generate(WIDTH, HEIGHT, settings, profile, new Random(seed));
+                for (let y = 0; y < HEIGHT; y++) {
+                    for (let x = 0; x < WIDTH; x++) {
+                        const tile = grid.getTile(x, y);
+                        if (tile === TileType.FIREFLY || tile === TileType.BUTTERFLY) {
+                            enemies++;
+                            expect(Math.max(Math.abs(x - startX), Math.abs(y - startY))).toBeGreaterThanOrEqual(ENEMY_SAFE_DISTANCE);
+                        }
+                    }
+                }
+            }
+
+            // Hard asks for 2 enemies per 1000 cells, about 5 in each of these caves
+            expect(enemies).toBeGreaterThan(10);
+        });
+    });
+});
@@ -0,0 +1,375 @@
+import { Grid } from './Grid';
+import { TileType } from './TileType';
+import { Random } from './Random';
+import { CaveSettings } from './Cave';
+import { DifficultyProfile } from './Difficulty';
+
+/*
+ * Ways of generating a random cave. Each strategy lays out the terrain, diamonds and
+ * enemies inside a steel border and picks the player start; the CaveGenerator adds the
+ * settings and checks that the result can be won.
+ */
+
+export interface CaveLayout {
+    grid: Grid;
+    startX: number;
+    startY: number;
+}
+
+export type GeneratorName = 'scatter' | 'classic' | 'caverns' | 'rooms';
+
+export const GENERATOR_NAMES: GeneratorName[] = ['scatter', 'classic', 'caverns', 'rooms'];
+
+export function isGeneratorName(name: string): name is GeneratorName {
+    return (GENERATOR_NAMES as string[]).includes(name);
+}
+
+export const ENEMY_SAFE_DISTANCE = 8;  // Enemies start at least this many cells from the player
+const ENEMY_ROOM = 2;  // Cells cleared on each side of an enemy so it can move
+
+export abstract class CaveStrategy {
+    public abstract readonly label: string;
+
+    public abstract generate(
+        width: number, height: number, settings: CaveSettings, profile: DifficultyProfile, random: Random
+    ): CaveLayout;
+
+    // A grid filled with `fill` inside a steel border
+    protected createGrid(width: number, height: number, fill: TileType): Grid {
+        const grid = new Grid(width, height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const border = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+                grid.setTile(x, y, border ? TileType.STEEL_WALL : fill);
+            }
+        }
+        return grid;
+    }
+
+    // Random integer from min to max inclusive
+    protected randomInt(random: Random, min: number, max: number): number {
+        return min + Math.floor(random.next() * (max - min + 1));
+    }
+
+    protected isWall(tile: TileType): boolean {
+        return tile === TileType.STEEL_WALL || tile === TileType.BRICK_WALL;
+    }
+
+    // Dirt, boulder or empty space, in the proportions of the profile
+    protected randomFill(random: Random, profile: DifficultyProfile): TileType {
+        if (random.next() < profile.dirtDensity) {
+            return TileType.DIRT;
+        }
+        return random.next() < profile.boulderDensity ? TileType.BOULDER : TileType.EMPTY;
+    }
+
+    // Puts `count` tiles on random interior cells that `canPlace` accepts; gives up on crowded caves
+    protected placeRandomly(
+        grid: Grid, random: Random, tile: TileType, count: number, canPlace: (x: number, y: number) => boolean
+    ): void {
+        let placed = 0;
+        for (let attempt = 0; placed < count && attempt < count * 50; attempt++) {
+            const x = this.randomInt(random, 1, grid.getWidth() - 2);
+            const y = this.randomInt(random, 1, grid.getHeight() - 2);
+            if (canPlace(x, y)) {
+                grid.setTile(x, y, tile);
+                placed++;
+            }
+        }
+    }
+
+    protected placeDiamonds(grid: Grid, random: Random, settings: CaveSettings, profile: DifficultyProfile,
+        startX: number, startY: number): void {
+        const count = Math.ceil(settings.diamondsRequired * profile.diamondSurplus);
+        this.placeRandomly(grid, random, TileType.DIAMOND, count, (x, y) =>
+            !this.isWall(grid.getTile(x, y)) && grid.getTile(x, y) !== TileType.DIAMOND &&
+            (Math.abs(x - startX) > 1 || Math.abs(y - startY) > 1)
+        );
+    }
+
+    // Whether an enemy at x,y would be too close to the player start
+    protected isNearStart(x: number, y: number, startX: number, startY: number): boolean {
+        return Math.max(Math.abs(x - startX), Math.abs(y - startY)) < ENEMY_SAFE_DISTANCE;
+    }
+
+    // Alternating fireflies and butterflies away from the start, each with a little room to move
+    protected placeEnemies(grid: Grid, random: Random, profile: DifficultyProfile, startX: number, startY: number): void {
+        const count = Math.round(profile.enemies * grid.getWidth() * grid.getHeight() / 1000);
+        let placed = 0;
+        for (let attempt = 0; placed < count && attempt < count * 50; attempt++) {
+            const x = this.randomInt(random, 1, grid.getWidth() - 2);
+            const y = this.randomInt(random, 1, grid.getHeight() - 2);
+            if (this.isWall(grid.getTile(x, y)) || this.isNearStart(x, y, startX, startY)) {
+                continue;
+            }
+
+            grid.setTile(x, y, placed % 2 === 0 ? TileType.FIREFLY : TileType.BUTTERFLY);
+            for (const side of [-1, 1]) {
+                for (let step = 1; step <= ENEMY_ROOM && !this.isWall(grid.getTile(x + side * step, y)); step++) {
+                    grid.setTile(x + side * step, y, TileType.EMPTY);
+                }
+            }
+            placed++;
+        }
+    }
+
+    // Clears the player start and the cells around it
+    protected clearStart(grid: Grid, startX: number, startY: number): void {
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                if (grid.getTile(startX + dx, startY + dy) !== TileType.STEEL_WALL) {
+                    grid.setTile(startX + dx, startY + dy, TileType.EMPTY);
+                }
+            }
+        }
+    }
+}
+
+// The original recipe: dirt and boulders everywhere with diamonds and enemies dropped at random
+class ScatterStrategy extends CaveStrategy {
+    public readonly label = 'Scatter';
+
+    public generate(width: number, height: number, settings: CaveSettings, profile: DifficultyProfile, random: Random): CaveLayout {
+        const grid = this.createGrid(width, height, TileType.EMPTY);
+
+        // Pick a random starting position for the player; the area around it is cleared below
+        const startX = Math.floor(random.next() * (width - 4)) + 2;
+        const startY = Math.floor(random.next() * (height - 4)) + 2;
+
+        // Add some dirt and boulders, but avoid the player's starting area
+        for (let y = 1; y < height - 1; y++) {
+            for (let x = 1; x < width - 1; x++) {
+                if (Math.abs(x - startX) <= 1 && Math.abs(y - startY) <= 1) {
+                    continue;
+                }
+                grid.setTile(x, y, this.randomFill(random, profile));
+            }
+        }
+
+        // Add diamonds
+        for (let i = 0; i < settings.diamondsRequired * profile.diamondSurplus; i++) {
+            let x, y;
+            do {
+                x = Math.floor(random.next() * (width - 2)) + 1;
+                y = Math.floor(random.next() * (height - 2)) + 1;
+            } while (Math.abs(x - startX) <= 1 && Math.abs(y - startY) <= 1);
+            grid.setTile(x, y, TileType.DIAMOND);
+        }
+
+        this.placeEnemies(grid, random, profile, startX, startY);
+        this.clearStart(grid, startX, startY);
+        return { grid, startX, startY };
+    }
+}
+
+/**
+ * Boulder Dash style: a cave of dirt with a few brick walls, then one random number per
+ * cell compared against a list of objects with their chances, the last match winning,
+ * just like the random objects of the original cave data.
+ */
+class ClassicStrategy extends CaveStrategy {
+    public readonly label = 'Classic';
+    private static readonly WALLS_PER_THOUSAND = 1.5;
+
+    public generate(width: number, height: number, settings: CaveSettings, profile: DifficultyProfile, random: Random): CaveLayout {
+        const grid = this.createGrid(width, height, TileType.DIRT);
+        const startX = this.randomInt(random, 2, width - 3);
+        const startY = this.randomInt(random, 2, height - 3);
+        const interior = (width - 2) * (height - 2);
+        const open = 1 - profile.dirtDensity;
+        const enemyChance = profile.enemies / 1000 / 2;
+        // Chances are cumulative: each object gets the rolls between its chance and the next one's
+        const objects: { tile: TileType; chance: number }[] = [
+            { tile: TileType.EMPTY, chance: open },
+            { tile: TileType.BOULDER, chance: open * profile.boulderDensity },
+            { tile: TileType.DIAMOND, chance: settings.diamondsRequired * profile.diamondSurplus / interior + enemyChance * 2 },
+            { tile: TileType.FIREFLY, chance: enemyChance * 2 },
+            { tile: TileType.BUTTERFLY, chance: enemyChance }
+        ];
+
+        for (let y = 1; y < height - 1; y++) {
+            for (let x = 1; x < width - 1; x++) {
+                const roll = random.next();
+                for (const object of objects) {
+                    if (roll < object.chance) {
+                        grid.setTile(x, y, object.tile);
+                    }
+                }
+                // Enemies rolled too close to the start are left as dirt
+                if (this.isEnemy(grid.getTile(x, y)) && this.isNearStart(x, y, startX, startY)) {
+                    grid.setTile(x, y, TileType.DIRT);
+                }
+            }
+        }
+
+        // Horizontal brick walls with a gap somewhere so they can be passed
+        const walls = Math.round(ClassicStrategy.WALLS_PER_THOUSAND * width * height / 1000);
+        for (let i = 0; i < walls; i++) {
+            const length = this.randomInt(random, 5, Math.min(20, width - 4));
+            const wallX = this.randomInt(random, 1, width - 1 - length);
+            const wallY = this.randomInt(random, 2, height - 3);
+            const gap = wallX + this.randomInt(random, 0, length - 1);
+            for (let x = wallX; x < wallX + length; x++) {
+                grid.setTile(x, wallY, x === gap ? TileType.DIRT : TileType.BRICK_WALL);
+            }
+        }
+
+        this.clearStart(grid, startX, startY);
+        return { grid, startX, startY };
+    }
+
+    private isEnemy(tile: TileType): boolean {
+        return tile === TileType.FIREFLY || tile === TileType.BUTTERFLY;
+    }
+}
+
+// Cellular automaton caverns: random rock smoothed into open caves, keeping only the largest one
+class CavernStrategy extends CaveStrategy {
+    public readonly label = 'Caverns';
+    private static readonly ROCK_CHANCE = 0.45;
+    private static readonly SMOOTHING_STEPS = 4;
+    private static readonly ROCK_NEIGHBOURS = 5;  // A cell becomes rock with this many rock cells in its 3x3 block
+
+    public generate(width: number, height: number, settings: CaveSettings, profile: DifficultyProfile, random: Random): CaveLayout {
+        let rock: boolean[][] = [];
+        for (let y = 0; y < height; y++) {
+            rock.push([]);
+            for (let x = 0; x < width; x++) {
+                const border = x === 0 || y === 0 || x === width - 1 || y === height - 1;
+                rock[y].push(border || random.next() < CavernStrategy.ROCK_CHANCE);
+            }
+        }
+
+        for (let step = 0; step < CavernStrategy.SMOOTHING_STEPS; step++) {
+            rock = rock.map((row, y) => row.map((_, x) => {
+                let count = 0;
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        count += rock[y + dy]?.[x + dx] ?? true ? 1 : 0;
+                    }
+                }
+                return count >= CavernStrategy.ROCK_NEIGHBOURS;
+            }));
+        }
+
+        const cavern = this.findLargestCavern(rock);
+        const grid = this.createGrid(width, height, TileType.BRICK_WALL);
+        cavern.forEach(cell => {
+            grid.setTile(cell % width, Math.floor(cell / width), this.randomFill(random, profile));
+        });
+
+        // Start anywhere in the cavern; an empty one leaves the start in the rock for the validator to reject
+        const startCell = cavern.length > 0 ? cavern[Math.floor(random.next() * cavern.length)] : width + 1;
+        const startX = startCell % width;
+        const startY = Math.floor(startCell / width);
+        this.placeDiamonds(grid, random, settings, profile, startX, startY);
+        this.placeEnemies(grid, random, profile, startX, startY);
+        this.clearStart(grid, startX, startY);
+        return { grid, startX, startY };
+    }
+
+    // Cells of the largest connected open area, indexed as y * width + x
+    private findLargestCavern(rock: boolean[][]): number[] {
+        const height = rock.length;
+        const width = rock[0].length;
+        const seen: boolean[] = new Array(width * height).fill(false);
+        let largest: number[] = [];
+
+        for (let cell = 0; cell < width * height; cell++) {
+            if (seen[cell] || rock[Math.floor(cell / width)][cell % width]) {
+                continue;
+            }
+            const cavern: number[] = [];
+            const pending = [cell];
+            seen[cell] = true;
+            while (pending.length > 0) {
+                const current = pending.pop()!;
+                cavern.push(current);
+                for (const next of [current - width, current + 1, current + width, current - 1]) {
+                    if (!seen[next] && !rock[Math.floor(next / width)][next % width]) {
+                        seen[next] = true;
+                        pending.push(next);
+                    }
+                }
+            }
+            if (cavern.length > largest.length) {
+                largest = cavern;
+            }
+        }
+        return largest;
+    }
+}
+
+// Rooms of dirt and boulders cut into brick, joined in a chain by winding corridors
+class RoomsStrategy extends CaveStrategy {
+    public readonly label = 'Rooms';
+    private static readonly CELLS_PER_ROOM = 250;
+
+    public generate(width: number, height: number, settings: CaveSettings, profile: DifficultyProfile, random: Random): CaveLayout {
+        const grid = this.createGrid(width, height, TileType.BRICK_WALL);
+        const rooms: { x: number; y: number; width: number; height: number }[] = [];
+        const target = Math.max(2, Math.round(width * height / RoomsStrategy.CELLS_PER_ROOM));
+
+        for (let attempt = 0; rooms.length < target && attempt < target * 10; attempt++) {
+            const roomWidth = this.randomInt(random, 5, Math.min(12, width - 4));
+            const roomHeight = this.randomInt(random, 4, Math.min(8, height - 4));
+            const room = {
+                x: this.randomInt(random, 2, width - 2 - roomWidth),
+                y: this.randomInt(random, 2, height - 2 - roomHeight),
+                width: roomWidth,
+                height: roomHeight
+            };
+            // Keep a wall between rooms
+            const overlaps = rooms.some(other =>
+                room.x <= other.x + other.width && other.x <= room.x + room.width &&
+                room.y <= other.y + other.height && other.y <= room.y + room.height
+            );
+            if (!overlaps) {
+                rooms.push(room);
+            }
+        }
+
+        rooms.forEach(room => {
+            for (let y = room.y; y < room.y + room.height; y++) {
+                for (let x = room.x; x < room.x + room.width; x++) {
+                    grid.setTile(x, y, this.randomFill(random, profile));
+                }
+            }
+        });
+
+        // Each room is joined to the one before it, first across and then up or down
+        for (let i = 1; i < rooms.length; i++) {
+            const fromX = rooms[i - 1].x + Math.floor(rooms[i - 1].width / 2);
+            const fromY = rooms[i - 1].y + Math.floor(rooms[i - 1].height / 2);
+            const toX = rooms[i].x + Math.floor(rooms[i].width / 2);
+            const toY = rooms[i].y + Math.floor(rooms[i].height / 2);
+            for (let x = Math.min(fromX, toX); x <= Math.max(fromX, toX); x++) {
+                this.carveCorridor(grid, x, fromY);
+            }
+            for (let y = Math.min(fromY, toY); y <= Math.max(fromY, toY); y++) {
+                this.carveCorridor(grid, toX, y);
+            }
+        }
+
+        const first = rooms[0] ?? { x: 1, y: 1, width: 1, height: 1 };
+        const startX = first.x + Math.floor(first.width / 2);
+        const startY = first.y + Math.floor(first.height / 2);
+        this.placeDiamonds(grid, random, settings, profile, startX, startY);
+        this.placeEnemies(grid, random, profile, startX, startY);
+        this.clearStart(grid, startX, startY);
+        return { grid, startX, startY };
+    }
+
+    private carveCorridor(grid: Grid, x: number, y: number): void {
+        if (grid.getTile(x, y) === TileType.BRICK_WALL) {
+            grid.setTile(x, y, TileType.DIRT);
+        }
+    }
+}
+
+export const CAVE_STRATEGIES: Record<GeneratorName, CaveStrategy> = {
+    scatter: new ScatterStrategy(),
+    classic: new ClassicStrategy(),
+    caverns: new CavernStrategy(),
+    rooms: new RoomsStrategy()
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { CaveValidator } from './CaveValidator';
+import { parseTestCave } from './testCaves';
+
+describe('CaveValidator', () => {
+    it('passes a cave that can be won', () => {
+        const report = CaveValidator.validate(parseTestCave([
+            '########',
+            '#@.:*::#',
+            '#::::::#',
+            '#:::::X#',
+            '########'
+        ]));
+
+        expect(report.problems).toEqual([]);
+        expect(report.reachableDiamonds).toBe(1);
+        expect(report.exitReachable).toBe(true);
+    });
+
+    it('reports diamonds sealed in walls', () => {
+        const report = CaveValidator.validate(parseTestCave([
+            '########',
+            '#@.:##*#',
+            '#:::##:#',
+            '#:::::X#',
+            '########'
+        ]));
+
+        expect(report.unreachableDiamonds).toEqual([{ x: 6, y: 1 }]);
+        expect(report.problems).toHaveLength(1);
+    });
+
+    it('reports a fixed exit nobody can get to', () => {
+        const report = CaveValidator.validate(parseTestCave([
+            '########',
+            '#@.*#.X#',
+            '########'
+        ]));
+
+        expect(report.exitReachable).toBe(false);
+        expect(report.problems).toContain('The exit can\'t be reached');
+    });
+
+    it('reports caves too small for a random exit', () => {
+        const report = CaveValidator.validate(parseTestCave([
+            '#####',
+            '#@*.#',
+            '#####'
+        ]));
+
+        expect(report.exitReachable).toBe(false);
+        expect(report.problems).toContain('The cave is too small or crowded for a random exit: place one with X');
+    });
+
+    it('keeps random exits off diamonds, boulders and enemies', () => {
+        const report = CaveValidator.validate(parseTestCave([
+            '#########',
+            '#@:::::.#',
+            '#:*****:#',
+            '#:*FB**:#',
+            '#:*OA**:#',
+            '#:*****:#',
+            '#:::::::#',
+            '#########'
+        ]));
+
+        expect(report.problems).toContain('The cave is too small or crowded for a random exit: place one with X');
+    });
+
+    it('reports random exit spots the player can\'t get to', () => {
+        const report = CaveValidator.validate(parseTestCave([
+            '##########',
+            '#@*#.....#',
+            '#..#.....#',
+            '#..#.....#',
+            '####.....#',
+            '####.....#',
+            '##########'
+        ]));
+
+        expect(report.problems).toContain('There is nowhere reachable for the exit to appear');
+    });
+
+    it('reports a boulder about to fall on the start', () => {
+        const report = CaveValidator.validate(parseTestCave([
+            '#######',
+            '#.O...#',
+            '#.....#',
+            '#.@*..#',
+            '#....X#',
+            '#######'
+        ]));
+
+        expect(report.hazards).toEqual([{ x: 2, y: 1, description: 'A boulder falls on the player at the start' }]);
+    });
+});
@@ -0,0 +1,237 @@
+import { Grid } from './Grid';
+import { TileType } from './TileType';
+import { TILE_ATTRIBUTES } from './TileAttributes';
+import { Cave } from './Cave';
+
+/*
+ * Static checks for caves that can't be won or kill the player before they can move.
+ * The analysis is optimistic: it walks the cave as if dirt can always be dug and loose
+ * boulders can always be moved out of the way, so it only reports caves that are clearly
+ * broken (diamonds sealed in walls or boulder piles, an exit nobody can get to, a boulder
+ * already dropping on the start).
+ */
+
+export interface CaveHazard {
+    x: number;
+    y: number;
+    description: string;
+}
+
+export interface CaveReport {
+    totalDiamonds: number;
+    reachableDiamonds: number;
+    unreachableDiamonds: { x: number; y: number }[];
+    exitReachable: boolean;
+    hazards: CaveHazard[];  // Things that kill the player at the start
+    problems: string[];  // Reasons the cave can't be won; empty for a good cave
+    warnings: string[];  // Things that may be intended but are worth a look
+}
+
+// Tiles the player can walk, dig or collect through, or that move out of the way by themselves
+const OPEN_TILES = new Set<TileType>([
+    TileType.EMPTY,
+    TileType.DIRT,
+    TileType.DIAMOND,
+    TileType.EXIT,
+    TileType.PLAYER,
+    TileType.FIREFLY,
+    TileType.BUTTERFLY,
+    TileType.EXPLOSION
+]);
+
+// Tiles a random exit may take the place of, so it never swallows a diamond, boulder or enemy
+const EXIT_TILES = new Set<TileType>([
+    TileType.EMPTY,
+    TileType.DIRT,
+    TileType.BRICK_WALL,
+    TileType.STEEL_WALL
+]);
+
+const NEIGHBOURS = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+
+export class CaveValidator {
+    public static readonly EXIT_MARGIN = 2;  // Random exits stay this far from the border and the player
+
+    public static validate(cave: Cave): CaveReport {
+        const { grid, startX, startY, settings } = cave;
+        const reachable = CaveValidator.findReachable(grid, startX, startY);
+        const report: CaveReport = {
+            totalDiamonds: 0,
+            reachableDiamonds: 0,
+            unreachableDiamonds: [],
+            exitReachable: false,
+            hazards: CaveValidator.findSpawnHazards(grid, startX, startY),
+            problems: [],
+            warnings: []
+        };
+
+        if (!grid.isInBounds(startX, startY) || !OPEN_TILES.has(grid.getTile(startX, startY))) {
+            report.problems.push('The player starts inside a wall');
+            return report;
+        }
+
+        let reachableButterflies = 0;
+        let hasAmoeba = false;
+        let hasMagicWall = false;
+        for (let y = 0; y < grid.getHeight(); y++) {
+            for (let x = 0; x < grid.getWidth(); x++) {
+                const tile = grid.getTile(x, y);
+                if (tile === TileType.DIAMOND) {
+                    report.totalDiamonds++;
+                    if (reachable[y * grid.getWidth() + x]) {
+                        report.reachableDiamonds++;
+                    } else {
+                        report.unreachableDiamonds.push({ x, y });
+                    }
+                } else if (tile === TileType.BUTTERFLY && reachable[y * grid.getWidth() + x]) {
+                    reachableButterflies++;
+                } else if (tile === TileType.AMOEBA) {
+                    hasAmoeba = true;
+                } else if (tile === TileType.MAGIC_WALL) {
+                    hasMagicWall = true;
+                }
+            }
+        }
+
+        // Butterflies, the amoeba and magic walls can all make more diamonds, so a shortfall is only a warning then
+        const shortfall = settings.diamondsRequired - report.reachableDiamonds;
+        if (shortfall > 0) {
+            const message = report.reachableDiamonds === report.totalDiamonds
+                ? `The cave has ${report.totalDiamonds} diamonds but needs ${settings.diamondsRequired}`
+                : `Only ${report.reachableDiamonds} of the ${settings.diamondsRequired} diamonds needed can be reached`;
+            if (reachableButterflies > 0 || hasAmoeba || hasMagicWall) {
+                report.warnings.push(`${message}; the rest must come from butterflies, the amoeba or a magic wall`);
+            } else {
+                report.problems.push(message);
+            }
+        }
+
+        if (cave.exitX >= 0 && cave.exitY >= 0) {
+            report.exitReachable = CaveValidator.isFixedExitReachable(grid, reachable, cave.exitX, cave.exitY);
+            if (!report.exitReachable) {
+                report.problems.push('The exit can\'t be reached');
+            }
+        } else {
+            const spots = CaveValidator.findRandomExitSpots(grid, startX, startY);
+            report.exitReachable = spots.some(cell => reachable[cell]);
+            if (spots.length === 0) {
+                report.problems.push('The cave is too small or crowded for a random exit: place one with X');
+            } else if (!report.exitReachable) {
+                report.problems.push('There is nowhere reachable for the exit to appear');
+            }
+        }
+
+        report.hazards.forEach(hazard => report.problems.push(hazard.description));
+        return report;
+    }
+
+    /**
+     * Cells the player can get to from x,y, indexed as y * width + x. Loose boulders count as
+     * passable: ones that can fall once the ground below is dug, or that have room to be pushed.
+     */
+    public static findReachable(grid: Grid, startX: number, startY: number): boolean[] {
+        const width = grid.getWidth();
+        const reachable: boolean[] = new Array(width * grid.getHeight()).fill(false);
+        if (!grid.isInBounds(startX, startY)) {
+            return reachable;
+        }
+
+        const pending: number[] = [startY * width + startX];
+        reachable[pending[0]] = true;
+        while (pending.length > 0) {
+            const cell = pending.pop()!;
+            const x = cell % width;
+            const y = Math.floor(cell / width);
+            for (const [dx, dy] of NEIGHBOURS) {
+                const nextX = x + dx;
+                const nextY = y + dy;
+                const next = nextY * width + nextX;
+                if (grid.isInBounds(nextX, nextY) && !reachable[next] && CaveValidator.isPassable(grid, nextX, nextY)) {
+                    reachable[next] = true;
+                    pending.push(next);
+                }
+            }
+        }
+        return reachable;
+    }
+
+    private static isPassable(grid: Grid, x: number, y: number): boolean {
+        const tile = grid.getTile(x, y);
+        if (OPEN_TILES.has(tile)) {
+            return true;
+        }
+        if (tile !== TileType.BOULDER) {
+            return false;
+        }
+        const isClear = (neighbour: TileType) =>
+            neighbour === TileType.EMPTY || TILE_ATTRIBUTES[neighbour].diggable || TILE_ATTRIBUTES[neighbour].consumable;
+        return isClear(grid.getTile(x, y + 1)) || isClear(grid.getTile(x - 1, y)) || isClear(grid.getTile(x + 1, y));
+    }
+
+    // Fixed exits are hidden behind a wall, so the player has to get next to them
+    private static isFixedExitReachable(grid: Grid, reachable: boolean[], exitX: number, exitY: number): boolean {
+        return NEIGHBOURS.some(([dx, dy]) =>
+            grid.isInBounds(exitX + dx, exitY + dy) && reachable[(exitY + dy) * grid.getWidth() + exitX + dx]
+        );
+    }
+
+    public static isRandomExitTile(tile: TileType): boolean {
+        return EXIT_TILES.has(tile);
+    }
+
+    // Random exits replace dirt, space or wall away from the border and the player, and never under a boulder
+    public static isRandomExitSpot(grid: Grid, x: number, y: number, playerX: number, playerY: number): boolean {
+        const margin = CaveValidator.EXIT_MARGIN;
+        return x >= margin && x < grid.getWidth() - margin && y >= margin && y < grid.getHeight() - margin &&
+            (Math.abs(x - playerX) > margin || Math.abs(y - playerY) > margin) &&
+            CaveValidator.isRandomExitTile(grid.getTile(x, y)) && grid.getTile(x, y - 1) !== TileType.BOULDER;
+    }
+
+    // Cells where a random exit may appear, indexed as y * width + x
+    private static findRandomExitSpots(grid: Grid, startX: number, startY: number): number[] {
+        const spots: number[] = [];
+        for (let y = 0; y < grid.getHeight(); y++) {
+            for (let x = 0; x < grid.getWidth(); x++) {
+                if (CaveValidator.isRandomExitSpot(grid, x, y, startX, startY)) {
+                    spots.push(y * grid.getWidth() + x);
+                }
+            }
+        }
+        return spots;
+    }
+
+    /**
+     * Boulders and diamonds that will fall or roll onto the start position through empty space,
+     * and enemies next to it. Objects resting directly on the player are harmless until it moves.
+     */
+    private static findSpawnHazards(grid: Grid, startX: number, startY: number): CaveHazard[] {
+        const hazards: CaveHazard[] = [];
+        const name = (tile: TileType) => tile === TileType.BOULDER ? 'boulder' : 'diamond';
+
+        // Walk up the empty column above the player; an object at its top falls all the way down
+        for (let y = startY - 1; y >= 0 && grid.getTile(startX, y) === TileType.EMPTY; y--) {
+            const above = grid.getTile(startX, y - 1);
+            if (TILE_ATTRIBUTES[above].falls) {
+                hazards.push({ x: startX, y: y - 1, description: `A ${name(above)} falls on the player at the start` });
+            }
+
+            // Objects next to the column roll into it off rounded tiles
+            for (const side of [-1, 1]) {
+                const tile = grid.getTile(startX + side, y - 1);
+                if (TILE_ATTRIBUTES[tile].falls && TILE_ATTRIBUTES[grid.getTile(startX + side, y)].rounded &&
+                    above === TileType.EMPTY) {
+                    hazards.push({ x: startX + side, y: y - 1, description: `A ${name(tile)} rolls onto the player at the start` });
+                }
+            }
+        }
+
+        for (const [dx, dy] of NEIGHBOURS) {
+            const tile = grid.getTile(startX + dx, startY + dy);
+            if (tile === TileType.FIREFLY || tile === TileType.BUTTERFLY) {
+                const enemy = tile === TileType.FIREFLY ? 'firefly' : 'butterfly';
+                hazards.push({ x: startX + dx, y: startY + dy, description: `A ${enemy} starts next to the player` });
+            }
+        }
+        return hazards;
+    }
+}
@@ -0,0 +1,241 @@
+import { Direction } from './CaveSimulation';
+
+/*
+ * Maps keyboard keys and gamepad inputs to game actions. Keys are identified by
+ * KeyboardEvent.code so bindings don't depend on the keyboard layout. Gamepad inputs
+ * use the standard mapping and are written as "button:N" for buttons and "axis:N-" or
+ * "axis:N+" for a stick pushed along an axis.
+ */
+
+export type Action = Direction | 'snap' | 'pause' | 'restart' | 'mute' | 'map' | 'overview'
+    | 'newCave' | 'caveSelect' | 'editor' | 'download' | 'openReplay' | 'controls' | 'frameStats';
+
+export const ACTIONS: Action[] = [
+    'up', 'down', 'left', 'right', 'snap', 'pause', 'restart', 'mute', 'map', 'overview',
+    'newCave', 'caveSelect', 'editor', 'download', 'openReplay', 'controls', 'frameStats'
+];
+
+export const ACTION_LABELS: Record<Action, string> = {
+    up: 'Move up',
+    down: 'Move down',
+    left: 'Move left',
+    right: 'Move right',
+    snap: 'Snap (hold)',
+    pause: 'Pause',
+    restart: 'Restart cave',
+    mute: 'Mute sound',
+    map: 'Minimap',
+    overview: 'Cave overview (hold)',
+    newCave: 'New random cave',
+    caveSelect: 'Choose a cave',
+    editor: 'Cave editor',
+    download: 'Download replay',
+    openReplay: 'Watch a replay',
+    controls: 'Controls screen',
+    frameStats: 'Frame stats'
+};
+
+export interface ActionBindings {
+    keys: string[];
+    gamepad: string[];
+}
+
+export type Bindings = Record<Action, ActionBindings>;
+
+export const DEFAULT_BINDINGS: Bindings = {
+    up: { keys: ['ArrowUp'], gamepad: ['button:12', 'axis:1-'] },
+    down: { keys: ['ArrowDown'], gamepad: ['button:13', 'axis:1+'] },
+    left: { keys: ['ArrowLeft'], gamepad: ['button:14', 'axis:0-'] },
+    right: { keys: ['ArrowRight'], gamepad: ['button:15', 'axis:0+'] },
+    snap: { keys: ['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight'], gamepad: ['button:0'] },
+    pause: { keys: ['KeyP'], gamepad: ['button:9'] },
+    restart: { keys: ['KeyR'], gamepad: ['button:8'] },
+    mute: { keys: ['KeyM'], gamepad: [] },
+    map: { keys: ['Tab'], gamepad: ['button:3'] },
+    overview: { keys: ['KeyV'], gamepad: ['button:2'] },
+    newCave: { keys: ['KeyN'], gamepad: [] },
+    caveSelect: { keys: ['KeyC'], gamepad: [] },
+    editor: { keys: ['KeyE'], gamepad: [] },
+    download: { keys: ['KeyD'], gamepad: [] },
+    openReplay: { keys: ['KeyO'], gamepad: [] },
+    controls: { keys: ['KeyK'], gamepad: [] },
+    frameStats: { keys: ['KeyF'], gamepad: [] }
+};
+
+// Keys with fixed meanings outside the remappable actions
+const RESERVED_KEYS: { [code: string]: string } = {
+    Escape: 'closing menus',
+    Enter: 'menus'
+};
+
+const GAMEPAD_BUTTON_NAMES: { [button: number]: string } = {
+    0: 'A', 1: 'B', 2: 'X', 3: 'Y', 4: 'LB', 5: 'RB', 6: 'LT', 7: 'RT', 8: 'Back', 9: 'Start',
+    10: 'Left stick', 11: 'Right stick', 12: 'D-pad up', 13: 'D-pad down', 14: 'D-pad left', 15: 'D-pad right'
+};
+
+export class Controls {
+    private static readonly STORAGE_KEY = 'boulderdash.controls';
+    private static readonly STICK_THRESHOLD = 0.5;  // How far a stick must be pushed to count
+    private bindings: Bindings;
+    private heldKeys: Set<string> = new Set();
+    private heldGamepadInputs: Set<string> = new Set();  // Gamepad inputs active at the last poll
+
+    constructor() {
+        this.bindings = this.load();
+    }
+
+    public getBindings(action: Action): ActionBindings {
+        return this.bindings[action];
+    }
+
+    public getActionForKey(code: string): Action | null {
+        return ACTIONS.find(action => this.bindings[action].keys.includes(code)) ?? null;
+    }
+
+    public getActionForGamepadInput(input: string): Action | null {
+        return ACTIONS.find(action => this.bindings[action].gamepad.includes(input)) ?? null;
+    }
+
+    public keyDown(code: string): void {
+        this.heldKeys.add(code);
+    }
+
+    public keyUp(code: string): void {
+        this.heldKeys.delete(code);
+    }
+
+    // Forgets held keys, e.g. when the window loses focus and key releases can't be seen
+    public releaseKeys(): void {
+        this.heldKeys.clear();
+    }
+
+    public isHeld(action: Action): boolean {
+        const bindings = this.bindings[action];
+        return bindings.keys.some(code => this.heldKeys.has(code))
+            || bindings.gamepad.some(input => this.heldGamepadInputs.has(input));
+    }
+
+    // Reads all connected gamepads and returns the inputs that became active since the last poll
+    public pollGamepads(): string[] {
+        const active = new Set<string>();
+        const gamepads = typeof navigator.getGamepads === 'function' ? navigator.getGamepads() : [];
+        for (const gamepad of gamepads) {
+            if (!gamepad) {
+                continue;
+            }
+            gamepad.buttons.forEach((button, index) => {
+                if (button.pressed) {
+                    active.add(`button:${index}`);
+                }
+            });
+            gamepad.axes.forEach((value, index) => {
+                if (value <= -Controls.STICK_THRESHOLD) {
+                    active.add(`axis:${index}-`);
+                } else if (value >= Controls.STICK_THRESHOLD) {
+                    active.add(`axis:${index}+`);
+                }
+            });
+        }
+
+        const pressed = [...active].filter(input => !this.heldGamepadInputs.has(input));
+        this.heldGamepadInputs = active;
+        return pressed;
+    }
+
+    /**
+     * Makes `code` the only key for an action. Returns a message describing the conflict
+     * instead if the key is already taken by another action or a fixed key.
+     */
+    public bindKey(action: Action, code: string): string | null {
+        if (RESERVED_KEYS[code]) {
+            return `${Controls.describeKey(code)} is reserved for ${RESERVED_KEYS[code]}`;
+        }
+        const current = this.getActionForKey(code);
+        if (current !== null && current !== action) {
+            return `${Controls.describeKey(code)} is already used for ${ACTION_LABELS[current]}`;
+        }
+        this.bindings[action].keys = [code];
+        this.save();
+        return null;
+    }
+
+    // Gamepad counterpart of bindKey()
+    public bindGamepadInput(action: Action, input: string): string | null {
+        const current = this.getActionForGamepadInput(input);
+        if (current !== null && current !== action) {
+            return `${Controls.describeGamepadInput(input)} is already used for ${ACTION_LABELS[current]}`;
+        }
+        this.bindings[action].gamepad = [input];
+        this.save();
+        return null;
+    }
+
+    public resetToDefaults(): void {
+        this.bindings = Controls.copyBindings(DEFAULT_BINDINGS);
+        this.save();
+    }
+
+    // Short name of the first key bound to an action, for hints like "Press R to retry"
+    public describeAction(action: Action): string {
+        const code = this.bindings[action].keys[0];
+        return code === undefined ? '(unbound)' : Controls.describeKey(code);
+    }
+
+    public static describeKey(code: string): string {
+        if (code.startsWith('Key')) {
+            return code.slice(3);
+        }
+        if (code.startsWith('Digit')) {
+            return code.slice(5);
+        }
+        if (code.startsWith('Arrow')) {
+            return code.slice(5);
+        }
+        return code.replace(/(Left|Right)$/, ' $1').replace(/^Control/, 'Ctrl');
+    }
+
+    public static describeGamepadInput(input: string): string {
+        const [kind, detail] = input.split(':');
+        if (kind === 'button') {
+            return GAMEPAD_BUTTON_NAMES[Number(detail)] ?? `Button ${detail}`;
+        }
+        const axis = Number(detail.slice(0, -1));
+        const positive = detail.endsWith('+');
+        const stick = axis < 2 ? 'Left stick' : axis < 4 ? 'Right stick' : `Axis ${axis}`;
+        const direction = axis % 2 === 0 ? (positive ? 'right' : 'left') : (positive ? 'down' : 'up');
+        return `${stick} ${direction}`;
+    }
+
+    private static copyBindings(bindings: Bindings): Bindings {
+        const copy = {} as Bindings;
+        for (const action of ACTIONS) {
+            copy[action] = { keys: [...bindings[action].keys], gamepad: [...bindings[action].gamepad] };
+        }
+        return copy;
+    }
+
+    // Saved bindings are merged over the defaults so actions added later still get a binding
+    private load(): Bindings {
+        const bindings = Controls.copyBindings(DEFAULT_BINDINGS);
+        try {
+            const saved = JSON.parse(localStorage.getItem(Controls.STORAGE_KEY) ?? '{}') as Partial<Bindings>;
+            for (const action of ACTIONS) {
+                const entry = saved[action];
+                if (entry && Array.isArray(entry.keys) && Array.isArray(entry.gamepad)) {
+                    bindings[action] = { keys: entry.keys.map(String), gamepad: entry.gamepad.map(String) };
+                }
+            }
+        } catch (error) {
+            console.error('Error loading controls:', error);
+        }
+        return bindings;
+    }
+
+    private save(): void {
+        try {
+            localStorage.setItem(Controls.STORAGE_KEY, JSON.stringify(this.bindings));
+        } catch (error) {
+            console.error('Error saving controls:', error);
+        }
+    }
+}
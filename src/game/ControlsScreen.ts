@@ -0,0 +1,173 @@
+import { ACTIONS, ACTION_LABELS, Action, Controls } from './Controls';
+
+/*
+ * Screen listing every action with its keys and gamepad inputs, where any of them can be
+ * rebound. Picking an action waits for the next key or gamepad input and binds it. Without
+ * a keyboard, the gamepad or touch screen can still choose, bind gamepad inputs and close it.
+ */
+export class ControlsScreen {
+    private readonly controls: Controls;
+    private readonly top: number;  // Top of the area the screen covers, below the score area
+    private open: boolean = false;
+    private index: number = 0;  // Selected action
+    private listening: 'keys' | 'gamepad' | null = null;  // Waiting for the input to bind
+    private message: string = '';
+
+    constructor(controls: Controls, top: number) {
+        this.controls = controls;
+        this.top = top;
+    }
+
+    public isOpen(): boolean {
+        return this.open;
+    }
+
+    public show(): void {
+        this.open = true;
+        this.listening = null;
+        this.message = '';
+    }
+
+    public handleKey(event: KeyboardEvent): void {
+        event.preventDefault();
+        const action = ACTIONS[this.index];
+
+        // While waiting for a binding the next key is taken as is; Escape cancels
+        if (this.listening !== null) {
+            if (event.code === 'Escape') {
+                this.message = '';
+            } else if (this.listening === 'keys') {
+                this.message = this.controls.bindKey(action, event.code) ?? '';
+            } else {
+                return;
+            }
+            this.listening = null;
+            return;
+        }
+
+        switch (event.code) {
+            case 'ArrowUp':
+                this.handleAction('up');
+                break;
+            case 'ArrowDown':
+                this.handleAction('down');
+                break;
+            case 'Enter':
+                this.listening = 'keys';
+                this.message = `Press a key for ${ACTION_LABELS[action]} (Esc to cancel)`;
+                break;
+            case 'KeyG':
+                this.handleAction('snap');
+                break;
+            case 'Backspace':
+                this.controls.resetToDefaults();
+                this.message = 'Controls reset to the defaults';
+                break;
+            case 'Escape':
+                this.open = false;
+                break;
+            default:
+                if (this.controls.getActionForKey(event.code) === 'controls') {
+                    this.open = false;
+                }
+        }
+    }
+
+    /**
+     * Gamepad and touch presses: up and down choose an action, snap waits for a gamepad input
+     * to bind to it and pause closes the screen. While waiting for a binding, pause cancels.
+     */
+    public handleAction(action: Action): void {
+        if (this.listening !== null) {
+            if (action === 'pause') {
+                this.listening = null;
+                this.message = '';
+            }
+            return;
+        }
+
+        switch (action) {
+            case 'up':
+                this.index = (this.index + ACTIONS.length - 1) % ACTIONS.length;
+                this.message = '';
+                break;
+            case 'down':
+                this.index = (this.index + 1) % ACTIONS.length;
+                this.message = '';
+                break;
+            case 'snap':
+                this.listening = 'gamepad';
+                this.message = `Press a gamepad button or push a stick for ${ACTION_LABELS[ACTIONS[this.index]]} (Esc to cancel)`;
+                break;
+            case 'pause':
+            case 'controls':
+                this.open = false;
+                break;
+        }
+    }
+
+    // Takes the gamepad input while waiting for one to bind; returns false for presses to handle as actions
+    public handleGamepadInput(input: string): boolean {
+        if (this.listening !== 'gamepad') {
+            return false;
+        }
+        this.message = this.controls.bindGamepadInput(ACTIONS[this.index], input) ?? '';
+        this.listening = null;
+        return true;
+    }
+
+    public render(ctx: CanvasRenderingContext2D): void {
+        const { width, height } = ctx.canvas;
+        const centerX = width / 2;
+        // Rows shrink to fit every action on short screens
+        const rowHeight = Math.max(28, Math.min(44, Math.floor((height - this.top - 280) / ACTIONS.length)));
+        const labelX = centerX - 420;
+        const keysX = centerX - 140;
+        const gamepadX = centerX + 140;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.9)';
+        ctx.fillRect(0, this.top, width, height - this.top);
+
+        ctx.textAlign = 'center';
+        ctx.fillStyle = 'gold';
+        ctx.font = '40px Arial';
+        ctx.fillText('Controls', centerX, this.top + 80);
+        ctx.fillStyle = '#AAAAAA';
+        ctx.font = '20px Arial';
+        ctx.fillText(
+            'Up/Down to choose, Enter to set a key, G or snap to set a gamepad input, Backspace for defaults, Esc or pause to close',
+            centerX, this.top + 115
+        );
+
+        ctx.textAlign = 'left';
+        ctx.fillStyle = '#888888';
+        ctx.font = '18px Arial';
+        ctx.fillText('Keyboard', keysX, this.top + 165);
+        ctx.fillText('Gamepad', gamepadX, this.top + 165);
+
+        ctx.font = '24px Arial';
+        ACTIONS.forEach((action, i) => {
+            const y = this.top + 210 + i * rowHeight;
+            const selected = i === this.index;
+            const bindings = this.controls.getBindings(action);
+
+            if (selected) {
+                ctx.fillStyle = 'rgba(255, 215, 0, 0.2)';
+                ctx.fillRect(labelX - 20, y - rowHeight + 12, 880, rowHeight);
+            }
+            ctx.fillStyle = selected ? 'gold' : 'white';
+            ctx.fillText(ACTION_LABELS[action], labelX, y);
+            ctx.fillStyle = selected && this.listening === 'keys' ? '#FF6060' : '#CCCCCC';
+            ctx.fillText(bindings.keys.map(Controls.describeKey).join(', ') || '-', keysX, y);
+            ctx.fillStyle = selected && this.listening === 'gamepad' ? '#FF6060' : '#CCCCCC';
+            ctx.fillText(bindings.gamepad.map(Controls.describeGamepadInput).join(', ') || '-', gamepadX, y);
+        });
+
+        if (this.message) {
+            ctx.textAlign = 'center';
+            ctx.fillStyle = '#FFA040';
+            ctx.font = '22px Arial';
+            ctx.fillText(this.message, centerX, this.top + 240 + ACTIONS.length * rowHeight);
+        }
+    }
+}
@@ -0,0 +1,69 @@
+import { CaveSettings } from './Cave';
+
+/*
+ * Difficulty profiles for generated caves. Quantities are given per 1000 cells so a
+ * profile works for any cave size; the normal profile on the default 100x60 cave gives
+ * the original 25 diamonds in 300 seconds.
+ */
+
+export type DifficultyName = 'easy' | 'normal' | 'hard';
+
+export const DIFFICULTY_NAMES: DifficultyName[] = ['easy', 'normal', 'hard'];
+
+export interface DifficultyProfile {
+    label: string;
+    dirtDensity: number;  // Chance that an open cell is dirt rather than empty space
+    boulderDensity: number;  // Chance that a cell left empty by the dirt gets a boulder
+    diamondQuota: number;  // Diamonds required per 1000 cells
+    diamondSurplus: number;  // Diamonds placed per diamond required
+    timeLimit: number;  // Seconds per 1000 cells
+    enemies: number;  // Fireflies and butterflies per 1000 cells
+    diamondValue: number;
+}
+
+export const DIFFICULTY_PROFILES: Record<DifficultyName, DifficultyProfile> = {
+    easy: {
+        label: 'Easy',
+        dirtDensity: 0.75,
+        boulderDensity: 0.2,
+        diamondQuota: 2.5,
+        diamondSurplus: 2,
+        timeLimit: 70,
+        enemies: 0.5,
+        diamondValue: 50
+    },
+    normal: {
+        label: 'Normal',
+        dirtDensity: 0.7,
+        boulderDensity: 0.3,
+        diamondQuota: 4.2,
+        diamondSurplus: 1.5,
+        timeLimit: 50,
+        enemies: 1,
+        diamondValue: 100
+    },
+    hard: {
+        label: 'Hard',
+        dirtDensity: 0.6,
+        boulderDensity: 0.4,
+        diamondQuota: 6.5,
+        diamondSurplus: 1.2,
+        timeLimit: 35,
+        enemies: 2,
+        diamondValue: 150
+    }
+};
+
+export function isDifficultyName(name: string): name is DifficultyName {
+    return (DIFFICULTY_NAMES as string[]).includes(name);
+}
+
+// Cave settings for a profile at a given cave size
+export function getDifficultySettings(profile: DifficultyProfile, width: number, height: number): CaveSettings {
+    const thousands = width * height / 1000;
+    return {
+        diamondsRequired: Math.max(1, Math.round(profile.diamondQuota * thousands)),
+        timeLimit: Math.max(30, Math.round(profile.timeLimit * thousands)),
+        diamondValue: profile.diamondValue
+    };
+}
@@ -0,0 +1,577 @@
+import { Grid } from './Grid';
+import { TileType } from './TileType';
+import { Cave, AMOEBA_DEFAULTS, MAGIC_WALL_DEFAULT_TIME } from './Cave';
+import { CaveEditor, EDITOR_TOOLS } from './CaveEditor';
+import { CaveFile } from './CaveFile';
+import { CaveLibrary } from './CaveLibrary';
+import { CaveReport, CaveValidator } from './CaveValidator';
+
+// What the editor screen needs from the game around it
+export interface EditorScreenHost {
+    isActive(): boolean;  // Whether the editor is the mode being shown
+    getCamera(): { x: number; y: number };  // Tile at the top left corner of the game area
+    renderGameArea(grid: Grid, drawExtras: () => void): void;
+    renderTile(x: number, y: number, type: TileType): void;
+    leave(): void;
+    testPlay(): void;
+    toggleMute(): void;
+}
+
+/*
+ * The cave editor mode: a tool palette in the score area, painting with the mouse, keyboard
+ * commands for the cave's name, size, parameters and colours, saving and loading, and the
+ * cave check. The editing itself and its undo history live in CaveEditor.
+ */
+export class EditorScreen {
+    private static readonly PALETTE_SPACING = 56;  // Horizontal distance between tools in the palette
+    private static readonly MESSAGE_DURATION = 2500;
+    private readonly canvas: HTMLCanvasElement;
+    private readonly tileSize: number;
+    private readonly top: number;  // Top of the game area, below the palette
+    private readonly host: EditorScreenHost;
+    private editor: CaveEditor | null = null;  // Created the first time the editor is opened
+    private focusX: number = 0;  // Tile the camera is centered on
+    private focusY: number = 0;
+    private painting: boolean = false;
+    private paintTool: TileType = TileType.EMPTY;  // Tool used by the current mouse stroke
+    private hoverX: number = -1;  // Tile under the mouse pointer
+    private hoverY: number = -1;
+    private message: string = '';
+    private messageTime: number = 0;
+    private reportOpen: boolean = false;  // Showing the cave check, kept up to date while editing
+
+    constructor(canvas: HTMLCanvasElement, tileSize: number, top: number, host: EditorScreenHost) {
+        this.canvas = canvas;
+        this.tileSize = tileSize;
+        this.top = top;
+        this.host = host;
+
+        canvas.addEventListener('mousedown', this.handleMouseDown.bind(this));
+        canvas.addEventListener('mousemove', this.handleMouseMove.bind(this));
+        window.addEventListener('mouseup', this.handleMouseUp.bind(this));
+    }
+
+    // Opens the editor with the camera on the cave's start
+    public open(): void {
+        if (!this.editor) {
+            this.editor = new CaveEditor();
+        }
+        this.painting = false;
+
+        const cave = this.editor.getCave();
+        this.focusX = cave.startX;
+        this.focusY = cave.startY;
+    }
+
+    public getCave(): Cave {
+        return this.getEditor().getCave();
+    }
+
+    public getPlayableCave(): Cave {
+        return this.getEditor().getPlayableCave();
+    }
+
+    public getFocusX(): number {
+        return this.focusX;
+    }
+
+    public getFocusY(): number {
+        return this.focusY;
+    }
+
+    private getEditor(): CaveEditor {
+        if (!this.editor) {
+            throw new Error('The editor has not been opened');
+        }
+        return this.editor;
+    }
+
+    private leave(): void {
+        this.getEditor().endStroke();
+        this.painting = false;
+        this.host.leave();
+    }
+
+    private testPlay(): void {
+        this.getEditor().endStroke();
+        this.painting = false;
+        this.host.testPlay();
+    }
+
+    private showMessage(message: string): void {
+        this.message = message;
+        this.messageTime = performance.now();
+    }
+
+    public handleKey(event: KeyboardEvent): void {
+        const editor = this.getEditor();
+        const key = event.key.toLowerCase();
+
+        // Undo and redo
+        if (event.ctrlKey || event.metaKey) {
+            if (key === 'z' && !event.shiftKey) {
+                this.showMessage(editor.undo() ? 'Undo' : 'Nothing to undo');
+                event.preventDefault();
+            } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+                this.showMessage(editor.redo() ? 'Redo' : 'Nothing to redo');
+                event.preventDefault();
+            }
+            return;
+        }
+
+        // Number keys pick a tool from the palette, 0 being the tenth
+        const toolIndex = event.key === '0' ? 9 : Number(event.key) - 1;
+        if (Number.isInteger(toolIndex) && toolIndex >= 0 && toolIndex < EDITOR_TOOLS.length) {
+            editor.setTool(EDITOR_TOOLS[toolIndex]);
+            return;
+        }
+
+        // Brackets step through the whole palette
+        if (event.key === '[' || event.key === ']') {
+            const step = event.key === ']' ? 1 : EDITOR_TOOLS.length - 1;
+            editor.setTool(EDITOR_TOOLS[(EDITOR_TOOLS.indexOf(editor.getTool()) + step) % EDITOR_TOOLS.length]);
+            return;
+        }
+
+        const grid = editor.getCave().grid;
+        switch (event.key) {
+            case 'ArrowLeft':
+                this.focusX = Math.max(0, this.focusX - 1);
+                return;
+            case 'ArrowRight':
+                this.focusX = Math.min(grid.getWidth() - 1, this.focusX + 1);
+                return;
+            case 'ArrowUp':
+                this.focusY = Math.max(0, this.focusY - 1);
+                return;
+            case 'ArrowDown':
+                this.focusY = Math.min(grid.getHeight() - 1, this.focusY + 1);
+                return;
+            case 'Escape':
+                this.leave();
+                return;
+        }
+
+        switch (key) {
+            case 'e':
+                this.leave();
+                break;
+            case 't':
+                this.testPlay();
+                break;
+            case 'm':
+                this.host.toggleMute();
+                break;
+            case 'p':
+                this.promptCaveSettings();
+                break;
+            case 'g':
+                this.promptCaveSize();
+                break;
+            case 'a':
+                this.promptAmoebaSettings();
+                break;
+            case 'w': {
+                const settings = editor.getCave().settings;
+                const answer = window.prompt(
+                    'Magic wall time (seconds)', String(settings.magicWallTime ?? MAGIC_WALL_DEFAULT_TIME)
+                );
+                if (answer !== null) {
+                    if (/^\s*\d+\s*$/.test(answer)) {
+                        editor.setSettings({ ...settings, magicWallTime: Number(answer) });
+                    } else {
+                        this.showMessage('Enter a whole number of seconds');
+                    }
+                }
+                break;
+            }
+            case 'n': {
+                const name = window.prompt('Cave name', editor.getCave().name ?? '');
+                if (name !== null && name.trim() !== '') {
+                    editor.setName(name.trim());
+                }
+                break;
+            }
+            case 'b':
+                editor.setIntermission(!editor.getCave().intermission);
+                this.showMessage(editor.getCave().intermission ? 'Bonus cave' : 'Regular cave');
+                break;
+            case 's': {
+                const name = window.prompt('Save cave as', editor.getCave().name ?? '');
+                if (name !== null && name.trim() !== '') {
+                    editor.saveToStorage(name.trim());
+                    this.showMessage(`Saved "${name.trim()}"`);
+                }
+                break;
+            }
+            case 'l':
+                this.promptLoadCave();
+                break;
+            case 'x':
+                this.exportCave();
+                break;
+            case 'i':
+                this.importCave();
+                break;
+            case 'v':
+                this.reportOpen = !this.reportOpen;
+                break;
+            case 'c':
+                this.promptCavePalette();
+                break;
+        }
+    }
+
+    private promptCavePalette(): void {
+        const editor = this.getEditor();
+        const palette = editor.getCave().palette;
+        const answer = window.prompt(
+            'Dirt, wall and highlight colours (blank for the theme\'s own colours)',
+            palette ? CaveFile.formatPalette(palette) : ''
+        );
+        if (answer === null) {
+            return;
+        }
+        if (answer.trim() === '') {
+            editor.setPalette(undefined);
+            return;
+        }
+
+        const newPalette = CaveFile.parsePalette(answer);
+        if (!newPalette) {
+            this.showMessage('Enter three hex colours, e.g. "#8B4513 #8B3A3A #696969"');
+            return;
+        }
+        editor.setPalette(newPalette);
+    }
+
+    private promptCaveSettings(): void {
+        const editor = this.getEditor();
+        const settings = editor.getCave().settings;
+        const answer = window.prompt(
+            'Diamonds required, time limit (seconds) and diamond value',
+            `${settings.diamondsRequired} ${settings.timeLimit} ${settings.diamondValue}`
+        );
+        if (answer === null) {
+            return;
+        }
+
+        const match = /^\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)\s*$/.exec(answer);
+        if (!match || Number(match[2]) < 1) {
+            this.showMessage('Enter three whole numbers, e.g. "10 120 15"');
+            return;
+        }
+        editor.setSettings({
+            ...settings,
+            diamondsRequired: Number(match[1]),
+            timeLimit: Number(match[2]),
+            diamondValue: Number(match[3])
+        });
+    }
+
+    private promptAmoebaSettings(): void {
+        const editor = this.getEditor();
+        const settings = editor.getCave().settings;
+        const answer = window.prompt(
+            'Amoeba size limit, slow growth time (seconds) and slow/fast growth chance (%)',
+            [
+                settings.amoebaMaxSize ?? AMOEBA_DEFAULTS.maxSize,
+                settings.amoebaSlowTime ?? AMOEBA_DEFAULTS.slowTime,
+                settings.amoebaSlowGrowth ?? AMOEBA_DEFAULTS.slowGrowth,
+                settings.amoebaFastGrowth ?? AMOEBA_DEFAULTS.fastGrowth
+            ].join(' ')
+        );
+        if (answer === null) {
+            return;
+        }
+
+        const match = /^\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)[\s,]+(\d+)\s*$/.exec(answer);
+        if (!match || Number(match[1]) < 1 || Number(match[3]) > 100 || Number(match[4]) > 100) {
+            this.showMessage('Enter four whole numbers, e.g. "200 30 3 25"; chances are at most 100');
+            return;
+        }
+        editor.setSettings({
+            ...settings,
+            amoebaMaxSize: Number(match[1]),
+            amoebaSlowTime: Number(match[2]),
+            amoebaSlowGrowth: Number(match[3]),
+            amoebaFastGrowth: Number(match[4])
+        });
+    }
+
+    private promptCaveSize(): void {
+        const editor = this.getEditor();
+        const grid = editor.getCave().grid;
+        const answer = window.prompt('Cave size (width x height)', `${grid.getWidth()}x${grid.getHeight()}`);
+        if (answer === null) {
+            return;
+        }
+
+        const match = /^\s*(\d+)\s*[x, ]\s*(\d+)\s*$/i.exec(answer);
+        const width = match ? Number(match[1]) : 0;
+        const height = match ? Number(match[2]) : 0;
+        if (width < 3 || height < 3 || width > 200 || height > 200) {
+            this.showMessage('Size must be between 3x3 and 200x200');
+            return;
+        }
+        editor.resize(width, height);
+        this.focusX = Math.min(this.focusX, width - 1);
+        this.focusY = Math.min(this.focusY, height - 1);
+    }
+
+    private promptLoadCave(): void {
+        const editor = this.getEditor();
+        const saved = editor.getSavedCaveNames();
+        const bundled = CaveLibrary.getNames();
+        const name = window.prompt(
+            `Load which cave?\nSaved: ${saved.join(', ') || '(none)'}\nBuilt-in: ${bundled.join(', ')}`
+        );
+        if (name === null || name.trim() === '') {
+            return;
+        }
+
+        try {
+            if (editor.loadFromStorage(name.trim())) {
+                this.showMessage(`Loaded "${name.trim()}"`);
+            } else {
+                const { cave, warnings } = CaveLibrary.load(name.trim());
+                editor.loadCave(cave);
+                this.showMessage(warnings.length === 0
+                    ? `Loaded built-in cave "${name.trim()}"`
+                    : `Loaded built-in cave "${name.trim()}" with ${warnings.length} import warning(s): ${warnings[0]}`);
+            }
+        } catch (error) {
+            this.showMessage(error instanceof Error ? error.message : String(error));
+            return;
+        }
+
+        const cave = editor.getCave();
+        this.focusX = cave.startX;
+        this.focusY = cave.startY;
+    }
+
+    // Downloads the edited cave as a .cave file
+    private exportCave(): void {
+        const editor = this.getEditor();
+        const blob = new Blob([editor.toText()], { type: 'text/plain' });
+        const link = document.createElement('a');
+        const fileName = (editor.getCave().name ?? 'cave').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+        link.href = URL.createObjectURL(blob);
+        link.download = `${fileName}.cave`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    }
+
+    private importCave(): void {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.cave,text/plain';
+        input.addEventListener('change', () => {
+            const file = input.files?.[0];
+            if (!file) {
+                return;
+            }
+            file.text().then(text => {
+                this.getEditor().loadText(text);
+                this.showMessage(`Imported ${file.name}`);
+            }).catch(error => {
+                this.showMessage(error instanceof Error ? error.message : String(error));
+            });
+        });
+        input.click();
+    }
+
+    // Converts a mouse position to canvas coordinates, undoing the CSS scaling
+    private getCanvasPoint(event: MouseEvent): { x: number; y: number } {
+        const rect = this.canvas.getBoundingClientRect();
+        return {
+            x: (event.clientX - rect.left) * this.canvas.width / rect.width,
+            y: (event.clientY - rect.top) * this.canvas.height / rect.height
+        };
+    }
+
+    private updateHover(event: MouseEvent): void {
+        const point = this.getCanvasPoint(event);
+        if (point.y < this.top) {
+            this.hoverX = -1;
+            this.hoverY = -1;
+            return;
+        }
+        const camera = this.host.getCamera();
+        this.hoverX = Math.floor(point.x / this.tileSize + camera.x);
+        this.hoverY = Math.floor((point.y - this.top) / this.tileSize + camera.y);
+    }
+
+    private handleMouseDown(event: MouseEvent): void {
+        if (!this.host.isActive()) {
+            return;
+        }
+        const editor = this.getEditor();
+
+        // Clicking the palette picks a tool
+        const point = this.getCanvasPoint(event);
+        if (point.y < this.top) {
+            const toolIndex = Math.floor((point.x - 20) / EditorScreen.PALETTE_SPACING);
+            if (toolIndex >= 0 && toolIndex < EDITOR_TOOLS.length) {
+                editor.setTool(EDITOR_TOOLS[toolIndex]);
+            }
+            return;
+        }
+
+        // Left button paints with the current tool, right button clears to empty space
+        this.painting = true;
+        this.paintTool = event.button === 2 ? TileType.EMPTY : editor.getTool();
+        editor.beginStroke();
+        this.updateHover(event);
+        editor.paint(this.hoverX, this.hoverY, this.paintTool);
+    }
+
+    private handleMouseMove(event: MouseEvent): void {
+        if (!this.host.isActive()) {
+            return;
+        }
+        this.updateHover(event);
+        if (this.painting) {
+            this.getEditor().paint(this.hoverX, this.hoverY, this.paintTool);
+        }
+    }
+
+    private handleMouseUp(): void {
+        if (this.painting) {
+            this.painting = false;
+            this.getEditor().endStroke();
+        }
+    }
+
+    public render(ctx: CanvasRenderingContext2D): void {
+        const editor = this.getEditor();
+        const cave = editor.getCave();
+        const report = this.reportOpen ? CaveValidator.validate(cave) : null;
+        const tileSize = this.tileSize;
+
+        // Tool palette in the score area, drawn with the same tile renderer as the game
+        ctx.fillStyle = '#333';
+        ctx.fillRect(0, 0, this.canvas.width, this.top);
+        EDITOR_TOOLS.forEach((tool, index) => {
+            const x = 20 + index * EditorScreen.PALETTE_SPACING;
+            ctx.save();
+            ctx.translate(x, 1);
+            ctx.fillStyle = '#000';
+            ctx.fillRect(0, 0, tileSize, tileSize);
+            this.host.renderTile(0, 0, tool);
+            ctx.restore();
+
+            if (tool === editor.getTool()) {
+                ctx.strokeStyle = 'gold';
+                ctx.lineWidth = 3;
+                ctx.strokeRect(x - 2, 0, tileSize + 4, this.top - 1);
+            }
+            ctx.fillStyle = 'white';
+            ctx.font = '12px Arial';
+            ctx.textAlign = 'left';
+            ctx.fillText(`${index + 1}`, x + 2, 13);
+        });
+
+        // Cave name and parameters
+        const settings = cave.settings;
+        ctx.fillStyle = 'white';
+        ctx.font = '20px Arial';
+        ctx.textAlign = 'right';
+        ctx.fillText(
+            `${cave.name ?? 'Unnamed cave'}${cave.intermission ? ' (bonus)' : ''} · ` +
+            `${cave.grid.getWidth()}x${cave.grid.getHeight()} · 💎 ${settings.diamondsRequired} · ` +
+            `${settings.timeLimit}s · ${settings.diamondValue} pts`,
+            this.canvas.width - 20, this.top / 2 + 7
+        );
+
+        this.host.renderGameArea(cave.grid, () => {
+            // Exit and player start markers
+            if (cave.exitX >= 0 && cave.exitY >= 0) {
+                ctx.fillStyle = '#000';
+                ctx.fillRect(cave.exitX * tileSize, cave.exitY * tileSize, tileSize, tileSize);
+                this.host.renderTile(cave.exitX, cave.exitY, TileType.EXIT);
+            }
+            this.host.renderTile(cave.startX, cave.startY, TileType.PLAYER);
+
+            if (report) {
+                this.renderReportMarkers(ctx, report);
+            }
+
+            // Highlight the tile under the mouse pointer
+            if (cave.grid.isInBounds(this.hoverX, this.hoverY)) {
+                ctx.strokeStyle = 'rgba(255, 215, 0, 0.9)';
+                ctx.lineWidth = 2;
+                ctx.strokeRect(this.hoverX * tileSize + 1, this.hoverY * tileSize + 1, tileSize - 2, tileSize - 2);
+            }
+        });
+
+        // Help line and status messages at the bottom of the play area
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(0, this.canvas.height - 36, this.canvas.width, 36);
+        ctx.fillStyle = '#CCCCCC';
+        ctx.font = '16px Arial';
+        ctx.textAlign = 'left';
+        ctx.fillText(
+            '1-9, 0, [ ] tool · Left click paint · Right click erase · Arrows scroll · Ctrl+Z/Y undo/redo · T test play · ' +
+            'P parameters · A amoeba · W magic wall · G size · N name · C colours · B bonus · S/L save/load · X/I export/import · ' +
+            'V check cave · E exit editor',
+            12, this.canvas.height - 12
+        );
+
+        if (report) {
+            this.renderCaveReport(ctx, report);
+        }
+
+        if (this.message && performance.now() - this.messageTime < EditorScreen.MESSAGE_DURATION) {
+            ctx.fillStyle = 'gold';
+            ctx.font = '24px Arial';
+            ctx.textAlign = 'center';
+            ctx.fillText(this.message, this.canvas.width / 2, this.top + 40);
+        }
+    }
+
+    // Outlines the diamonds the player can't get to and the objects that endanger the start
+    private renderReportMarkers(ctx: CanvasRenderingContext2D, report: CaveReport): void {
+        const tileSize = this.tileSize;
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = 'orange';
+        report.unreachableDiamonds.forEach(({ x, y }) => {
+            ctx.strokeRect(x * tileSize + 1, y * tileSize + 1, tileSize - 2, tileSize - 2);
+        });
+        ctx.strokeStyle = 'red';
+        report.hazards.forEach(({ x, y }) => {
+            ctx.strokeRect(x * tileSize + 1, y * tileSize + 1, tileSize - 2, tileSize - 2);
+        });
+    }
+
+    private renderCaveReport(ctx: CanvasRenderingContext2D, report: CaveReport): void {
+        const settings = this.getEditor().getCave().settings;
+        const lines: { text: string; color: string }[] = [
+            {
+                text: `Diamonds reachable: ${report.reachableDiamonds} of ${report.totalDiamonds} (${settings.diamondsRequired} needed)`,
+                color: 'white'
+            },
+            { text: `Exit reachable: ${report.exitReachable ? 'yes' : 'no'}`, color: 'white' },
+            ...report.problems.map(problem => ({ text: `✖ ${problem}`, color: '#FF6B6B' })),
+            ...report.warnings.map(warning => ({ text: `⚠ ${warning}`, color: 'orange' }))
+        ];
+        if (report.problems.length === 0) {
+            lines.push({ text: '✔ The cave looks winnable', color: '#7CFC00' });
+        }
+
+        const lineHeight = 24;
+        const width = 620;
+        const x = this.canvas.width - width - 12;
+        const y = this.top + 12;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+        ctx.fillRect(x, y, width, lines.length * lineHeight + 44);
+        ctx.font = '18px Arial';
+        ctx.textAlign = 'left';
+        ctx.fillStyle = 'gold';
+        ctx.fillText('Cave check (V to hide)', x + 12, y + 26);
+        lines.forEach((line, index) => {
+            ctx.fillStyle = line.color;
+            ctx.fillText(line.text, x + 12, y + 52 + index * lineHeight);
+        });
+    }
+}
@@ -0,0 +1,61 @@
+/*
+ * Frame rate and drawing time overlay, used to compare dirty-region rendering of the tiles
+ * against redrawing every tile each frame. Cycling goes from hidden to shown with dirty
+ * rendering, to shown with full redraws and back to hidden.
+ */
+export class FrameStats {
+    private static readonly SAMPLES = 60;
+    private shown: boolean = false;
+    private dirtyRendering: boolean = true;  // Only redraw tiles that changed since the last frame
+    private frameTimes: number[] = [];  // Recent frame intervals and render times in ms
+    private renderTimes: number[] = [];
+
+    public isShown(): boolean {
+        return this.shown;
+    }
+
+    public isDirtyRendering(): boolean {
+        return this.dirtyRendering;
+    }
+
+    public cycle(): void {
+        if (!this.shown) {
+            this.shown = true;
+            this.dirtyRendering = true;
+        } else if (this.dirtyRendering) {
+            this.dirtyRendering = false;
+        } else {
+            this.shown = false;
+            this.dirtyRendering = true;
+        }
+        this.frameTimes = [];
+        this.renderTimes = [];
+    }
+
+    public record(frameTime: number, renderTime: number): void {
+        this.frameTimes.push(frameTime);
+        this.renderTimes.push(renderTime);
+        if (this.frameTimes.length > FrameStats.SAMPLES) {
+            this.frameTimes.shift();
+            this.renderTimes.shift();
+        }
+    }
+
+    // Averages over the last second or so, in the top left corner below `top`
+    public render(ctx: CanvasRenderingContext2D, top: number): void {
+        const average = (times: number[]) => times.reduce((sum, time) => sum + time, 0) / Math.max(1, times.length);
+        const frameTime = average(this.frameTimes);
+        const lines = [
+            `FPS: ${frameTime > 0 ? Math.round(1000 / frameTime) : '-'}`,
+            `Render: ${average(this.renderTimes).toFixed(2)} ms`,
+            this.dirtyRendering ? 'Tiles: changed only' : 'Tiles: full redraw'
+        ];
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(10, top + 10, 200, 24 * lines.length + 12);
+        ctx.fillStyle = '#7CFC00';
+        ctx.font = '16px monospace';
+        ctx.textAlign = 'left';
+        lines.forEach((line, i) => ctx.fillText(line, 20, top + 34 + i * 24));
+    }
+}
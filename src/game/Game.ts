@@ -1,63 +1,182 @@
 import { Grid } from './Grid';
 import { TileType } from './TileType';
 import { SoundManager } from './SoundManager';
+import { CaveGenerator, DEFAULT_GENERATOR_OPTIONS, GeneratorOptions } from './CaveGenerator';
+import { CAVE_STRATEGIES, GENERATOR_NAMES } from './CaveStrategies';
+import { DIFFICULTY_NAMES, DIFFICULTY_PROFILES } from './Difficulty';
+import { CaveSimulation, SimulationEvent, TickInput } from './CaveSimulation';
+import { Random } from './Random';
+import { Cave, CavePalette } from './Cave';
+import { Campaign } from './Campaign';
+import { CampaignProgress } from './CampaignProgress';
+import { CaveFile } from './CaveFile';
+import { Replay } from './Replay';
+import { Action, Controls } from './Controls';
+import { SaveGame } from './SaveGame';
+import { HighScores } from './HighScores';
+import { TileSprites } from './TileSprites';
+import { SpriteSheet } from './SpriteSheet';
+import { Minimap } from './Minimap';
+import { Menu, MenuItem } from './Menu';
+import { EditorScreen } from './EditorScreen';
+import { ReplayPlayer } from './ReplayPlayer';
+import { ControlsScreen } from './ControlsScreen';
+import { CaveSelectScreen } from './CaveSelectScreen';
+import { SaveSlotsScreen } from './SaveSlotsScreen';
+import { HighScoresScreen } from './HighScoresScreen';
+import { FrameStats } from './FrameStats';
+import { CaveResult, renderCaveResult } from './CaveResultOverlay';
+import { renderCaveIntro, renderScoreArea } from './Hud';
+import { MotionTracker } from './MotionTracker';
+import { CaveRenderer } from './CaveRenderer';
+import { InputRouter, InputScreen } from './InputRouter';
+import { Camera } from './Camera';
+
+export interface GameOptions {
+    seed?: number;
+    cave?: Cave | null;  // Hand-made cave to play instead of a random one
+    caveWarnings?: string[];  // Problems found importing that cave
+    campaign?: Campaign | null;  // Campaign to play instead of a single cave
+    generator?: GeneratorOptions;  // How random caves are generated
+}
+
+// 'edit' is the cave editor, 'test' plays the cave from the editor, 'replay' plays back a recorded run
+type GameMode = 'play' | 'edit' | 'test' | 'replay';
+
+// Flow of a cave outside the editor; only 'playing' and 'dying' advance the simulation
+type GameState = 'title' | 'caveIntro' | 'playing' | 'paused' | 'dying' | 'caveComplete' | 'gameOver';
 
 export class Game {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
     private soundManager: SoundManager;
+    private controls: Controls;
+    private input: InputRouter;  // Keyboard, gamepads and touch screen
+    private simulation: CaveSimulation;
+    private mode: GameMode = 'play';
+    private state: GameState = 'title';
+    private stateStartTime: number = 0;  // When the current state was entered
+    private readonly menu: Menu;  // Title screen and pause menu
+    private readonly menuInput: InputScreen = {
+        handleKey: event => this.handleMenuInput(event),
+        handleAction: action => this.handleMenuAction(action)
+    };
+    private readonly CAVE_INTRO_DURATION = 2000;  // How long the cave intro is shown unless skipped (ms)
+    private readonly editor: EditorScreen;
+    private seed: number;  // Seed of the current cave, so it can be replayed exactly
+    private generatorOptions: GeneratorOptions;  // Strategy and difficulty of random caves
+    private readonly fixedCave: Cave | null;  // Hand-made cave to play instead of a random one
+    private readonly fixedCaveWarnings: string[];  // Problems found importing it, shown on the cave intro
+    private readonly fixedCaveId: string | null;  // Fingerprint of its contents, for its saves and high scores
+    private readonly campaign: Campaign | null;  // Campaign being played, if any
+    private readonly campaignProgress: CampaignProgress | null;
+    private campaignCave: number = 0;  // Index of the current campaign cave
+    private carriedScore: number = 0;  // Score carried over from earlier caves and lives
+    private lives: number = 0;
+    private nextExtraLifeScore: number = 0;  // Total score that earns the next extra life
+    private extraLifeTime: number = 0;  // When the last extra life was awarded, for the HUD flash
+    private tallying: boolean = false;  // Counting the time left into the score after a completed cave
+    private lastTallyTime: number = 0;
+    private exitTimeLeft: number = 0;  // Time left when the exit was reached, before the tally counts it down
+    private readonly START_LIVES = 3;
+    private readonly MAX_LIVES = 9;
+    private readonly EXTRA_LIFE_SCORE = 500;  // An extra life every this many points
+    private readonly EXTRA_LIFE_FLASH_DURATION = 2000;
+    private readonly LIFE_LOST_DELAY = 2000;  // How long a lost life is shown before the cave restarts (ms)
+    private readonly TALLY_STEP = 40;  // Real time per second of time left counted into the score (ms)
+    private campaignComplete: boolean = false;
+    private readonly CAVE_ADVANCE_DELAY = 2500;  // How long the result is shown before moving on (ms)
+    private readonly caveSelect: CaveSelectScreen | null;  // Only for campaigns
+    private recording!: Replay;  // Inputs of the current run, set up with each new simulation
+    private readonly replayPlayer: ReplayPlayer;  // Plays back a recorded run in replay mode
     private lastTime: number = 0;
-    private lastPlayerMoveTime: number = 0;  // Add this new property to track player movement time
+    private tickAccumulator: number = 0;  // Real time not yet consumed by simulation ticks
+    private readonly MAX_FRAME_TIME = 1000;  // Cap on real time simulated per frame (e.g. after a hidden tab)
+    private readonly controlsScreen: ControlsScreen;
+    private readonly saveSlots: SaveSlotsScreen;
+    private readonly highScores: HighScoresScreen;
     private readonly TILE_SIZE = 48;  // Increased from 32 to 48 pixels
     private readonly GRID_WIDTH = 100;  // Much larger level width
     private readonly GRID_HEIGHT = 60;  // Much larger level height
     private readonly VIEWPORT_WIDTH = 32;  // How many tiles to show horizontally
     private readonly VIEWPORT_HEIGHT = 20;  // How many tiles to show vertically
     private readonly SCORE_AREA_HEIGHT = 50; // Height of the score display area
-    private readonly TIME_LIMIT = 300;  // Increased time limit for larger level
-    private timeRemaining: number;  // Current time remaining
-    private readonly TIME_WARNING_THRESHOLD = 60;  // Adjusted warning threshold
-    private isTimeWarning: boolean = false;  // Track if we're in warning state
-    private lastTimeUpdate: number = 0;  // Track last time update
-    private grid: Grid;
-    private playerX: number = 1;
-    private playerY: number = 1;
-    private playerAnimFrame: number = 0;  // Track animation frame
-    private playerFacingLeft: boolean = false;  // Track player direction
-    private readonly ANIM_FRAME_DURATION = 150;  // Duration of each animation frame in ms
-    private lastAnimUpdate: number = 0;  // Track last animation update
-    private readonly PHYSICS_UPDATE_INTERVAL = 225; // Physics update interval
-    private lastPhysicsUpdate: number = 0;
-    private gameOver: boolean = false;
-    private score: number = 0;
-    private diamondsCollected: number = 0;
-    private readonly DIAMONDS_REQUIRED = 25;  // Adjusted for new grid size
-    private readonly POINTS_PER_DIAMOND = 100;
-    private gameWon: boolean = false;
-    private explosionRadius: number = 0;
-    private explosionMaxRadius: number = 3;
-    private explosionFrame: number = 0;
-    private readonly EXPLOSION_DURATION = 50; // Duration of each explosion frame in ms
-    private lastExplosionUpdate: number = 0;
-    private explosionX: number = 0;
-    private explosionY: number = 0;
-    private exitX: number = -1;
-    private exitY: number = -1;
-    private exitRevealed: boolean = false;
-    private readonly EXIT_APPEAR_DELAY = 500; // Delay before exit appears (ms)
-    private exitAppearTime: number = 0;
-    private cameraX: number = 0;  // Camera position X
-    private cameraY: number = 0;  // Camera position Y
-    private targetCameraX: number = 0;  // Target camera position X
-    private targetCameraY: number = 0;  // Target camera position Y
-    private readonly CAMERA_LERP_SPEED = 5.0;  // How quickly the camera catches up to the target (units per second)
-    private readonly CAMERA_DEADZONE = 0.01;  // Stop camera movement when very close to target
-
-    constructor(canvas: HTMLCanvasElement) {
+    private readonly tileSprites = new TileSprites(this.TILE_SIZE);
+    private themeName: string | null = null;  // Sprite sheet theme, null for the built-in drawing
+    private themeLabel: string = 'Built-in';
+    private cavePalette: CavePalette | null = null;  // Colours of the cave being played
+    private readonly minimap = new Minimap();
+    private readonly frameStats = new FrameStats();
+    private readonly motions = new MotionTracker();  // Moves drawn sliding between cells
+    private readonly caveRenderer: CaveRenderer;
+    private readonly camera = new Camera(this.VIEWPORT_WIDTH, this.VIEWPORT_HEIGHT);
+
+    constructor(canvas: HTMLCanvasElement, options: GameOptions = {}) {
         this.canvas = canvas;
+        this.seed = options.seed ?? Random.randomSeed();
+        this.generatorOptions = options.generator ?? DEFAULT_GENERATOR_OPTIONS;
+        this.fixedCave = options.cave ?? null;
+        this.fixedCaveWarnings = options.caveWarnings ?? [];
+        this.fixedCaveId = this.fixedCave ? `cave:${CaveFile.fingerprint(this.fixedCave)}` : null;
+        this.campaign = options.campaign ?? null;
+        this.campaignProgress = this.campaign
+            ? new CampaignProgress(this.campaign.getId(), this.campaign.getCaveCount())
+            : null;
+        this.campaignCave = this.campaignProgress?.getCurrentCave() ?? 0;
         this.ctx = canvas.getContext('2d')!;
+        this.caveRenderer = new CaveRenderer(
+            this.ctx, this.TILE_SIZE, this.SCORE_AREA_HEIGHT, this.VIEWPORT_WIDTH, this.VIEWPORT_HEIGHT,
+            this.tileSprites, this.motions, {
+                getCamera: () => ({ x: this.camera.getX(), y: this.camera.getY() }),
+                getSimulation: () => this.mode === 'edit' ? null : this.simulation
+            }
+        );
         this.soundManager = new SoundManager();
-        this.timeRemaining = this.TIME_LIMIT;
+        this.controls = new Controls();
+        this.menu = new Menu(this.SCORE_AREA_HEIGHT);
+        this.controlsScreen = new ControlsScreen(this.controls, this.SCORE_AREA_HEIGHT);
+        this.highScores = new HighScoresScreen(new HighScores(), this.SCORE_AREA_HEIGHT);
+        this.saveSlots = new SaveSlotsScreen(
+            this.SCORE_AREA_HEIGHT, () => this.createSaveGame(), save => this.loadSaveGame(save)
+        );
+        this.caveSelect = this.campaign
+            ? new CaveSelectScreen(this.campaign, this.campaignProgress!, this.controls, this.SCORE_AREA_HEIGHT, index => {
+                // Choosing a cave starts a fresh run from there
+                this.startNewRun();
+                this.startCampaignCave(index);
+            })
+            : null;
+        this.editor = new EditorScreen(canvas, this.TILE_SIZE, this.SCORE_AREA_HEIGHT, {
+            isActive: () => this.mode === 'edit',
+            getCamera: () => ({ x: this.camera.getX(), y: this.camera.getY() }),
+            renderGameArea: (grid, drawExtras) => this.caveRenderer.renderGameArea(grid, drawExtras),
+            renderTile: (x, y, type) => this.caveRenderer.renderTile(x, y, type),
+            leave: () => {
+                this.mode = 'play';
+                this.resetGame(false);
+            },
+            testPlay: () => {
+                this.mode = 'test';
+                this.resetGame(false);
+            },
+            toggleMute: () => this.soundManager.toggleMute()
+        });
+        this.replayPlayer = new ReplayPlayer(this.controls, {
+            exit: () => {
+                this.replayPlayer.stop();
+                this.mode = 'play';
+                this.resetGame(false);
+            },
+            restart: () => this.resetGame(false),
+            step: () => {
+                if (this.isSimulationRunning()) {
+                    this.stepSimulation();
+                }
+            },
+            download: replay => this.downloadReplay(replay),
+            cycleMinimap: () => this.minimap.cycleMode(),
+            toggleMute: () => this.soundManager.toggleMute()
+        });
         
         // Calculate the logical canvas size based on viewport dimensions (not grid dimensions)
         const logicalWidth = this.VIEWPORT_WIDTH * this.TILE_SIZE;
@@ -83,15 +202,38 @@ export class Game {
         this.canvas.style.top = '50%';
         this.canvas.style.transform = 'translate(-50%, -50%)';
         
+        this.input = new InputRouter(canvas, this.controls, {
+            getOpenScreen: () => this.getOpenScreen(),
+            getModeScreen: () => this.getModeScreen(),
+            handleAction: action => this.handleAction(action),
+            handleEscape: () => {
+                // Leave test play and go back to editing
+                if (this.mode === 'test') {
+                    this.enterEditor();
+                }
+            },
+            isTouchActive: () => this.isTouchActive()
+        });
+        this.input.setScale(scale);
+
         // Enable crisp pixels
         this.ctx.imageSmoothingEnabled = false;
 
-        // Initialize grid with new dimensions
-        this.grid = new Grid(this.GRID_WIDTH, this.GRID_HEIGHT);
-        this.initializeLevel();
+        this.setTheme(SpriteSheet.getChosenName());
+
+        // Create the first cave
+        this.startNewRun();
+        this.simulation = this.createSimulation();
+        this.updateCameraPosition();
 
         // Set up event listeners
-        window.addEventListener('keydown', this.handleInput.bind(this));
+        document.addEventListener('visibilitychange', () => {
+            // Pause while the tab is hidden so the clock doesn't run out unseen
+            if (document.hidden) {
+                this.pause();
+            }
+        });
+        this.canvas.addEventListener('contextmenu', event => event.preventDefault());
         
         // Add resize handler
         window.addEventListener('resize', () => {
@@ -101,410 +243,722 @@ export class Game {
             
             this.canvas.style.width = `${logicalWidth * newScale}px`;
             this.canvas.style.height = `${logicalHeight * newScale}px`;
+            this.input.setScale(newScale);
         });
     }
 
-    private initializeLevel(): void {
-        // Create walls around the level
-        for (let x = 0; x < this.grid.getWidth(); x++) {
-            this.grid.setTile(x, 0, TileType.WALL);
-            this.grid.setTile(x, this.grid.getHeight() - 1, TileType.WALL);
+    // Builds the simulation for the current mode, or for `replay` when one is given
+    private createSimulation(replay: Replay | null = this.mode === 'replay' ? this.replayPlayer.getReplay() : null): CaveSimulation {
+        let seed = this.seed;
+        let cave: Cave | null = null;
+        if (replay) {
+            const caveText = replay.getCaveText();
+            seed = replay.getSeed();
+            cave = caveText === null ? null : CaveFile.parse(caveText);
+        } else if (this.mode === 'test') {
+            cave = this.editor.getPlayableCave();
+        } else if (this.campaign) {
+            cave = this.campaign.getCave(this.campaignCave);
+        } else if (this.fixedCave) {
+            cave = { ...this.fixedCave, grid: this.fixedCave.grid.clone() };
         }
-        for (let y = 0; y < this.grid.getHeight(); y++) {
-            this.grid.setTile(0, y, TileType.WALL);
-            this.grid.setTile(this.grid.getWidth() - 1, y, TileType.WALL);
+
+        this.cavePalette = cave?.palette ?? null;
+
+        // Cave layout and exit placement share one generator, so the seed reproduces the whole run
+        const random = new Random(seed);
+        if (cave) {
+            // Record the cave as it is before the simulation starts changing it
+            this.recording = new Replay(seed, CaveFile.serialize(cave), cave.name);
+        } else {
+            const options = replay ? replay.getGeneratorOptions() : this.generatorOptions;
+            cave = new CaveGenerator(random, options).generate(this.GRID_WIDTH, this.GRID_HEIGHT);
+            this.recording = new Replay(seed, null, undefined, [], options);
+            if (!replay) {
+                this.updateSeedInUrl();
+            }
         }
+        return new CaveSimulation(cave, random);
+    }
 
-        // Find a random starting position for the player
-        do {
-            this.playerX = Math.floor(Math.random() * (this.grid.getWidth() - 4)) + 2;
-            this.playerY = Math.floor(Math.random() * (this.grid.getHeight() - 4)) + 2;
-        } while (false); // We'll always accept the first position since we clear the area around it
+    // Keep the seed in the address bar so a reload or a shared link gives the same cave
+    private updateSeedInUrl(): void {
+        const url = new URL(window.location.href);
+        url.searchParams.set('seed', this.seed.toString());
+        // The original generator and difficulty are left out so older links keep working
+        for (const key of ['generator', 'difficulty'] as const) {
+            if (this.generatorOptions[key] === DEFAULT_GENERATOR_OPTIONS[key]) {
+                url.searchParams.delete(key);
+            } else {
+                url.searchParams.set(key, this.generatorOptions[key]);
+            }
+        }
+        window.history.replaceState(null, '', url.toString());
+    }
 
-        // Set initial camera position centered on player
-        this.updateCameraPosition();
+    // The grid on screen: the cave being edited in the editor, otherwise the simulated one
+    private getDisplayedGrid(): Grid {
+        return this.mode === 'edit' ? this.editor.getCave().grid : this.simulation.getGrid();
+    }
+
+    // The camera follows the player, or the editor's scroll position while editing
+    private getCameraFocus(): { x: number; y: number } {
+        return this.mode === 'edit' ? { x: this.editor.getFocusX(), y: this.editor.getFocusY() } : this.getDrawnPlayerPosition();
+    }
+
+    private isPlayingCampaign(): boolean {
+        return this.campaign !== null && this.mode === 'play';
+    }
 
-        // Add some dirt and boulders, but avoid the player's starting area
-        for (let y = 1; y < this.grid.getHeight() - 1; y++) {
-            for (let x = 1; x < this.grid.getWidth() - 1; x++) {
-                // Skip the area around the player's starting position
-                if (Math.abs(x - this.playerX) <= 1 && Math.abs(y - this.playerY) <= 1) {
-                    continue;
+    // Set camera position directly based on player position
+    private updateCameraPosition(): void {
+        const focus = this.getCameraFocus();
+        this.camera.jumpTo(focus.x, focus.y, this.getDisplayedGrid());
+    }
+
+    // Presses of remappable actions, from the keyboard, a gamepad or the touch screen
+    private handleAction(action: Action): void {
+        if (action === 'frameStats') {
+            this.cycleFrameStats();
+            return;
+        }
+        if (this.state === 'title' || this.state === 'paused') {
+            this.handleMenuAction(action);
+            return;
+        }
+
+        switch (action) {
+            case 'mute':
+                this.soundManager.toggleMute();
+                break;
+            case 'pause':
+                this.pause();
+                break;
+            case 'restart':
+                this.restartCave();
+                break;
+            case 'snap':
+                // Only modifies moves, see takeMovementInput()
+                break;
+            case 'map':
+                this.minimap.cycleMode();
+                break;
+            case 'overview':
+                // Shown while held, see render()
+                break;
+            case 'newCave':
+                if (this.mode === 'play' && !this.campaign && !this.fixedCave) {
+                    this.startNewRun();
+                    this.resetGame(true);
                 }
-                
-                if (Math.random() < 0.7) {
-                    this.grid.setTile(x, y, TileType.DIRT);
-                } else if (Math.random() < 0.3) {
-                    this.grid.setTile(x, y, TileType.BOULDER);
+                break;
+            case 'caveSelect':
+                if (this.isPlayingCampaign()) {
+                    this.openCaveSelect();
+                }
+                break;
+            case 'editor':
+                // Test play goes back to editing the cave
+                if (this.mode === 'play' || this.mode === 'test') {
+                    this.enterEditor();
+                }
+                break;
+            case 'download':
+                this.downloadReplay(this.recording);
+                break;
+            case 'openReplay':
+                if (this.mode === 'play') {
+                    this.openReplay();
+                }
+                break;
+            case 'controls':
+                this.controlsScreen.show();
+                break;
+            default:
+                // Moving skips the cave intro
+                if (this.state === 'caveIntro') {
+                    this.enterState('playing');
+                }
+                if (this.state === 'playing') {
+                    this.input.pressDirection(action);
                 }
-            }
         }
+    }
 
-        // Add diamonds
-        for (let i = 0; i < this.DIAMONDS_REQUIRED * 1.5; i++) {
-            let x, y;
-            do {
-                x = Math.floor(Math.random() * (this.grid.getWidth() - 2)) + 1;
-                y = Math.floor(Math.random() * (this.grid.getHeight() - 2)) + 1;
-            } while (Math.abs(x - this.playerX) <= 1 && Math.abs(y - this.playerY) <= 1);
-            this.grid.setTile(x, y, TileType.DIAMOND);
+    private enterState(state: GameState): void {
+        this.state = state;
+        this.stateStartTime = performance.now();
+        this.menu.reset();
+    }
+
+    // Lives only count in play mode; test play and replays can always be retried
+    private usesLives(): boolean {
+        return this.mode === 'play';
+    }
+
+    private isBonusCave(): boolean {
+        return this.isPlayingCampaign() && this.campaign!.isIntermission(this.campaignCave);
+    }
+
+    private startNewRun(): void {
+        this.lives = this.START_LIVES;
+        this.carriedScore = 0;
+        this.nextExtraLifeScore = this.EXTRA_LIFE_SCORE;
+    }
+
+    // Retrying costs a life while the cave is under way; a completed cave is played again with the
+    // run carried on, and once the run is lost it starts a new one
+    private restartCave(): void {
+        if (!this.usesLives() || this.state === 'caveIntro') {
+            this.resetGame(false);
+        } else if (this.campaignComplete) {
+            // Play the whole campaign again from the first cave
+            this.startNewRun();
+            this.startCampaignCave(0);
+        } else if (this.lives === 0) {
+            this.startNewRun();
+            this.resetGame(false);
+        } else if (this.state === 'caveComplete') {
+            this.playCompletedCaveAgain();
+        } else if (this.state === 'gameOver') {
+            // The life is already gone, just skip the wait
+            if (!this.isCampaignCaveOver()) {
+                this.continueAfterLostLife();
+            }
+        } else {
+            this.loseLife();
         }
+    }
 
-        // Clear player starting position and area around it
-        for (let dy = -1; dy <= 1; dy++) {
-            for (let dx = -1; dx <= 1; dx++) {
-                this.grid.setTile(this.playerX + dx, this.playerY + dy, TileType.EMPTY);
+    // Counts in what is left of the time bonus and banks the cave's score, as moving on to another cave would
+    private playCompletedCaveAgain(): void {
+        if (this.tallying) {
+            while (this.simulation.tallyTimeBonus()) {
+                this.checkExtraLife();
             }
+            this.finishTally();
         }
+        this.carriedScore += this.simulation.getScore();
+        this.resetGame(false);
     }
 
-    private updateCameraPosition(): void {
-        // Set camera position directly based on player position
-        this.cameraX = this.playerX - Math.floor(this.VIEWPORT_WIDTH / 2);
-        this.cameraY = this.playerY - Math.floor(this.VIEWPORT_HEIGHT / 2);
+    private loseLife(): void {
+        this.lives = Math.max(0, this.lives - 1);
+        if (this.lives > 0) {
+            this.continueAfterLostLife();
+        } else {
+            this.stopLoopingSounds();
+            this.enterState('gameOver');
+        }
+    }
 
-        // Clamp camera position to level bounds
-        this.cameraX = Math.max(0, Math.min(this.cameraX, this.GRID_WIDTH - this.VIEWPORT_WIDTH));
-        this.cameraY = Math.max(0, Math.min(this.cameraY, this.GRID_HEIGHT - this.VIEWPORT_HEIGHT));
+    // Starts the cave again with the next life, keeping the score earned so far
+    private continueAfterLostLife(): void {
+        this.carriedScore += this.simulation.getScore();
+        this.resetGame(false);
     }
 
-    private handleInput(event: KeyboardEvent): void {
-        // Handle mute toggle
-        if (event.key.toLowerCase() === 'm') {
-            this.soundManager.toggleMute();
+    private checkExtraLife(): void {
+        if (!this.usesLives()) {
             return;
         }
+        while (this.getTotalScore() >= this.nextExtraLifeScore) {
+            this.nextExtraLifeScore += this.EXTRA_LIFE_SCORE;
+            this.lives = Math.min(this.MAX_LIVES, this.lives + 1);
+            this.extraLifeTime = performance.now();
+            this.soundManager.play('extraLife');
+        }
+    }
 
-        // Handle reset key press regardless of game state
-        if (event.key.toLowerCase() === 'r') {
-            this.resetGame();
+    private finishTally(): void {
+        this.tallying = false;
+        this.stateStartTime = performance.now();
+        this.offerHighScore();
+    }
+
+    private pause(): void {
+        if (this.mode === 'replay') {
+            this.replayPlayer.pause();
+        } else if (this.state === 'playing') {
+            this.enterState('paused');
+            this.stopLoopingSounds();
+        }
+    }
+
+    private resume(): void {
+        this.enterState('playing');
+        if (this.simulation.isTimeWarningActive()) {
+            this.soundManager.play('timeWarning');
+        }
+        if (this.simulation.getMagicWallState() === 'active') {
+            this.soundManager.play('magicWall');
+        }
+    }
+
+    // Leaves the cave for the title screen, or for the editor when test playing
+    private quit(): void {
+        if (this.mode === 'test') {
+            this.enterEditor();
             return;
         }
+        this.resetGame(false);
+        this.enterState('title');
+    }
 
-        // Don't handle movement if game is over or won
-        if (this.gameOver || this.gameWon) return;
+    // Ticks only run while the cave is being played or the player's explosion plays out
+    private isSimulationRunning(): boolean {
+        return this.state === 'playing' || this.state === 'dying';
+    }
 
-        let newX = this.playerX;
-        let newY = this.playerY;
+    // Follows the simulation into the dying, cave complete and game over states
+    private updateStateFromSimulation(): void {
+        const status = this.simulation.getStatus();
+        if (status === 'dying' && this.state === 'playing') {
+            this.enterState('dying');
+        } else if (status === 'lost' && this.isSimulationRunning()) {
+            this.enterState('gameOver');
+            // Bonus caves can't be lost, the campaign just moves on
+            if (this.usesLives() && !this.isBonusCave()) {
+                this.lives = Math.max(0, this.lives - 1);
+            }
+        } else if (status === 'won' && this.state === 'playing') {
+            this.enterState('caveComplete');
+            this.tallying = true;
+            this.exitTimeLeft = this.simulation.getTimeRemaining();
+        }
+    }
 
-        switch (event.key) {
-            case 'ArrowLeft':
-                newX--;
-                this.playerFacingLeft = true;
-                break;
-            case 'ArrowRight':
-                newX++;
-                this.playerFacingLeft = false;
-                break;
-            case 'ArrowUp':
-                newY--;
-                break;
-            case 'ArrowDown':
-                newY++;
-                break;
+    // The campaign moves on by itself after a completed cave; intermissions can't be retried, so also after failing one
+    private isCampaignCaveOver(): boolean {
+        if (!this.isPlayingCampaign() || this.campaignComplete || this.tallying) {
+            return false;
         }
+        return this.state === 'caveComplete' || (this.state === 'gameOver' && this.isBonusCave());
+    }
 
-        if (this.canMoveTo(newX, newY)) {
-            const targetTile = this.grid.getTile(newX, newY);
-            
-            // Handle diamond collection
-            if (targetTile === TileType.DIAMOND) {
-                this.collectDiamond();
-                this.soundManager.play('diamond');
-            } else if (targetTile === TileType.DIRT) {
-                this.soundManager.play('walk');
-            } else if (targetTile === TileType.EXIT && this.exitRevealed) {
-                this.gameWon = true;
-                this.soundManager.stop('timeWarning');
-                this.soundManager.play('victory');
-                return;
+    private getMenuItems(): MenuItem[] {
+        if (this.state === 'paused') {
+            const items: MenuItem[] = [{ label: 'Resume', select: () => this.resume() }];
+            if (this.mode === 'play') {
+                items.push(
+                    { label: 'Save game', select: () => this.saveSlots.show('save') },
+                    { label: 'Load game', select: () => this.saveSlots.show('load') }
+                );
             }
+            items.push(
+                { label: 'Restart cave', select: () => this.restartCave() },
+                { label: this.mode === 'test' ? 'Back to the editor' : 'Quit to title', select: () => this.quit() }
+            );
+            return items;
+        }
 
-            // Clear the new position before moving there
-            this.grid.setTile(newX, newY, TileType.EMPTY);
-            
-            // Update player position and animation
-            this.playerX = newX;
-            this.playerY = newY;
-            this.playerAnimFrame = (this.playerAnimFrame + 1) % 4;
-            this.lastPlayerMoveTime = performance.now();
-
-            // Update camera position immediately after player moves
-            this.updateCameraPosition();
-
-            // Handle boulder pushing
-            if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
-                this.tryPushBoulder(newX, newY, event.key === 'ArrowLeft' ? -1 : 1);
-            }
+        const items: MenuItem[] = [
+            { label: 'Play', select: () => this.startPlaying() },
+            { label: 'Load game', select: () => this.saveSlots.show('load') }
+        ];
+        if (this.campaign) {
+            items.push({ label: 'Choose cave', select: () => this.openCaveSelect() });
+        } else if (!this.fixedCave) {
+            const { generator, difficulty } = this.generatorOptions;
+            items.push(
+                {
+                    label: `Cave type: ${CAVE_STRATEGIES[generator].label}`,
+                    select: () => this.setGeneratorOptions({
+                        generator: GENERATOR_NAMES[(GENERATOR_NAMES.indexOf(generator) + 1) % GENERATOR_NAMES.length],
+                        difficulty
+                    })
+                },
+                {
+                    label: `Difficulty: ${DIFFICULTY_PROFILES[difficulty].label}`,
+                    select: () => this.setGeneratorOptions({
+                        generator,
+                        difficulty: DIFFICULTY_NAMES[(DIFFICULTY_NAMES.indexOf(difficulty) + 1) % DIFFICULTY_NAMES.length]
+                    })
+                }
+            );
         }
+        const themes = [null, ...SpriteSheet.getNames()];
+        items.push(
+            {
+                label: `Theme: ${this.themeLabel}`,
+                select: () => this.setTheme(themes[(themes.indexOf(this.themeName) + 1) % themes.length])
+            },
+            { label: 'High scores', select: () => this.highScores.showTables(this.getHighScoreCaveId()) },
+            { label: 'Controls', select: () => this.controlsScreen.show() },
+            { label: 'Cave editor', select: () => this.enterEditor() },
+            { label: 'Watch a replay', select: () => this.openReplay() }
+        );
+        return items;
     }
 
-    private collectDiamond(): void {
-        this.score += this.POINTS_PER_DIAMOND;
-        this.diamondsCollected++;
-        
-        if (this.diamondsCollected >= this.DIAMONDS_REQUIRED && !this.exitRevealed) {
-            this.revealExit();
-            this.soundManager.play('diamond');
-        }
-    }
-
-    private revealExit(): void {
-        // Find a suitable position for the exit
-        do {
-            this.exitX = Math.floor(Math.random() * (this.grid.getWidth() - 4)) + 2;
-            this.exitY = Math.floor(Math.random() * (this.grid.getHeight() - 4)) + 2;
-        } while (
-            // Avoid player position and immediate surroundings
-            (Math.abs(this.exitX - this.playerX) <= 2 && Math.abs(this.exitY - this.playerY) <= 2) ||
-            // Avoid positions with boulders above (to prevent crushing)
-            this.grid.getTile(this.exitX, this.exitY - 1) === TileType.BOULDER
-        );
+    private handleMenuInput(event: KeyboardEvent): void {
+        switch (event.code) {
+            case 'ArrowUp':
+            case 'ArrowDown':
+            case 'Enter':
+            case 'Space':
+                event.preventDefault();
+                this.handleMenuAction(event.code === 'ArrowUp' ? 'up' : event.code === 'ArrowDown' ? 'down' : 'snap');
+                return;
+            case 'Escape':
+                if (this.state === 'paused') {
+                    this.resume();
+                }
+                return;
+        }
 
-        this.exitRevealed = true;
-        this.exitAppearTime = performance.now();
-        // Clear the area around the exit
-        this.grid.setTile(this.exitX, this.exitY, TileType.EXIT);
-        // Play portal sound
-        this.soundManager.play('portal');
+        const action = this.controls.getActionForKey(event.code);
+        if (action && !event.repeat) {
+            event.preventDefault();
+            this.handleMenuAction(action);
+        }
     }
 
-    private resetGame(): void {
-        // Stop warning sound if it's playing
-        this.soundManager.stop('timeWarning');
-        
-        // Clear the current player position before resetting
-        this.grid.setTile(this.playerX, this.playerY, TileType.EMPTY);
-        
-        // Reset game state
-        this.score = 0;
-        this.diamondsCollected = 0;
-        this.gameOver = false;
-        this.gameWon = false;
-        this.playerX = 1;
-        this.playerY = 1;
-        this.playerAnimFrame = 0;
-        this.playerFacingLeft = false;
-        this.lastAnimUpdate = 0;
-        this.lastPhysicsUpdate = 0;
-        this.lastPlayerMoveTime = 0;
-        this.lastTime = 0;
-        this.timeRemaining = this.TIME_LIMIT;
-        this.isTimeWarning = false;
-        this.lastTimeUpdate = 0;
-        this.exitRevealed = false;
-        this.exitX = -1;
-        this.exitY = -1;
-        this.exitAppearTime = 0;
-        
-        // Create a new level
-        this.initializeLevel();
-    }
-
-    private tryPushBoulder(x: number, y: number, direction: number): void {
-        const nextX = x + direction;
-        if (this.grid.getTile(x, y) === TileType.BOULDER && 
-            this.grid.getTile(nextX, y) === TileType.EMPTY) {
-            this.grid.setTile(x, y, TileType.EMPTY);
-            this.grid.setTile(nextX, y, TileType.BOULDER);
-            this.soundManager.play('boulder');
-        }
-    }
-
-    private canMoveTo(x: number, y: number): boolean {
-        const tile = this.grid.getTile(x, y);
-        return tile === TileType.EMPTY || tile === TileType.DIRT || tile === TileType.DIAMOND || tile === TileType.EXIT;
-    }
-
-    private updatePhysics(): void {
-        let somethingMoved = false;
-
-        // Update from bottom to top, right to left
-        for (let y = this.grid.getHeight() - 2; y >= 0; y--) {
-            for (let x = this.grid.getWidth() - 2; x >= 0; x--) {
-                const currentTile = this.grid.getTile(x, y);
-                
-                // Handle falling objects (boulders and diamonds)
-                if (currentTile === TileType.BOULDER || currentTile === TileType.DIAMOND) {
-                    // Check if object can fall straight down
-                    if (this.grid.getTile(x, y + 1) === TileType.EMPTY && 
-                        !(x === this.playerX && y + 1 === this.playerY)) { // Don't fall if player is below
-                        this.grid.setTile(x, y, TileType.EMPTY);
-                        this.grid.setTile(x, y + 1, currentTile);
-                        somethingMoved = true;
-
-                        // Play boulder sound only when it lands
-                        if (currentTile === TileType.BOULDER && this.grid.getTile(x, y + 2) !== TileType.EMPTY) {
-                            this.soundManager.play('boulder');
-                        }
-
-                        // Check if object crushed the player, but give a small grace period when moving down
-                        if (this.playerX === x && this.playerY === y + 2) {
-                            // Only kill player if they've been under the boulder for more than one physics update
-                            const timeSinceLastMove = performance.now() - this.lastPlayerMoveTime;
-                            if (timeSinceLastMove >= this.PHYSICS_UPDATE_INTERVAL) {
-                                this.startExplosion();
-                            }
-                        }
-                    }
-                    // Handle boulder-specific rolling behavior
-                    else if (currentTile === TileType.BOULDER) {
-                        // Check if boulder can roll to the left
-                        if (this.grid.getTile(x, y + 1) !== TileType.EMPTY &&
-                            this.grid.getTile(x - 1, y) === TileType.EMPTY &&
-                            this.grid.getTile(x - 1, y + 1) === TileType.EMPTY &&
-                            !(x - 1 === this.playerX && y === this.playerY) && // Don't roll if player is in the way
-                            !(x - 1 === this.playerX && y + 1 === this.playerY)) {
-                            this.grid.setTile(x, y, TileType.EMPTY);
-                            this.grid.setTile(x - 1, y + 1, TileType.BOULDER);
-                            somethingMoved = true;
-                        }
-                        // Check if boulder can roll to the right
-                        else if (this.grid.getTile(x, y + 1) !== TileType.EMPTY &&
-                                this.grid.getTile(x + 1, y) === TileType.EMPTY &&
-                                this.grid.getTile(x + 1, y + 1) === TileType.EMPTY &&
-                                !(x + 1 === this.playerX && y === this.playerY) && // Don't roll if player is in the way
-                                !(x + 1 === this.playerX && y + 1 === this.playerY)) {
-                            this.grid.setTile(x, y, TileType.EMPTY);
-                            this.grid.setTile(x + 1, y + 1, TileType.BOULDER);
-                            somethingMoved = true;
-                        }
-                    }
+    // Up and down choose a menu item and snap selects it, so menus work with any controls
+    private handleMenuAction(action: Action): void {
+        if (this.menu.handleAction(action, this.getMenuItems())) {
+            return;
+        }
+        switch (action) {
+            case 'pause':
+                if (this.state === 'paused') {
+                    this.resume();
                 }
-            }
+                break;
+            case 'mute':
+                this.soundManager.toggleMute();
+                break;
         }
+    }
+
+    private openCaveSelect(): void {
+        this.caveSelect?.show(this.campaignCave);
+    }
 
-        // Check if player was crushed by a boulder or diamond
-        const tileAtPlayer = this.grid.getTile(this.playerX, this.playerY);
-        if (tileAtPlayer === TileType.BOULDER || tileAtPlayer === TileType.DIAMOND) {
-            // Only kill player if they've been under/in the same tile as a boulder for more than one physics update
-            const timeSinceLastMove = performance.now() - this.lastPlayerMoveTime;
-            if (timeSinceLastMove >= this.PHYSICS_UPDATE_INTERVAL) {
-                this.startExplosion();
+    // Shows the cave the new options make from the same seed
+    private setGeneratorOptions(options: GeneratorOptions): void {
+        this.generatorOptions = options;
+        this.simulation = this.createSimulation();
+        this.updateCameraPosition();
+    }
+
+    // Sprite sheets load in the background; tiles keep their current look until it is ready
+    private setTheme(name: string | null): void {
+        this.themeName = name;
+        SpriteSheet.setChosenName(name);
+        if (name === null) {
+            this.themeLabel = 'Built-in';
+            this.tileSprites.setSpriteSheet(null);
+            return;
+        }
+
+        this.themeLabel = `${name} (loading)`;
+        SpriteSheet.load(name).then(sheet => {
+            if (this.themeName === name) {
+                this.themeLabel = sheet.getLabel();
+                this.tileSprites.setSpriteSheet(sheet);
+            }
+        }).catch(error => {
+            console.error(`Error loading theme "${name}":`, error);
+            if (this.themeName === name) {
+                this.setTheme(null);
             }
+        });
+    }
+
+    private startPlaying(): void {
+        this.startNewRun();
+        this.resetGame(false);
+    }
+
+    // Identifies which game a save belongs to, so saves from other campaigns or caves aren't loaded into this one
+    private getSaveGameId(): string {
+        if (this.campaign) {
+            return `campaign:${this.campaign.getId()}`;
+        }
+        if (this.fixedCaveId) {
+            return this.fixedCaveId;
         }
+        return 'random';
     }
 
-    private startExplosion(): void {
-        if (!this.gameOver) {
-            this.gameOver = true;
-            this.explosionRadius = 0;
-            this.explosionFrame = 0;
-            this.explosionX = this.playerX;
-            this.explosionY = this.playerY;
-            this.lastExplosionUpdate = performance.now();
-            this.soundManager.play('explosion');
-        }
-    }
-
-    private updateExplosion(timestamp: number): void {
-        if (!this.gameOver || this.explosionRadius >= this.explosionMaxRadius) return;
-
-        if (timestamp - this.lastExplosionUpdate >= this.EXPLOSION_DURATION) {
-            this.explosionFrame++;
-            this.explosionRadius = Math.floor(this.explosionFrame / 2);
-            this.lastExplosionUpdate = timestamp;
-
-            // Clear tiles in expanding radius
-            if (this.explosionRadius < this.explosionMaxRadius) {
-                for (let y = -this.explosionRadius; y <= this.explosionRadius; y++) {
-                    for (let x = -this.explosionRadius; x <= this.explosionRadius; x++) {
-                        const distance = Math.sqrt(x * x + y * y);
-                        if (distance <= this.explosionRadius) {
-                            const tileX = this.explosionX + x;
-                            const tileY = this.explosionY + y;
-                            if (this.grid.isInBounds(tileX, tileY) && 
-                                this.grid.getTile(tileX, tileY) !== TileType.WALL) {
-                                this.grid.setTile(tileX, tileY, TileType.EMPTY);
-                            }
-                        }
-                    }
-                }
-            }
+    private createSaveGame(): SaveGame {
+        return new SaveGame({
+            game: this.getSaveGameId(),
+            label: this.getCaveLabel(),
+            savedAt: new Date().toISOString(),
+            seed: this.seed,
+            campaignCave: this.campaign ? this.campaignCave : undefined,
+            carriedScore: this.carriedScore,
+            lives: this.lives,
+            nextExtraLifeScore: this.nextExtraLifeScore,
+            replay: this.recording.toText(),
+            simulation: this.simulation.getSnapshot()
+        });
+    }
+
+    // Resumes a saved run, paused so the player can get ready; returns an error message if it can't be loaded
+    private loadSaveGame(save: SaveGame): string | null {
+        const data = save.getData();
+        if (data.game !== this.getSaveGameId()) {
+            return `This save is from a different game (${data.label})`;
         }
+
+        let recording: Replay;
+        let palette: CavePalette | null;
+        try {
+            recording = Replay.parse(data.replay);
+            const caveText = recording.getCaveText();
+            palette = caveText === null ? null : CaveFile.parse(caveText).palette ?? null;
+        } catch (error) {
+            return `Could not load the save: ${error instanceof Error ? error.message : String(error)}`;
+        }
+
+        this.stopLoopingSounds();
+        this.seed = data.seed;
+        if (!this.campaign && !this.fixedCave && recording.getCaveText() === null) {
+            this.generatorOptions = recording.getGeneratorOptions();
+            this.updateSeedInUrl();
+        }
+        if (this.campaign && data.campaignCave !== undefined) {
+            this.campaignCave = Math.max(0, Math.min(data.campaignCave, this.campaign.getCaveCount() - 1));
+            this.campaignProgress!.setCurrentCave(this.campaignCave);
+        }
+        this.carriedScore = data.carriedScore ?? 0;
+        this.lives = Math.max(1, data.lives ?? this.START_LIVES);
+        this.nextExtraLifeScore = data.nextExtraLifeScore ?? this.EXTRA_LIFE_SCORE;
+        this.campaignComplete = false;
+        this.tallying = false;
+        this.input.clearBufferedMove();
+        this.caveRenderer.reset();
+        this.tickAccumulator = 0;
+        this.simulation = save.createSimulation();
+        this.recording = recording;
+        this.cavePalette = palette;
+        this.updateCameraPosition();
+
+        this.saveSlots.close();
+        this.caveSelect?.close();
+        this.enterState('paused');
+        return null;
     }
 
-    private updateTime(timestamp: number): void {
-        if (this.gameOver || this.gameWon) {
-            // Only stop warning sound once when game ends
-            if (this.isTimeWarning) {
-                this.soundManager.stop('timeWarning');
-                this.isTimeWarning = false;
-            }
+    // Table key for the cave being played; campaign caves by position, others by contents or seed
+    private getHighScoreCaveId(): string {
+        if (this.campaign) {
+            return `campaign:${this.campaign.getId()}#${this.campaignCave + 1}`;
+        }
+        if (this.fixedCaveId) {
+            return this.fixedCaveId;
+        }
+        const { generator, difficulty } = this.generatorOptions;
+        if (generator === DEFAULT_GENERATOR_OPTIONS.generator && difficulty === DEFAULT_GENERATOR_OPTIONS.difficulty) {
+            return `seed:${this.seed}`;
+        }
+        return `seed:${this.seed}:${generator}:${difficulty}`;
+    }
+
+    private getHighScoreLabel(): string {
+        return this.campaign ? `${this.campaign.getName()} · ${this.getCaveLabel()}` : this.getCaveLabel();
+    }
+
+    // Asks for a name when a completed cave earns a place in its table; only real play counts
+    private offerHighScore(): void {
+        if (this.mode !== 'play') {
             return;
         }
+        this.highScores.offer({
+            caveId: this.getHighScoreCaveId(),
+            label: this.getHighScoreLabel(),
+            score: this.simulation.getScore(),
+            timeLeft: this.exitTimeLeft
+        });
+    }
 
-        // Update time every second
-        if (timestamp - this.lastTimeUpdate >= 1000) {
-            this.timeRemaining--;
-            this.lastTimeUpdate = timestamp;
+    // The menu screen shown over the game, which takes all input while it is open
+    private getOpenScreen(): ControlsScreen | SaveSlotsScreen | HighScoresScreen | CaveSelectScreen | null {
+        const screens = [this.controlsScreen, this.saveSlots, this.highScores, this.caveSelect];
+        return screens.find(screen => screen?.isOpen()) ?? null;
+    }
 
-            // Check for time warning state
-            if (this.timeRemaining <= this.TIME_WARNING_THRESHOLD && !this.isTimeWarning) {
-                console.log('Time warning triggered:', {
-                    timeRemaining: this.timeRemaining,
-                    threshold: this.TIME_WARNING_THRESHOLD,
-                    isTimeWarning: this.isTimeWarning
-                });
-                this.isTimeWarning = true;
-                this.soundManager.play('timeWarning');
-            }
+    // The editor, the replay controls and the menus take the input the same way when no menu screen is open
+    private getModeScreen(): InputScreen | null {
+        if (this.mode === 'edit') {
+            return this.editor;
+        }
+        if (this.mode === 'replay') {
+            return this.replayPlayer;
+        }
+        if (this.state === 'title' || this.state === 'paused') {
+            return this.menuInput;
+        }
+        return null;
+    }
 
-            // Check if time has run out
-            if (this.timeRemaining <= 0) {
-                console.log('Time ran out, stopping warning sound');
-                this.timeRemaining = 0;
-                this.gameOver = true;
-                this.soundManager.stop('timeWarning');
-                this.isTimeWarning = false;  // Reset warning state
-                this.soundManager.play('explosion');
+    // Touch input drives the game, and the menu screens on top of it, while a cave is being played
+    private isTouchActive(): boolean {
+        return this.mode === 'play' || this.mode === 'test';
+    }
+
+    // The simulation is built first, so a replay that can't be played leaves the game as it was
+    private startReplay(replay: Replay): void {
+        const simulation = this.createSimulation(replay);
+        this.replayPlayer.start(replay);
+        this.mode = 'replay';
+        this.resetGame(false, simulation);
+    }
+
+    private downloadReplay(replay: Replay): void {
+        const blob = new Blob([replay.toText()], { type: 'application/json' });
+        const link = document.createElement('a');
+        const name = replay.getName() ?? `seed-${replay.getSeed()}`;
+        link.href = URL.createObjectURL(blob);
+        link.download = `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.bdreplay`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    }
+
+    private openReplay(): void {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.bdreplay,application/json';
+        input.addEventListener('change', () => {
+            const file = input.files?.[0];
+            if (!file) {
+                return;
             }
+            file.text().then(text => {
+                this.startReplay(Replay.parse(text));
+            }).catch(error => {
+                window.alert(`Could not open replay: ${error instanceof Error ? error.message : String(error)}`);
+            });
+        });
+        input.click();
+    }
+
+    private enterEditor(): void {
+        this.stopLoopingSounds();
+        this.mode = 'edit';
+        this.editor.open();
+        this.updateCameraPosition();
+    }
+
+    private startCampaignCave(index: number): void {
+        this.campaignCave = index;
+        this.campaignProgress!.setCurrentCave(index);
+        this.resetGame(false);
+    }
+
+    // Called once the result of a campaign cave has been shown
+    private advanceCampaign(): void {
+        this.carriedScore += this.simulation.getScore();
+
+        const next = this.campaignCave + 1;
+        if (next >= this.campaign!.getCaveCount()) {
+            this.campaignComplete = true;
+            return;
         }
+        this.startCampaignCave(next);
     }
 
-    private updateCamera(deltaTime: number): void {
-        // Calculate target camera position (centered on player)
-        this.targetCameraX = this.playerX - Math.floor(this.VIEWPORT_WIDTH / 2);
-        this.targetCameraY = this.playerY - Math.floor(this.VIEWPORT_HEIGHT / 2);
+    private getTotalScore(): number {
+        return this.campaignComplete ? this.carriedScore : this.carriedScore + this.simulation.getScore();
+    }
 
-        // Clamp target position to level bounds
-        this.targetCameraX = Math.max(0, Math.min(this.targetCameraX, this.GRID_WIDTH - this.VIEWPORT_WIDTH));
-        this.targetCameraY = Math.max(0, Math.min(this.targetCameraY, this.GRID_HEIGHT - this.VIEWPORT_HEIGHT));
+    // Starts the cave over; `simulation` is one already built for it
+    private resetGame(newCave: boolean, simulation?: CaveSimulation): void {
+        // Stop warning and magic wall sounds if they're playing
+        this.stopLoopingSounds();
+        
+        // Reset front-end state
+        this.input.clearBufferedMove();
+        this.caveRenderer.reset();
+        this.tickAccumulator = 0;
+        this.campaignComplete = false;
+        this.tallying = false;
+        
+        // Retry the same cave, or roll a new seed for a different one
+        if (newCave) {
+            this.seed = Random.randomSeed();
+        }
+        this.simulation = simulation ?? this.createSimulation();
+        this.updateCameraPosition();
 
-        // Calculate distance to target
-        const dx = this.targetCameraX - this.cameraX;
-        const dy = this.targetCameraY - this.cameraY;
+        // Caves in play mode open with an intro; test play and replays start right away
+        this.enterState(this.mode === 'play' ? 'caveIntro' : 'playing');
+    }
 
-        // Only move camera if we're outside the deadzone
-        if (Math.abs(dx) > this.CAMERA_DEADZONE || Math.abs(dy) > this.CAMERA_DEADZONE) {
-            // Calculate movement this frame
-            const moveSpeed = this.CAMERA_LERP_SPEED * (deltaTime / 1000);
-            
-            // Calculate new positions
-            let newX = this.cameraX + dx * moveSpeed;
-            let newY = this.cameraY + dy * moveSpeed;
-            
-            // Prevent overshooting by clamping to target position
-            if (dx > 0) {
-                newX = Math.min(newX, this.targetCameraX);
-            } else {
-                newX = Math.max(newX, this.targetCameraX);
-            }
-            
-            if (dy > 0) {
-                newY = Math.min(newY, this.targetCameraY);
-            } else {
-                newY = Math.max(newY, this.targetCameraY);
-            }
-            
-            // Update camera position
-            this.cameraX = newX;
-            this.cameraY = newY;
+    private stepSimulation(): void {
+        const previousX = this.simulation.getPlayerX();
+        const previousY = this.simulation.getPlayerY();
 
-            // Ensure camera stays within bounds
-            this.cameraX = Math.max(0, Math.min(this.cameraX, this.GRID_WIDTH - this.VIEWPORT_WIDTH));
-            this.cameraY = Math.max(0, Math.min(this.cameraY, this.GRID_HEIGHT - this.VIEWPORT_HEIGHT));
+        // Replays feed the recorded inputs back in, everything else is recorded as it is played
+        let input: TickInput;
+        if (this.mode === 'replay') {
+            input = this.replayPlayer.getInput(this.simulation.getTick());
+        } else {
+            input = this.simulation.isMoveTick() ? this.input.takeMovementInput() : { move: null, snap: false };
+            this.recording.record(input);
+        }
+        const events = this.simulation.step(input);
+
+        // Advance the walking animation whenever the player actually moved
+        if (this.simulation.getPlayerX() !== previousX || this.simulation.getPlayerY() !== previousY) {
+            this.caveRenderer.advancePlayerAnimation();
         }
+        this.motions.record(this.simulation, previousX, previousY);
+
+        events.forEach(event => this.handleSimulationEvent(event));
+        this.checkExtraLife();
+        this.updateStateFromSimulation();
+    }
+
+    private handleSimulationEvent(event: SimulationEvent): void {
+        switch (event) {
+            case 'walk':
+            case 'diamond':
+            case 'boulder':
+            case 'explosion':
+                this.soundManager.play(event);
+                break;
+            case 'portal':
+                this.caveRenderer.openExit();
+                this.soundManager.play('portal');
+                break;
+            case 'victory':
+                this.stopLoopingSounds();
+                this.soundManager.play('victory');
+                break;
+            case 'timeWarning':
+                this.soundManager.play('timeWarning');
+                break;
+            case 'amoebaDiamonds':
+                this.soundManager.play('diamond');
+                break;
+            case 'amoebaBoulders':
+                this.soundManager.play('boulder');
+                break;
+            case 'magicWall':
+                this.soundManager.play('magicWall');
+                break;
+            case 'magicWallDormant':
+                this.soundManager.stop('magicWall');
+                break;
+            case 'timeUp':
+                this.stopLoopingSounds();
+                this.soundManager.play('explosion');
+                break;
+        }
+
+        // Only stop looping sounds once when game ends; enemies can explode without ending it
+        if (event === 'explosion' && this.simulation.isGameOver()) {
+            this.stopLoopingSounds();
+        }
+    }
+
+    private stopLoopingSounds(): void {
+        this.soundManager.stop('timeWarning');
+        this.soundManager.stop('magicWall');
     }
 
     start(): void {
@@ -512,31 +966,63 @@ export class Game {
     }
 
     private gameLoop(timestamp: number): void {
-        const deltaTime = timestamp - this.lastTime;
+        const deltaTime = this.lastTime === 0 ? 0 : Math.min(timestamp - this.lastTime, this.MAX_FRAME_TIME);
         this.lastTime = timestamp;
 
-        // Update time
-        this.updateTime(timestamp);
+        // Advance the simulation in fixed ticks so outcomes don't depend on frame rate;
+        // the cave is paused while a menu screen or the editor is open
+        this.input.pollGamepads();
+        const menuOpen = this.getOpenScreen() !== null || this.mode === 'edit';
+        const paused = menuOpen || !this.isSimulationRunning() || (this.mode === 'replay' && this.replayPlayer.isPaused());
+        const speed = this.mode === 'replay' ? this.replayPlayer.getSpeed() : 1;
+        this.tickAccumulator = paused ? 0 : this.tickAccumulator + deltaTime * speed;
+        if (paused) {
+            // Nothing moves while paused, so everything is drawn where it ended up
+            this.motions.stop();
+        }
+        while (this.tickAccumulator >= CaveSimulation.TICK_DURATION && this.isSimulationRunning()) {
+            this.stepSimulation();
+            this.tickAccumulator -= CaveSimulation.TICK_DURATION;
+        }
+        this.motions.setTickTime(this.tickAccumulator);
 
-        // Update explosion if active
-        this.updateExplosion(timestamp);
+        // The cave intro ends by itself after a moment, unless it has import warnings to read
+        if (this.state === 'caveIntro' && !menuOpen && timestamp - this.stateStartTime >= this.CAVE_INTRO_DURATION &&
+            this.getCaveWarnings().length === 0) {
+            this.enterState('playing');
+        }
 
-        // Update animation frame at fixed intervals
-        if (timestamp - this.lastAnimUpdate >= this.ANIM_FRAME_DURATION) {
-            // Only update animation when moving
-            if (this.playerAnimFrame > 0) {
-                this.playerAnimFrame = (this.playerAnimFrame + 1) % 4;
+        // Count the time left into the score, one second per step
+        if (this.tallying && !menuOpen && timestamp - this.lastTallyTime >= this.TALLY_STEP) {
+            this.lastTallyTime = timestamp;
+            if (this.simulation.tallyTimeBonus()) {
+                this.soundManager.play('tally');
+                this.checkExtraLife();
+            } else {
+                this.finishTally();
             }
-            this.lastAnimUpdate = timestamp;
         }
 
-        // Update physics at fixed intervals
-        if (timestamp - this.lastPhysicsUpdate >= this.PHYSICS_UPDATE_INTERVAL) {
-            this.updatePhysics();
-            this.lastPhysicsUpdate = timestamp;
+        // After losing a life the cave starts again by itself
+        if (this.state === 'gameOver' && this.usesLives() && this.lives > 0 && !this.isBonusCave() &&
+            !menuOpen && timestamp - this.stateStartTime >= this.LIFE_LOST_DELAY) {
+            this.continueAfterLostLife();
         }
 
+        // Move on to the next campaign cave once the result has been shown
+        if (this.isCampaignCaveOver() && !menuOpen && timestamp - this.stateStartTime >= this.CAVE_ADVANCE_DELAY) {
+            this.advanceCampaign();
+        }
+
+        this.caveRenderer.updateAnimation(timestamp);
+        const focus = this.getCameraFocus();
+        this.camera.follow(focus.x, focus.y, this.getDisplayedGrid(), deltaTime);
+        const renderStart = performance.now();
         this.render();
+        this.frameStats.record(deltaTime, performance.now() - renderStart);
+        if (this.frameStats.isShown()) {
+            this.frameStats.render(this.ctx, this.SCORE_AREA_HEIGHT);
+        }
 
         requestAnimationFrame(this.gameLoop.bind(this));
     }
@@ -546,472 +1032,206 @@ export class Game {
         this.ctx.fillStyle = '#000';
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
 
-        // Draw score area background
-        this.ctx.fillStyle = '#333';
-        this.ctx.fillRect(0, 0, this.canvas.width, this.SCORE_AREA_HEIGHT);
+        this.tileSprites.setPalette(this.mode === 'edit' ? this.editor.getCave().palette ?? null : this.cavePalette);
 
-        // Render score and diamond count in the score area
-        this.ctx.fillStyle = 'white';
-        this.ctx.font = '24px Arial';
-        this.ctx.textAlign = 'left';
-        this.ctx.fillText(`Score: ${this.score}`, 20, this.SCORE_AREA_HEIGHT/2 + 8);
-        
-        // Add time remaining display
-        const minutes = Math.floor(this.timeRemaining / 60);
-        const seconds = this.timeRemaining % 60;
-        const timeText = `Time: ${minutes}:${seconds.toString().padStart(2, '0')}`;
-        const timeColor = this.isTimeWarning ? (Math.floor(Date.now() / 500) % 2 === 0 ? '#FF0000' : '#FFFFFF') : '#FFFFFF';
-        this.ctx.fillStyle = timeColor;
-        this.ctx.textAlign = 'center';
-        this.ctx.fillText(timeText, this.canvas.width / 2, this.SCORE_AREA_HEIGHT/2 + 8);
-        
-        // Add diamond icon and count
-        this.ctx.fillStyle = '#00FFFF';
-        this.ctx.font = '24px Arial';
-        this.ctx.textAlign = 'right';
-        const diamondText = `💎 ${this.diamondsCollected}/${this.DIAMONDS_REQUIRED}`;
-        this.ctx.fillText(diamondText, this.canvas.width - 20, this.SCORE_AREA_HEIGHT/2 + 8);
-
-        // Create a clipping region for the game area
-        this.ctx.save();
-        this.ctx.beginPath();
-        this.ctx.rect(0, this.SCORE_AREA_HEIGHT, this.canvas.width, this.canvas.height - this.SCORE_AREA_HEIGHT);
-        this.ctx.clip();
-
-        // Translate for game area only
-        this.ctx.translate(
-            -this.cameraX * this.TILE_SIZE,
-            -this.cameraY * this.TILE_SIZE + this.SCORE_AREA_HEIGHT
-        );
-        
-        // Render the game grid
-        const startX = Math.floor(this.cameraX);
-        const startY = Math.floor(this.cameraY);
-        const endX = startX + this.VIEWPORT_WIDTH + 1;
-        const endY = startY + this.VIEWPORT_HEIGHT + 1;
-
-        for (let y = startY; y < endY; y++) {
-            for (let x = startX; x < endX; x++) {
-                if (this.grid.isInBounds(x, y)) {
-                    const tile = this.grid.getTile(x, y);
-                    this.renderTile(x, y, tile);
-                }
-            }
-        }
-
-        // Render the player if game is active
-        if (!this.gameOver && !this.gameWon) {
-            this.renderTile(this.playerX, this.playerY, TileType.PLAYER);
+        if (this.mode === 'edit') {
+            this.editor.render(this.ctx);
+            return;
         }
 
-        this.ctx.restore();
-
-        if (this.gameOver || this.gameWon) {
-            // Add semi-transparent overlay
-            this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-            this.ctx.fillRect(0, this.SCORE_AREA_HEIGHT, this.canvas.width, this.canvas.height - this.SCORE_AREA_HEIGHT);
-
-            // Center the messages in the play area
-            const centerX = this.canvas.width / 2;
-            const centerY = (this.canvas.height - this.SCORE_AREA_HEIGHT) / 2 + this.SCORE_AREA_HEIGHT;
+        renderScoreArea(this.ctx, this.SCORE_AREA_HEIGHT, this.simulation, {
+            score: this.getTotalScore(),
+            label: this.getCaveLabel(),
+            lives: this.usesLives() ? this.lives : null,
+            livesFlashing: performance.now() - this.extraLifeTime < this.EXTRA_LIFE_FLASH_DURATION
+        });
 
-            if (this.gameOver) {
-                this.ctx.fillStyle = 'white';
-                this.ctx.font = '48px Arial';
-                this.ctx.textAlign = 'center';
-                this.ctx.fillText('GAME OVER', centerX, centerY);
-                this.ctx.font = '24px Arial';
-                this.ctx.fillText('Press R to restart', centerX, centerY + 40);
+        this.caveRenderer.renderGameArea(this.simulation.getGrid(), () => {
+            // Render the player if game is active
+            if (this.isPlayerShown()) {
+                const player = this.getDrawnPlayerPosition();
+                this.caveRenderer.renderTile(player.x, player.y, TileType.PLAYER);
             }
+        });
 
-            if (this.gameWon) {
-                this.ctx.fillStyle = 'gold';
-                this.ctx.font = '48px Arial';
-                this.ctx.textAlign = 'center';
-                this.ctx.fillText('LEVEL COMPLETE!', centerX, centerY);
-                this.ctx.font = '24px Arial';
-                this.ctx.fillText(`Final Score: ${this.score}`, centerX, centerY + 40);
-                this.ctx.fillText('Press R to play again', centerX, centerY + 80);
+        // Holding the overview key shows the whole cave instead; otherwise the minimap sits in the corner
+        if (this.state !== 'title') {
+            this.minimap.reveal(
+                this.simulation.getGrid(), Math.floor(this.camera.getX()), Math.floor(this.camera.getY()),
+                this.VIEWPORT_WIDTH + 1, this.VIEWPORT_HEIGHT + 1
+            );
+            if (this.input.isHeld('overview')) {
+                this.renderOverview();
+            } else {
+                this.renderMinimap();
             }
         }
-    }
 
-    private renderTile(x: number, y: number, type: TileType): void {
-        const colors = {
-            [TileType.EMPTY]: '#000',
-            [TileType.DIRT]: '#8B4513',
-            [TileType.BOULDER]: '#808080',
-            [TileType.DIAMOND]: '#00FFFF',
-            [TileType.WALL]: '#696969',
-            [TileType.PLAYER]: '#FF0000',
-            [TileType.EXIT]: '#00FF00'  // Green color for exit
-        };
+        const result = this.getCaveResult();
+        if (result) {
+            renderCaveResult(this.ctx, this.SCORE_AREA_HEIGHT, result);
+        }
+
+        if (this.mode === 'replay') {
+            this.replayPlayer.renderBar(this.ctx, this.simulation.getTick());
+        }
 
-        // Draw explosion effect if active
-        if (this.gameOver && this.explosionRadius < this.explosionMaxRadius) {
-            const distance = Math.sqrt(
-                Math.pow(x - this.explosionX, 2) + 
-                Math.pow(y - this.explosionY, 2)
+        if (this.state === 'caveIntro') {
+            renderCaveIntro(this.ctx, this.SCORE_AREA_HEIGHT, this.simulation, this.getCaveLabel(), this.getCaveWarnings());
+        } else if (this.state === 'paused') {
+            this.menu.render(this.ctx, this.getMenuItems(), 'pause', 'PAUSED');
+        } else if (this.state === 'title') {
+            this.menu.render(
+                this.ctx, this.getMenuItems(), 'title', 'BOULDER DASH',
+                this.campaign ? this.campaign.getName() : this.getCaveLabel()
             );
-            
-            if (distance <= this.explosionRadius + 1) {
-                // Draw base tile first
-                this.ctx.fillStyle = colors[type];
-                this.ctx.fillRect(
-                    x * this.TILE_SIZE,
-                    y * this.TILE_SIZE,
-                    this.TILE_SIZE,
-                    this.TILE_SIZE
-                );
+        }
 
-                // Create multiple explosion layers
-                const centerX = (x + 0.5) * this.TILE_SIZE;
-                const centerY = (y + 0.5) * this.TILE_SIZE;
+        // The touch controls stay on top so menu screens can be used without a keyboard
+        this.getOpenScreen()?.render(this.ctx);
+        this.input.renderTouchControls(this.ctx);
+    }
 
-                // Inner bright explosion
-                const innerGradient = this.ctx.createRadialGradient(
-                    centerX, centerY, 0,
-                    centerX, centerY, this.TILE_SIZE * 0.8
-                );
-                innerGradient.addColorStop(0, 'rgba(255, 255, 200, 0.9)'); // Bright yellow core
-                innerGradient.addColorStop(0.2, 'rgba(255, 150, 50, 0.8)'); // Orange
-                innerGradient.addColorStop(0.5, 'rgba(255, 50, 50, 0.6)');  // Red
-                innerGradient.addColorStop(1, 'rgba(100, 0, 0, 0)');        // Dark red fade
-
-                // Outer fire effect
-                const outerGradient = this.ctx.createRadialGradient(
-                    centerX, centerY, 0,
-                    centerX, centerY, this.TILE_SIZE
-                );
-                outerGradient.addColorStop(0, 'rgba(255, 100, 0, 0.4)');    // Orange core
-                outerGradient.addColorStop(0.6, 'rgba(255, 50, 0, 0.2)');   // Red
-                outerGradient.addColorStop(1, 'rgba(50, 0, 0, 0)');         // Dark fade
-
-                // Draw particle effects
-                const particleCount = 5;
-                const angleStep = (Math.PI * 2) / particleCount;
-                const explosionProgress = this.explosionFrame / (this.explosionMaxRadius * 2);
-                
-                this.ctx.save();
-                for (let i = 0; i < particleCount; i++) {
-                    const angle = i * angleStep + (explosionProgress * Math.PI);
-                    const radius = this.TILE_SIZE * 0.7 * explosionProgress;
-                    const particleX = centerX + Math.cos(angle) * radius;
-                    const particleY = centerY + Math.sin(angle) * radius;
-                    
-                    const particleGradient = this.ctx.createRadialGradient(
-                        particleX, particleY, 0,
-                        particleX, particleY, this.TILE_SIZE * 0.3
-                    );
-                    particleGradient.addColorStop(0, 'rgba(255, 200, 0, 0.8)');
-                    particleGradient.addColorStop(0.5, 'rgba(255, 100, 0, 0.4)');
-                    particleGradient.addColorStop(1, 'rgba(200, 0, 0, 0)');
-                    
-                    this.ctx.fillStyle = particleGradient;
-                    this.ctx.beginPath();
-                    this.ctx.arc(particleX, particleY, this.TILE_SIZE * 0.3, 0, Math.PI * 2);
-                    this.ctx.fill();
-                }
-                this.ctx.restore();
-
-                // Draw main explosion gradients
-                this.ctx.fillStyle = innerGradient;
-                this.ctx.fillRect(
-                    x * this.TILE_SIZE,
-                    y * this.TILE_SIZE,
-                    this.TILE_SIZE,
-                    this.TILE_SIZE
-                );
+    private renderMinimap(): void {
+        const grid = this.simulation.getGrid();
+        const exitX = this.simulation.getExitX();
+        const exitY = this.simulation.getExitY();
+        const exitOpen = grid.isInBounds(exitX, exitY) && grid.getTile(exitX, exitY) === TileType.EXIT;
+        this.minimap.draw(this.ctx, grid, this.SCORE_AREA_HEIGHT, type => this.tileSprites.getMapColor(type), {
+            player: this.isPlayerShown() ? this.getDrawnPlayerPosition() : null,
+            exit: exitOpen ? { x: exitX, y: exitY } : null,
+            view: this.getView()
+        });
+    }
 
-                this.ctx.fillStyle = outerGradient;
-                this.ctx.fillRect(
-                    x * this.TILE_SIZE,
-                    y * this.TILE_SIZE,
-                    this.TILE_SIZE,
-                    this.TILE_SIZE
-                );
+    private renderOverview(): void {
+        this.minimap.drawOverview(
+            this.ctx, this.simulation.getGrid(), this.SCORE_AREA_HEIGHT, this.TILE_SIZE,
+            (x, y, type) => this.caveRenderer.renderTile(x, y, type), this.isPlayerShown() ? this.getDrawnPlayerPosition() : null,
+            this.getView()
+        );
+    }
 
-                return;
-            }
-        }
+    // The part of the cave on screen
+    private getView(): { x: number; y: number; width: number; height: number } {
+        return { x: this.camera.getX(), y: this.camera.getY(), width: this.camera.width, height: this.camera.height };
+    }
 
-        // Regular tile rendering
-        if (type === TileType.PLAYER) {
-            // Calculate center position of the tile
-            const centerX = (x * this.TILE_SIZE) + (this.TILE_SIZE / 2);
-            const centerY = (y * this.TILE_SIZE) + (this.TILE_SIZE / 2);
-            const size = this.TILE_SIZE * 0.8; // Slightly smaller than tile
+    // Where the player is drawn, part way between cells while walking
+    private getDrawnPlayerPosition(): { x: number; y: number } {
+        return this.motions.getPlayerPosition(this.simulation);
+    }
 
-            this.ctx.save();  // Save current context state
-            
-            // If facing left, flip the drawing
-            if (this.playerFacingLeft) {
-                this.ctx.translate(centerX * 2, 0);
-                this.ctx.scale(-1, 1);
-            }
+    private isPlayerShown(): boolean {
+        return !this.simulation.isGameOver() && !this.simulation.isGameWon();
+    }
 
-            // Draw the miner character
-            this.ctx.strokeStyle = '#000000';
-            this.ctx.lineWidth = 2;
-            this.ctx.fillStyle = '#FFB6C1';  // Light pink for skin tone
-
-            // Head
-            const headRadius = size * 0.2;
-            this.ctx.beginPath();
-            this.ctx.arc(centerX, centerY - (size * 0.25), headRadius, 0, Math.PI * 2);
-            this.ctx.fill();
-            this.ctx.stroke();
-
-            // Hard hat
-            this.ctx.fillStyle = '#FFD700';  // Gold color for hat
-            this.ctx.beginPath();
-            this.ctx.arc(centerX, centerY - (size * 0.25) - (headRadius * 0.2), headRadius * 1.1, Math.PI, 2 * Math.PI);
-            this.ctx.fill();
-            this.ctx.stroke();
-
-            // Body
-            this.ctx.fillStyle = '#4169E1';  // Royal blue for clothes
-            this.ctx.beginPath();
-            this.ctx.moveTo(centerX - (size * 0.2), centerY - (size * 0.1));
-            this.ctx.lineTo(centerX + (size * 0.2), centerY - (size * 0.1));
-            this.ctx.lineTo(centerX + (size * 0.15), centerY + (size * 0.3));
-            this.ctx.lineTo(centerX - (size * 0.15), centerY + (size * 0.3));
-            this.ctx.closePath();
-            this.ctx.fill();
-            this.ctx.stroke();
-
-            // Arms with animation
-            const armAngle = Math.sin((this.playerAnimFrame / 4) * Math.PI * 2) * 0.2;
-            
-            // Left arm
-            this.ctx.beginPath();
-            this.ctx.moveTo(centerX - (size * 0.2), centerY);
-            this.ctx.lineTo(centerX - (size * 0.35), centerY + (size * 0.15) + (armAngle * size));
-            this.ctx.lineTo(centerX - (size * 0.3), centerY + (size * 0.15) + (armAngle * size));
-            this.ctx.lineTo(centerX - (size * 0.15), centerY);
-            this.ctx.closePath();
-            this.ctx.fill();
-            
-            // Right arm
-            this.ctx.beginPath();
-            this.ctx.moveTo(centerX + (size * 0.2), centerY);
-            this.ctx.lineTo(centerX + (size * 0.35), centerY + (size * 0.15) - (armAngle * size));
-            this.ctx.lineTo(centerX + (size * 0.3), centerY + (size * 0.15) - (armAngle * size));
-            this.ctx.lineTo(centerX + (size * 0.15), centerY);
-            this.ctx.closePath();
-            this.ctx.fill();
-
-            // Legs with animation
-            const legOffset = Math.sin((this.playerAnimFrame / 4) * Math.PI * 2) * 0.1;
-            this.ctx.fillStyle = '#4169E1';  // Royal blue for clothes (matching body)
-            
-            // Left leg
-            this.ctx.beginPath();
-            this.ctx.moveTo(centerX - (size * 0.15), centerY + (size * 0.3));
-            this.ctx.lineTo(centerX - (size * 0.2), centerY + (size * 0.45) + (legOffset * size));
-            this.ctx.lineTo(centerX - (size * 0.15), centerY + (size * 0.45) + (legOffset * size));
-            this.ctx.lineTo(centerX - (size * 0.1), centerY + (size * 0.3));
-            this.ctx.closePath();
-            this.ctx.fill();
-            this.ctx.stroke();
-            
-            // Right leg
-            this.ctx.beginPath();
-            this.ctx.moveTo(centerX + (size * 0.15), centerY + (size * 0.3));
-            this.ctx.lineTo(centerX + (size * 0.2), centerY + (size * 0.45) - (legOffset * size));
-            this.ctx.lineTo(centerX + (size * 0.15), centerY + (size * 0.45) - (legOffset * size));
-            this.ctx.lineTo(centerX + (size * 0.1), centerY + (size * 0.3));
-            this.ctx.closePath();
-            this.ctx.fill();
-            this.ctx.stroke();
-
-            this.ctx.restore();  // Restore context state
-        } else if (type === TileType.BOULDER) {
-            // Calculate center and size for the boulder
-            const centerX = (x * this.TILE_SIZE) + (this.TILE_SIZE / 2);
-            const centerY = (y * this.TILE_SIZE) + (this.TILE_SIZE / 2);
-            const radius = this.TILE_SIZE * 0.49;
-
-            // Draw boulder shadow
-            this.ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
-            this.ctx.beginPath();
-            this.ctx.ellipse(
-                centerX + 2,
-                centerY + 4,
-                radius * 0.9,
-                radius * 0.4,
-                0,
-                0,
-                Math.PI * 2
-            );
-            this.ctx.fill();
+    // F cycles the frame stats: shown with dirty-region rendering, shown with full redraws, hidden
+    private cycleFrameStats(): void {
+        this.frameStats.cycle();
+        this.caveRenderer.setDirtyRendering(this.frameStats.isDirtyRendering());
+    }
 
-            // Create gradient for 3D effect
-            const gradient = this.ctx.createRadialGradient(
-                centerX - radius * 0.3, centerY - radius * 0.3, 0,
-                centerX, centerY, radius * 1.2
-            );
-            gradient.addColorStop(0, '#A0A0A0');  // Light gray
-            gradient.addColorStop(0.5, '#808080'); // Medium gray
-            gradient.addColorStop(1, '#505050');   // Dark gray
-
-            // Draw main boulder circle
-            this.ctx.fillStyle = gradient;
-            this.ctx.beginPath();
-            this.ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-            this.ctx.fill();
-
-            // Add highlights
-            this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-            this.ctx.lineWidth = 2;
-            this.ctx.beginPath();
-            this.ctx.arc(centerX - radius * 0.2, centerY - radius * 0.2, radius * 0.8, Math.PI * 1.2, Math.PI * 1.6);
-            this.ctx.stroke();
-
-            // Add some texture/cracks
-            this.ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
-            this.ctx.lineWidth = 1;
-            this.ctx.beginPath();
-            this.ctx.moveTo(centerX - radius * 0.5, centerY - radius * 0.3);
-            this.ctx.lineTo(centerX + radius * 0.2, centerY + radius * 0.3);
-            this.ctx.moveTo(centerX + radius * 0.4, centerY - radius * 0.4);
-            this.ctx.lineTo(centerX - radius * 0.1, centerY + radius * 0.5);
-            this.ctx.stroke();
-
-        } else if (type === TileType.DIAMOND) {
-            const centerX = (x * this.TILE_SIZE) + (this.TILE_SIZE / 2);
-            const centerY = (y * this.TILE_SIZE) + (this.TILE_SIZE / 2);
-            const size = this.TILE_SIZE * 0.45;
-
-            // Add outer glow first (behind the diamond)
-            const glowGradient = this.ctx.createRadialGradient(
-                centerX, centerY, 0,
-                centerX, centerY, size * 2
-            );
-            glowGradient.addColorStop(0, 'rgba(0, 255, 255, 0.5)');
-            glowGradient.addColorStop(0.5, 'rgba(0, 255, 255, 0.2)');
-            glowGradient.addColorStop(1, 'rgba(0, 255, 255, 0)');
-            this.ctx.fillStyle = glowGradient;
-            this.ctx.beginPath();
-            this.ctx.arc(centerX, centerY, size * 2, 0, Math.PI * 2);
-            this.ctx.fill();
-
-            // Create gradient for diamond
-            const gradient = this.ctx.createLinearGradient(
-                centerX - size, centerY - size,
-                centerX + size, centerY + size
-            );
-            gradient.addColorStop(0, '#80FFFF');   // Lighter cyan
-            gradient.addColorStop(0.3, '#40FFFF'); // Light cyan
-            gradient.addColorStop(0.6, '#00FFFF'); // Cyan
-            gradient.addColorStop(1, '#00C0C0');   // Darker cyan
-
-            // Draw diamond shape
-            this.ctx.fillStyle = gradient;
-            this.ctx.beginPath();
-            this.ctx.moveTo(centerX, centerY - size);        // Top point
-            this.ctx.lineTo(centerX + size, centerY);        // Right point
-            this.ctx.lineTo(centerX, centerY + size);        // Bottom point
-            this.ctx.lineTo(centerX - size, centerY);        // Left point
-            this.ctx.closePath();
-            this.ctx.fill();
-
-            // Add sparkle effect
-            this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
-            this.ctx.lineWidth = 2;
-            this.ctx.beginPath();
-            this.ctx.moveTo(centerX - size * 0.3, centerY - size * 0.3);
-            this.ctx.lineTo(centerX + size * 0.3, centerY + size * 0.3);
-            this.ctx.moveTo(centerX + size * 0.3, centerY - size * 0.3);
-            this.ctx.lineTo(centerX - size * 0.3, centerY + size * 0.3);
-            this.ctx.stroke();
-
-            // Add highlight
-            this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
-            this.ctx.lineWidth = 1;
-            this.ctx.beginPath();
-            this.ctx.arc(centerX - size * 0.2, centerY - size * 0.2, size * 0.3, 0, Math.PI * 2);
-            this.ctx.stroke();
-
-        } else if (type === TileType.EXIT) {
-            const centerX = (x * this.TILE_SIZE) + (this.TILE_SIZE / 2);
-            const centerY = (y * this.TILE_SIZE) + (this.TILE_SIZE / 2);
-            const size = this.TILE_SIZE * 0.8;
-
-            // Calculate animation progress
-            const timeSinceAppear = performance.now() - this.exitAppearTime;
-            const appearProgress = Math.min(1, timeSinceAppear / this.EXIT_APPEAR_DELAY);
-            
-            // Create portal effect
-            const portalGradient = this.ctx.createRadialGradient(
-                centerX, centerY, 0,
-                centerX, centerY, size * appearProgress
-            );
-            portalGradient.addColorStop(0, '#00FF00');  // Bright green center
-            portalGradient.addColorStop(0.6, '#008000'); // Darker green
-            portalGradient.addColorStop(1, '#004000');   // Even darker green
-
-            // Draw swirling portal
-            this.ctx.save();
-            this.ctx.translate(centerX, centerY);
-            this.ctx.rotate(performance.now() / 1000);  // Rotate based on time
-
-            // Draw multiple arcs for swirl effect
-            for (let i = 0; i < 4; i++) {
-                const rotation = (Math.PI / 2) * i + (performance.now() / 1000);
-                this.ctx.beginPath();
-                this.ctx.arc(0, 0, size * 0.5 * appearProgress, rotation, rotation + Math.PI * 0.3);
-                this.ctx.strokeStyle = `rgba(0, 255, 0, ${0.7 - i * 0.15})`;
-                this.ctx.lineWidth = 3;
-                this.ctx.stroke();
-            }
+    // Problems found importing the cave being played
+    private getCaveWarnings(): string[] {
+        if (this.mode !== 'play') {
+            return [];
+        }
+        if (this.campaign) {
+            return this.campaign.getCaveWarnings(this.campaignCave);
+        }
+        return this.fixedCave ? this.fixedCaveWarnings : [];
+    }
 
-            this.ctx.restore();
+    private describeGeneratorOptions(options: GeneratorOptions): string {
+        return `${CAVE_STRATEGIES[options.generator].label}, ${DIFFICULTY_PROFILES[options.difficulty].label.toLowerCase()}`;
+    }
 
-            // Draw the main portal
-            this.ctx.fillStyle = portalGradient;
-            this.ctx.beginPath();
-            this.ctx.arc(centerX, centerY, size * 0.5 * appearProgress, 0, Math.PI * 2);
-            this.ctx.fill();
+    private getCaveLabel(): string {
+        if (this.mode === 'replay') {
+            const replay = this.replayPlayer.getReplay();
+            if (replay.getCaveText() === null) {
+                return `Replay: Seed ${replay.getSeed()} (${this.describeGeneratorOptions(replay.getGeneratorOptions())})`;
+            }
+            return `Replay: ${replay.getName() ?? `Seed ${replay.getSeed()}`}`;
+        }
+        if (this.mode === 'test') {
+            return `Testing: ${this.editor.getCave().name ?? 'unnamed cave'}`;
+        }
+        if (this.campaign) {
+            const bonus = this.campaign.isIntermission(this.campaignCave) ? ' (bonus)' : '';
+            return `Cave ${this.campaignCave + 1}: ${this.campaign.getCaveName(this.campaignCave)}${bonus}`;
+        }
+        if (this.fixedCave?.name) {
+            return this.fixedCave.name;
+        }
+        return `Seed: ${this.seed} (${this.describeGeneratorOptions(this.generatorOptions)})`;
+    }
 
-            // Add glow effect
-            const glowSize = size * (0.7 + Math.sin(performance.now() / 500) * 0.1);
-            const glowGradient = this.ctx.createRadialGradient(
-                centerX, centerY, 0,
-                centerX, centerY, glowSize
-            );
-            glowGradient.addColorStop(0, 'rgba(0, 255, 0, 0.2)');
-            glowGradient.addColorStop(1, 'rgba(0, 255, 0, 0)');
-            this.ctx.fillStyle = glowGradient;
-            this.ctx.beginPath();
-            this.ctx.arc(centerX, centerY, glowSize, 0, Math.PI * 2);
-            this.ctx.fill();
+    // What the overlay says once the cave is lost or completed
+    private getCaveResult(): CaveResult | null {
+        if (this.state === 'gameOver') {
+            const bonusOver = this.isBonusCave();
+            const lifeLost = !bonusOver && this.usesLives() && this.lives > 0;
+            let hint = this.getRetryHint();
+            if (bonusOver) {
+                hint = 'On to the next cave...';
+            } else if (lifeLost) {
+                hint = `${this.lives} ${this.lives === 1 ? 'life' : 'lives'} left, try again...`;
+            }
+            return {
+                title: bonusOver ? 'BONUS CAVE OVER' : lifeLost ? 'LIFE LOST' : 'GAME OVER',
+                color: 'white',
+                lines: [hint]
+            };
+        }
 
-            return;
-        } else {
-            // Only draw non-empty tiles
-            if (type !== TileType.EMPTY) {
-                this.ctx.fillStyle = colors[type];
-                this.ctx.fillRect(
-                    x * this.TILE_SIZE,
-                    y * this.TILE_SIZE,
-                    this.TILE_SIZE,
-                    this.TILE_SIZE
-                );
+        if (this.state !== 'caveComplete') {
+            return null;
+        }
+        if (this.campaignComplete) {
+            return {
+                title: 'CAMPAIGN COMPLETE!',
+                color: 'gold',
+                lines: [
+                    `Final Score: ${this.getTotalScore()}`,
+                    `Press ${this.controls.describeAction('restart')} to play the campaign again, ${this.controls.describeAction('caveSelect')} to choose a cave`
+                ]
+            };
+        }
+        if (this.campaign && this.mode === 'play') {
+            const isLast = this.campaignCave + 1 >= this.campaign.getCaveCount();
+            return {
+                title: 'CAVE COMPLETE!',
+                color: 'gold',
+                lines: [
+                    `Score: ${this.getTotalScore()}`,
+                    isLast ? 'That was the last cave...' : `Next: ${this.campaign.getCaveName(this.campaignCave + 1)}`
+                ]
+            };
+        }
+        return {
+            title: 'LEVEL COMPLETE!',
+            color: 'gold',
+            lines: [`Final Score: ${this.getTotalScore()}`, this.getRetryHint()]
+        };
+    }
 
-                // Only add borders to walls and dirt
-                if (type === TileType.WALL || type === TileType.DIRT) {
-                    this.ctx.strokeStyle = '#333';
-                    this.ctx.lineWidth = 1;
-                    this.ctx.strokeRect(
-                        x * this.TILE_SIZE,
-                        y * this.TILE_SIZE,
-                        this.TILE_SIZE,
-                        this.TILE_SIZE
-                    );
-                }
-            }
+    private getRetryHint(): string {
+        if (this.mode === 'replay') {
+            return `Press ${this.controls.describeAction('restart')} to watch again, Esc to stop watching`;
+        }
+        const restartKey = this.controls.describeAction('restart');
+        if (this.mode === 'test') {
+            return `Press ${restartKey} to retry, Esc to return to the editor`;
+        }
+        if (this.campaign) {
+            return `Press ${restartKey} to play again, ${this.controls.describeAction('caveSelect')} to choose a cave`;
+        }
+        if (this.fixedCave) {
+            return `Press ${restartKey} to play again`;
         }
+        return `Press ${restartKey} to play again, ${this.controls.describeAction('newCave')} for a new cave`;
     }
 
     public getSoundManager(): SoundManager {
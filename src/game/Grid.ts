@@ -17,7 +17,7 @@ export class Grid {
         if (this.isInBounds(x, y)) {
             return this.grid[y][x];
         }
-        return TileType.WALL; // Out of bounds is considered a wall
+        return TileType.STEEL_WALL; // Out of bounds is considered a wall
     }
 
     public setTile(x: number, y: number, type: TileType): void {
@@ -37,4 +37,10 @@ export class Grid {
     public getHeight(): number {
         return this.height;
     }
+
+    public clone(): Grid {
+        const copy = new Grid(this.width, this.height);
+        copy.grid = this.grid.map(row => [...row]);
+        return copy;
+    }
 } 
\ No newline at end of file
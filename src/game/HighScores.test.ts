@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HighScoreEntry, HighScores } from './HighScores';
+
+function entry(name: string, score: number, timeLeft: number = 0): HighScoreEntry {
+    return { name, score, timeLeft, date: '2026-01-01T00:00:00.000Z' };
+}
+
+// An export holding the given tables, as another browser would write it
+function exportOf(tables: { [caveId: string]: HighScoreEntry[] }): string {
+    const exported = Object.fromEntries(
+        Object.entries(tables).map(([caveId, entries]) => [caveId, { label: `Cave ${caveId}`, entries }])
+    );
+    return JSON.stringify({ format: 'boulder-dash-highscores', version: 1, tables: exported });
+}
+
+describe('HighScores', () => {
+    beforeEach(() => {
+        const storage = new Map<string, string>();
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value)
+        });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('merges overlapping tables without duplicates, best score first', () => {
+        const scores = new HighScores();
+        scores.add('a', 'Cave a', entry('Ann', 300));
+        scores.add('a', 'Cave a', entry('Bob', 100));
+
+        const added = scores.merge(exportOf({
+            a: [entry('Ann', 300), entry('Cid', 200), entry('Dee', 200, 30)],
+            b: [entry('Eve', 50)]
+        }));
+
+        expect(added).toBe(3);
+        expect(scores.getEntries('a').map(e => e.name)).toEqual(['Ann', 'Dee', 'Cid', 'Bob']);
+        expect(scores.getEntries('b').map(e => e.name)).toEqual(['Eve']);
+        // Merging the same file again adds nothing
+        expect(scores.merge(exportOf({ a: [entry('Cid', 200)] }))).toBe(0);
+        // and the merged tables are saved
+        expect(new HighScores().getEntries('a')).toEqual(scores.getEntries('a'));
+    });
+
+    it('keeps only the best entries when a merge overfills a table', () => {
+        const scores = new HighScores();
+        for (let i = 1; i <= HighScores.MAX_ENTRIES; i++) {
+            scores.add('a', 'Cave a', entry(`Own ${i}`, i * 10));
+        }
+
+        scores.merge(exportOf({ a: [entry('Top', 1000), entry('Low', 5), entry('Mid', 55)] }));
+
+        const table = scores.getEntries('a');
+        expect(table).toHaveLength(HighScores.MAX_ENTRIES);
+        expect(table.map(e => e.score)).toEqual([1000, 100, 90, 80, 70, 60, 55, 50, 40, 30]);
+        expect(scores.qualifies('a', 30)).toBe(false);
+        expect(scores.qualifies('a', 31)).toBe(true);
+    });
+
+    it('rejects files that are not high score exports', () => {
+        const scores = new HighScores();
+
+        expect(() => scores.merge('[')).toThrow(/not valid JSON/);
+        expect(() => scores.merge(JSON.stringify({ format: 'boulder-dash-save' }))).toThrow(/Not a high score file/);
+        expect(() => scores.merge(exportOf({ a: [entry('Ann', 1)] }).replace('"Ann"', '7')))
+            .toThrow(/malformed entry/);
+    });
+});
@@ -0,0 +1,172 @@
+/*
+ * Local high-score tables, one per cave, persisted in localStorage. Tables can be exported
+ * as JSON and merged into the tables of another browser.
+ */
+
+export interface HighScoreEntry {
+    name: string;
+    score: number;
+    timeLeft: number;  // Seconds left on the clock when the cave was completed
+    date: string;  // ISO date
+}
+
+interface HighScoreTable {
+    label: string;  // Cave description shown above the table
+    entries: HighScoreEntry[];
+}
+
+interface HighScoreFile {
+    format: string;
+    version: number;
+    tables: { [caveId: string]: HighScoreTable };
+}
+
+const FORMAT = 'boulder-dash-highscores';
+const VERSION = 1;
+
+export class HighScores {
+    public static readonly MAX_ENTRIES = 10;
+    public static readonly MAX_NAME_LENGTH = 12;
+    private static readonly STORAGE_KEY = 'boulderdash.highscores';
+    private static readonly NAME_KEY = 'boulderdash.playerName';
+    private tables: { [caveId: string]: HighScoreTable } = {};
+
+    constructor() {
+        this.load();
+    }
+
+    // Caves with at least one score, in label order
+    public getCaveIds(): string[] {
+        return Object.keys(this.tables).sort((a, b) => this.tables[a].label.localeCompare(this.tables[b].label));
+    }
+
+    public getLabel(caveId: string): string {
+        return this.tables[caveId]?.label ?? caveId;
+    }
+
+    public getEntries(caveId: string): HighScoreEntry[] {
+        return this.tables[caveId]?.entries ?? [];
+    }
+
+    // Whether a score would make it into the cave's table
+    public qualifies(caveId: string, score: number): boolean {
+        const entries = this.getEntries(caveId);
+        return entries.length < HighScores.MAX_ENTRIES || score > entries[entries.length - 1].score;
+    }
+
+    // Adds an entry and returns its place in the table (0-based), or -1 if it didn't make it
+    public add(caveId: string, label: string, entry: HighScoreEntry): number {
+        const table = this.tables[caveId] ?? { label, entries: [] };
+        table.label = label;
+        table.entries.push(entry);
+        HighScores.sortAndTrim(table);
+        this.tables[caveId] = table;
+        this.save();
+        return table.entries.indexOf(entry);
+    }
+
+    public toText(): string {
+        const file: HighScoreFile = { format: FORMAT, version: VERSION, tables: this.tables };
+        return JSON.stringify(file, null, 2) + '\n';
+    }
+
+    /**
+     * Merges exported tables into these ones, skipping entries that are already present.
+     * Returns the number of entries added; throws an Error describing the problem on bad input.
+     */
+    public merge(text: string): number {
+        const tables = HighScores.parseTables(text);
+        let added = 0;
+
+        for (const [caveId, imported] of Object.entries(tables)) {
+            const table = this.tables[caveId] ?? { label: imported.label, entries: [] };
+            for (const entry of imported.entries) {
+                const duplicate = table.entries.some(existing =>
+                    existing.name === entry.name && existing.score === entry.score &&
+                    existing.timeLeft === entry.timeLeft && existing.date === entry.date
+                );
+                if (!duplicate) {
+                    table.entries.push(entry);
+                    added++;
+                }
+            }
+            HighScores.sortAndTrim(table);
+            this.tables[caveId] = table;
+        }
+
+        this.save();
+        return added;
+    }
+
+    public getPlayerName(): string {
+        try {
+            return localStorage.getItem(HighScores.NAME_KEY) ?? '';
+        } catch {
+            return '';
+        }
+    }
+
+    public setPlayerName(name: string): void {
+        try {
+            localStorage.setItem(HighScores.NAME_KEY, name);
+        } catch (error) {
+            console.error('Error saving player name:', error);
+        }
+    }
+
+    // Best score first; ties go to the faster run, then to whoever got there first
+    private static sortAndTrim(table: HighScoreTable): void {
+        table.entries.sort((a, b) => b.score - a.score || b.timeLeft - a.timeLeft || a.date.localeCompare(b.date));
+        table.entries.length = Math.min(table.entries.length, HighScores.MAX_ENTRIES);
+    }
+
+    private static parseTables(text: string): { [caveId: string]: HighScoreTable } {
+        let file: Partial<HighScoreFile>;
+        try {
+            file = JSON.parse(text);
+        } catch {
+            throw new Error('High score file is not valid JSON');
+        }
+        if (file.format !== FORMAT) {
+            throw new Error('Not a high score file');
+        }
+        if (file.version !== VERSION) {
+            throw new Error(`Unsupported high score version ${file.version}`);
+        }
+        if (!file.tables || typeof file.tables !== 'object') {
+            throw new Error('High score file has no tables');
+        }
+
+        for (const [caveId, table] of Object.entries(file.tables)) {
+            if (typeof table.label !== 'string' || !Array.isArray(table.entries)) {
+                throw new Error(`High score table "${caveId}" is malformed`);
+            }
+            for (const entry of table.entries) {
+                if (typeof entry.name !== 'string' || typeof entry.score !== 'number' ||
+                    typeof entry.timeLeft !== 'number' || typeof entry.date !== 'string') {
+                    throw new Error(`High score table "${caveId}" has a malformed entry`);
+                }
+            }
+        }
+        return file.tables;
+    }
+
+    private load(): void {
+        try {
+            const text = localStorage.getItem(HighScores.STORAGE_KEY);
+            if (text !== null) {
+                this.tables = HighScores.parseTables(text);
+            }
+        } catch (error) {
+            console.error('Error loading high scores:', error);
+        }
+    }
+
+    private save(): void {
+        try {
+            localStorage.setItem(HighScores.STORAGE_KEY, this.toText());
+        } catch (error) {
+            console.error('Error saving high scores:', error);
+        }
+    }
+}
@@ -0,0 +1,270 @@
+import { HighScores } from './HighScores';
+import { Action } from './Controls';
+
+// Score of a completed cave waiting for the player's name
+export interface HighScoreOffer {
+    caveId: string;
+    label: string;
+    score: number;
+    timeLeft: number;
+}
+
+/*
+ * The high-score screens: asking for a name when a completed cave earns a place in its
+ * table, and browsing the tables cave by cave, with export and import of the tables.
+ */
+export class HighScoresScreen {
+    private readonly highScores: HighScores;
+    private readonly top: number;  // Top of the area the screen covers, below the score area
+    private nameEntry: HighScoreOffer | null = null;  // Score waiting for a name
+    private nameEntryText: string = '';
+    private tablesOpen: boolean = false;
+    private caveIndex: number = 0;  // Cave whose table is shown
+    private highlight: { caveId: string; rank: number } | null = null;  // Entry just added
+    private message: string = '';
+
+    constructor(highScores: HighScores, top: number) {
+        this.highScores = highScores;
+        this.top = top;
+    }
+
+    public isOpen(): boolean {
+        return this.nameEntry !== null || this.tablesOpen;
+    }
+
+    // Asks for a name if the score earns a place in its table
+    public offer(entry: HighScoreOffer): void {
+        if (!this.highScores.qualifies(entry.caveId, entry.score)) {
+            return;
+        }
+        this.nameEntry = entry;
+        this.nameEntryText = this.highScores.getPlayerName();
+    }
+
+    // Shows the tables, starting at the given cave's table or the one of a just-added entry
+    public showTables(caveId: string, highlight: { caveId: string; rank: number } | null = null): void {
+        this.tablesOpen = true;
+        this.highlight = highlight;
+        this.message = '';
+        this.caveIndex = Math.max(0, this.highScores.getCaveIds().indexOf(highlight?.caveId ?? caveId));
+    }
+
+    public handleKey(event: KeyboardEvent): void {
+        if (this.nameEntry) {
+            this.handleNameEntryKey(event, this.nameEntry);
+            return;
+        }
+
+        switch (event.code) {
+            case 'ArrowLeft':
+                this.handleAction('left');
+                break;
+            case 'ArrowRight':
+                this.handleAction('right');
+                break;
+            case 'KeyX':
+                this.exportTables();
+                break;
+            case 'KeyI':
+                this.importTables();
+                break;
+            case 'Escape':
+            case 'Enter':
+                this.handleAction('pause');
+                break;
+        }
+    }
+
+    /**
+     * Gamepad and touch presses, for players without a keyboard: snap saves the name as it
+     * stands (the last one used) and pause skips it; in the tables any direction changes the
+     * cave and snap or pause closes them.
+     */
+    public handleAction(action: Action): void {
+        if (this.nameEntry) {
+            if (action === 'snap') {
+                this.saveName(this.nameEntry);
+            } else if (action === 'pause') {
+                this.nameEntry = null;
+            }
+            return;
+        }
+
+        const caveCount = this.highScores.getCaveIds().length;
+        switch (action) {
+            case 'left':
+            case 'up':
+                if (caveCount > 0) {
+                    this.caveIndex = (this.caveIndex + caveCount - 1) % caveCount;
+                }
+                break;
+            case 'right':
+            case 'down':
+                if (caveCount > 0) {
+                    this.caveIndex = (this.caveIndex + 1) % caveCount;
+                }
+                break;
+            case 'snap':
+            case 'pause':
+                this.tablesOpen = false;
+                this.highlight = null;
+                break;
+        }
+    }
+
+    private handleNameEntryKey(event: KeyboardEvent, entry: HighScoreOffer): void {
+        event.preventDefault();
+
+        if (event.key === 'Enter') {
+            this.saveName(entry);
+        } else if (event.key === 'Escape') {
+            this.nameEntry = null;
+        } else if (event.key === 'Backspace') {
+            this.nameEntryText = this.nameEntryText.slice(0, -1);
+        } else if (event.key.length === 1 && this.nameEntryText.length < HighScores.MAX_NAME_LENGTH) {
+            this.nameEntryText += event.key;
+        }
+    }
+
+    private saveName(entry: HighScoreOffer): void {
+        const name = this.nameEntryText.trim() || 'Anonymous';
+        this.highScores.setPlayerName(name);
+        const rank = this.highScores.add(entry.caveId, entry.label, {
+            name,
+            score: entry.score,
+            timeLeft: entry.timeLeft,
+            date: new Date().toISOString()
+        });
+        this.nameEntry = null;
+        this.showTables(entry.caveId, { caveId: entry.caveId, rank });
+    }
+
+    private exportTables(): void {
+        const blob = new Blob([this.highScores.toText()], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = 'boulder-dash-highscores.json';
+        link.click();
+        URL.revokeObjectURL(link.href);
+    }
+
+    // Merges an exported high-score file into the local tables
+    private importTables(): void {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.json,application/json';
+        input.addEventListener('change', () => {
+            const file = input.files?.[0];
+            if (!file) {
+                return;
+            }
+            file.text().then(text => {
+                const added = this.highScores.merge(text);
+                this.message = added === 1 ? 'Merged 1 new score' : `Merged ${added} new scores`;
+            }).catch(error => {
+                this.message = `Could not import: ${error instanceof Error ? error.message : String(error)}`;
+            });
+        });
+        input.click();
+    }
+
+    public render(ctx: CanvasRenderingContext2D): void {
+        if (this.nameEntry) {
+            this.renderNameEntry(ctx, this.nameEntry);
+        } else if (this.tablesOpen) {
+            this.renderTables(ctx);
+        }
+    }
+
+    private renderNameEntry(ctx: CanvasRenderingContext2D, entry: HighScoreOffer): void {
+        const { width, height } = ctx.canvas;
+        const centerX = width / 2;
+        const centerY = (height - this.top) / 2 + this.top;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.9)';
+        ctx.fillRect(0, this.top, width, height - this.top);
+
+        ctx.textAlign = 'center';
+        ctx.fillStyle = 'gold';
+        ctx.font = '48px Arial';
+        ctx.fillText('NEW HIGH SCORE!', centerX, centerY - 100);
+        ctx.fillStyle = 'white';
+        ctx.font = '24px Arial';
+        ctx.fillText(`${entry.label} · Score ${entry.score} · ${entry.timeLeft}s left`, centerX, centerY - 50);
+
+        // Name with a blinking cursor
+        const cursor = Math.floor(Date.now() / 500) % 2 === 0 ? '_' : ' ';
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+        ctx.fillRect(centerX - 200, centerY - 10, 400, 56);
+        ctx.fillStyle = 'gold';
+        ctx.font = '36px Arial';
+        ctx.fillText(this.nameEntryText + cursor, centerX, centerY + 30);
+
+        ctx.fillStyle = '#AAAAAA';
+        ctx.font = '20px Arial';
+        ctx.fillText('Type your name, Enter or snap to save, Esc or pause to skip', centerX, centerY + 90);
+    }
+
+    private renderTables(ctx: CanvasRenderingContext2D): void {
+        const { width, height } = ctx.canvas;
+        const centerX = width / 2;
+        const rowHeight = 36;
+        const caveIds = this.highScores.getCaveIds();
+        const caveId = caveIds[this.caveIndex];
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.9)';
+        ctx.fillRect(0, this.top, width, height - this.top);
+
+        ctx.textAlign = 'center';
+        ctx.fillStyle = 'gold';
+        ctx.font = '40px Arial';
+        ctx.fillText('High Scores', centerX, this.top + 80);
+        ctx.fillStyle = '#AAAAAA';
+        ctx.font = '20px Arial';
+        ctx.fillText('Left/Right to change cave, X to export, I to import and merge, Esc to close', centerX, this.top + 115);
+
+        if (caveId === undefined) {
+            ctx.fillStyle = 'white';
+            ctx.font = '28px Arial';
+            ctx.fillText('No high scores yet', centerX, this.top + 220);
+        } else {
+            ctx.fillStyle = 'white';
+            ctx.font = '28px Arial';
+            ctx.fillText(
+                `◀ ${this.highScores.getLabel(caveId)} (${this.caveIndex + 1}/${caveIds.length}) ▶`,
+                centerX, this.top + 175
+            );
+
+            const columns = [centerX - 380, centerX - 320, centerX + 60, centerX + 180, centerX + 300];
+            ctx.font = '18px Arial';
+            ctx.fillStyle = '#888888';
+            ctx.textAlign = 'left';
+            ['#', 'Name', 'Score', 'Time left', 'Date'].forEach((heading, i) => {
+                ctx.fillText(heading, columns[i], this.top + 225);
+            });
+
+            ctx.font = '24px Arial';
+            this.highScores.getEntries(caveId).forEach((entry, i) => {
+                const y = this.top + 265 + i * rowHeight;
+                const highlighted = this.highlight?.caveId === caveId && this.highlight.rank === i;
+                if (highlighted) {
+                    ctx.fillStyle = 'rgba(255, 215, 0, 0.2)';
+                    ctx.fillRect(centerX - 400, y - rowHeight + 10, 860, rowHeight);
+                }
+                ctx.fillStyle = highlighted ? 'gold' : 'white';
+                ctx.fillText(`${i + 1}.`, columns[0], y);
+                ctx.fillText(entry.name, columns[1], y);
+                ctx.fillText(String(entry.score), columns[2], y);
+                ctx.fillText(`${entry.timeLeft}s`, columns[3], y);
+                ctx.fillText(new Date(entry.date).toLocaleDateString(), columns[4], y);
+            });
+        }
+
+        if (this.message) {
+            ctx.textAlign = 'center';
+            ctx.fillStyle = '#FFA040';
+            ctx.font = '22px Arial';
+            ctx.fillText(this.message, centerX, height - 40);
+        }
+    }
+}
@@ -0,0 +1,114 @@
+import { CaveSimulation } from './CaveSimulation';
+
+const AMOEBA_HINT_FRONTIER = 4;  // Warn when the amoeba has this few cells left to grow into
+const AMOEBA_HINT_SIZE_RATIO = 0.8;  // Warn when the amoeba reaches this share of its size limit
+const MAX_INTRO_WARNINGS = 5;  // Import warnings listed on the cave intro
+
+// What the score area shows about the run
+export interface HudStatus {
+    score: number;  // Total score of the run so far
+    label: string;  // Campaign cave, cave name or seed
+    lives: number | null;  // Null when lives don't count, as in test play and replays
+    livesFlashing: boolean;  // An extra life was just earned
+}
+
+// Score, cave, time, diamonds and lives along the top of the screen, `height` pixels high
+export function renderScoreArea(ctx: CanvasRenderingContext2D, height: number, simulation: CaveSimulation, status: HudStatus): void {
+    const width = ctx.canvas.width;
+
+    // Draw score area background
+    ctx.fillStyle = '#333';
+    ctx.fillRect(0, 0, width, height);
+
+    // Render score and diamond count in the score area
+    ctx.fillStyle = 'white';
+    ctx.font = '24px Arial';
+    ctx.textAlign = 'left';
+    ctx.fillText(`Score: ${status.score}`, 20, height/2 + 8);
+
+    // Show the campaign cave, or the cave seed so runs can be reported and reproduced
+    ctx.fillStyle = '#AAAAAA';
+    ctx.font = '16px Arial';
+    ctx.fillText(status.label, width * 0.22, height/2 + 6);
+
+    // Add time remaining display
+    const minutes = Math.floor(simulation.getTimeRemaining() / 60);
+    const seconds = simulation.getTimeRemaining() % 60;
+    const timeText = `Time: ${minutes}:${seconds.toString().padStart(2, '0')}`;
+    const timeColor = simulation.isTimeWarningActive() ? (Math.floor(Date.now() / 500) % 2 === 0 ? '#FF0000' : '#FFFFFF') : '#FFFFFF';
+    ctx.fillStyle = timeColor;
+    ctx.textAlign = 'center';
+    ctx.fillText(timeText, width / 2, height/2 + 8);
+
+    // Add diamond icon and count
+    ctx.fillStyle = '#00FFFF';
+    ctx.font = '24px Arial';
+    ctx.textAlign = 'right';
+    const diamondText = `💎 ${simulation.getDiamondsCollected()}/${simulation.getSettings().diamondsRequired}`;
+    ctx.fillText(diamondText, width - 20, height/2 + 8);
+
+    // Lives left of the diamonds, flashing for a moment when an extra one is earned
+    if (status.lives !== null) {
+        const livesX = width - 44 - ctx.measureText(diamondText).width;
+        ctx.fillStyle = status.livesFlashing && Math.floor(Date.now() / 200) % 2 === 0 ? 'gold' : '#FF6B6B';
+        ctx.fillText(`❤ ${status.lives}`, livesX, height/2 + 8);
+    }
+
+    const amoebaHint = getAmoebaHint(simulation);
+    if (amoebaHint) {
+        ctx.fillStyle = '#7CFC00';
+        ctx.font = '16px Arial';
+        ctx.textAlign = 'center';
+        ctx.fillText(amoebaHint, width * 0.7, height/2 + 6);
+    }
+}
+
+// Cave name and goal, shown over the game area below `top` before a cave starts
+export function renderCaveIntro(ctx: CanvasRenderingContext2D, top: number, simulation: CaveSimulation, label: string, warnings: string[]): void {
+    const { width, height } = ctx.canvas;
+    const centerX = width / 2;
+    const centerY = (height - top) / 2 + top;
+    const settings = simulation.getSettings();
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(0, top, width, height - top);
+    ctx.textAlign = 'center';
+    ctx.fillStyle = 'gold';
+    ctx.font = '48px Arial';
+    ctx.fillText(label, centerX, centerY - 20);
+    ctx.fillStyle = 'white';
+    ctx.font = '24px Arial';
+    ctx.fillText(
+        `Collect ${settings.diamondsRequired} diamonds in ${settings.timeLimit} seconds`,
+        centerX, centerY + 30
+    );
+    ctx.fillStyle = '#AAAAAA';
+    ctx.font = '20px Arial';
+    ctx.fillText('Move to start', centerX, centerY + 70);
+
+    if (warnings.length > 0) {
+        const shown = warnings.slice(0, MAX_INTRO_WARNINGS);
+        if (warnings.length > shown.length) {
+            shown.push(`... and ${warnings.length - shown.length} more`);
+        }
+        ctx.fillStyle = '#FFA040';
+        ctx.font = '18px Arial';
+        ctx.fillText('This cave was imported with changes:', centerX, centerY + 120);
+        shown.forEach((warning, i) => ctx.fillText(warning, centerX, centerY + 146 + i * 24));
+    }
+}
+
+// Warns when the amoeba is about to turn into diamonds or boulders
+function getAmoebaHint(simulation: CaveSimulation): string | null {
+    const size = simulation.getAmoebaSize();
+    if (size === 0 || simulation.isGameOver() || simulation.isGameWon()) {
+        return null;
+    }
+    if (simulation.getAmoebaFrontier() <= AMOEBA_HINT_FRONTIER) {
+        return 'Amoeba almost enclosed!';
+    }
+    if (size >= simulation.getAmoebaMaxSize() * AMOEBA_HINT_SIZE_RATIO) {
+        return 'Amoeba about to overflow!';
+    }
+    return null;
+}
@@ -0,0 +1,148 @@
+import { Action, Controls } from './Controls';
+import { TouchControls } from './TouchControls';
+import { Direction, TickInput } from './CaveSimulation';
+
+// Something shown over the game that takes the input ahead of it
+export interface InputScreen {
+    handleKey(event: KeyboardEvent): void;
+    handleAction?(action: Action): void;  // Gamepad and touch presses, ignored by screens without it
+    handleGamepadInput?(input: string): boolean;  // Raw gamepad input; false hands it on as an action
+}
+
+// What routing input needs from the game around it
+export interface InputRouterHost {
+    getOpenScreen(): InputScreen | null;  // Menu screen over the game, which takes every input
+    getModeScreen(): InputScreen | null;  // The editor, the replay controls, or the title screen or pause menu
+    handleAction(action: Action): void;  // Presses of remappable actions while a cave is played
+    handleEscape(): void;
+    isTouchActive(): boolean;
+}
+
+/*
+ * Sends the keyboard, gamepads and touch screen to whatever takes them: an open menu screen
+ * first, then the editor, replay controls or menus, and otherwise the game itself. Moves are
+ * kept here between ticks: the directions held down, and the last press so that a tap
+ * between two move ticks isn't lost.
+ */
+export class InputRouter {
+    private readonly controls: Controls;
+    private readonly touchControls: TouchControls;
+    private readonly host: InputRouterHost;
+    private heldDirections: Direction[] = [];  // Directions pressed and possibly still held, most recent last
+    private bufferedMove: Direction | null = null;  // Press not yet applied, so taps between move ticks aren't lost
+    private bufferedSnap: boolean = false;
+
+    constructor(canvas: HTMLCanvasElement, controls: Controls, host: InputRouterHost) {
+        this.controls = controls;
+        this.host = host;
+        this.touchControls = new TouchControls(canvas, action => this.handleAction(action), () => host.isTouchActive());
+
+        window.addEventListener('keydown', this.handleKeyDown.bind(this));
+        window.addEventListener('keyup', event => this.controls.keyUp(event.code));
+        window.addEventListener('blur', () => this.clearMovementInput());
+    }
+
+    // On-screen buttons keep their size on screen however far the canvas is scaled
+    public setScale(scale: number): void {
+        this.touchControls.setScale(scale);
+    }
+
+    public isHeld(action: Action): boolean {
+        return this.controls.isHeld(action) || this.touchControls.isHeld(action);
+    }
+
+    // Held directions are sampled on every move tick; a new press is also buffered for the next one
+    public pressDirection(direction: Direction): void {
+        this.heldDirections = this.heldDirections.filter(held => held !== direction);
+        this.heldDirections.push(direction);
+        this.bufferedMove = direction;
+        this.bufferedSnap = this.isHeld('snap');
+    }
+
+    public clearBufferedMove(): void {
+        this.bufferedMove = null;
+    }
+
+    // Input for the next move tick: the buffered press first, otherwise the most recently held direction
+    public takeMovementInput(): TickInput {
+        const snap = this.isHeld('snap');
+        if (this.bufferedMove) {
+            const input = { move: this.bufferedMove, snap: this.bufferedSnap || snap };
+            this.bufferedMove = null;
+            return input;
+        }
+        this.heldDirections = this.heldDirections.filter(direction => this.isHeld(direction));
+        const held = this.heldDirections[this.heldDirections.length - 1] ?? null;
+        return { move: held, snap: held !== null && snap };
+    }
+
+    // Reads the gamepads once per frame; new presses act like key presses
+    public pollGamepads(): void {
+        for (const input of this.controls.pollGamepads()) {
+            const screen = this.host.getOpenScreen() ?? this.host.getModeScreen();
+            if (screen?.handleGamepadInput?.(input)) {
+                continue;
+            }
+            const action = this.controls.getActionForGamepadInput(input);
+            if (action) {
+                this.handleAction(action);
+            }
+        }
+    }
+
+    public renderTouchControls(ctx: CanvasRenderingContext2D): void {
+        if (this.host.isTouchActive()) {
+            this.touchControls.render(ctx);
+        }
+    }
+
+    private handleKeyDown(event: KeyboardEvent): void {
+        this.controls.keyDown(event.code);
+
+        const openScreen = this.host.getOpenScreen();
+        if (openScreen) {
+            openScreen.handleKey(event);
+            return;
+        }
+        // Frame stats can be cycled over the editor, replays and menus too
+        const action = this.controls.getActionForKey(event.code);
+        if (action === 'frameStats') {
+            this.host.handleAction(action);
+            return;
+        }
+        const screen = this.host.getModeScreen();
+        if (screen) {
+            screen.handleKey(event);
+            return;
+        }
+        if (event.key === 'Escape') {
+            this.host.handleEscape();
+            return;
+        }
+
+        // Everything else goes through the remappable controls
+        if (action) {
+            event.preventDefault();
+            if (!event.repeat) {
+                this.host.handleAction(action);
+            }
+        }
+    }
+
+    // Gamepad and touch presses go to the screen on top, or to the game when there is none
+    private handleAction(action: Action): void {
+        const screen = this.host.getOpenScreen() ?? this.host.getModeScreen();
+        if (screen) {
+            screen.handleAction?.(action);
+        } else {
+            this.host.handleAction(action);
+        }
+    }
+
+    private clearMovementInput(): void {
+        this.controls.releaseKeys();
+        this.heldDirections = [];
+        this.bufferedMove = null;
+        this.bufferedSnap = false;
+    }
+}
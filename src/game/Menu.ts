@@ -0,0 +1,80 @@
+import { Action } from './Controls';
+
+export interface MenuItem {
+    label: string;
+    select: () => void;
+}
+
+/*
+ * The title screen and pause menu: a list of items with one selected. The items are
+ * rebuilt by the game every time, since their labels follow the game's settings.
+ */
+export class Menu {
+    private readonly top: number;  // Top of the area the menu covers, below the score area
+    private index: number = 0;  // Selected item
+
+    constructor(top: number) {
+        this.top = top;
+    }
+
+    public reset(): void {
+        this.index = 0;
+    }
+
+    /**
+     * Up and down choose an item and snap selects it, so menus work with any controls.
+     * Returns false for actions the menu doesn't use.
+     */
+    public handleAction(action: Action, items: MenuItem[]): boolean {
+        switch (action) {
+            case 'up':
+                this.index = (this.index + items.length - 1) % items.length;
+                return true;
+            case 'down':
+                this.index = (this.index + 1) % items.length;
+                return true;
+            case 'snap':
+                items[this.index].select();
+                return true;
+            default:
+                return false;
+        }
+    }
+
+    // The title screen has a larger title with a subtitle under it and hides more of the cave
+    public render(ctx: CanvasRenderingContext2D, items: MenuItem[], screen: 'title' | 'pause', title: string, subtitle: string = ''): void {
+        const { width, height } = ctx.canvas;
+        const isTitle = screen === 'title';
+        const centerX = width / 2;
+        const top = this.top + (isTitle ? 200 : 260);
+        const rowHeight = 50;
+
+        ctx.fillStyle = isTitle ? 'rgba(0, 0, 0, 0.85)' : 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(0, this.top, width, height - this.top);
+
+        ctx.textAlign = 'center';
+        ctx.fillStyle = isTitle ? 'gold' : 'white';
+        ctx.font = isTitle ? '72px Arial' : '48px Arial';
+        ctx.fillText(title, centerX, top);
+        if (isTitle) {
+            ctx.fillStyle = '#AAAAAA';
+            ctx.font = '24px Arial';
+            ctx.fillText(subtitle, centerX, top + 50);
+        }
+
+        ctx.font = '32px Arial';
+        items.forEach((item, i) => {
+            const y = top + 140 + i * rowHeight;
+            if (i === this.index) {
+                ctx.fillStyle = 'rgba(255, 215, 0, 0.2)';
+                ctx.fillRect(centerX - 200, y - rowHeight + 12, 400, rowHeight);
+            }
+            ctx.fillStyle = i === this.index ? 'gold' : 'white';
+            ctx.fillText(item.label, centerX, y);
+        });
+
+        ctx.fillStyle = '#AAAAAA';
+        ctx.font = '20px Arial';
+        ctx.fillText('Up/Down to choose, Enter to select', centerX, top + 140 + items.length * rowHeight + 20);
+    }
+}
@@ -0,0 +1,191 @@
+import { Grid } from './Grid';
+import { TileType } from './TileType';
+
+/*
+ * Map of the whole cave with one block of pixels per tile, drawn in a corner over the game
+ * area. It remembers which cells have been on screen so the parts of the cave the player
+ * hasn't seen yet can be hidden under fog. The map is kept at one pixel per tile on its own
+ * canvas, where only cells that changed since the last frame are repainted. The overview
+ * shows the whole cave in full tiles instead, scaled down to fit the game area.
+ */
+
+// 'fog' is the map with the unexplored parts of the cave hidden
+export type MinimapMode = 'hidden' | 'shown' | 'fog';
+
+export interface MinimapMarkers {
+    player: { x: number; y: number } | null;
+    exit: { x: number; y: number } | null;
+    view: { x: number; y: number; width: number; height: number };  // Part of the cave on screen
+}
+
+export class Minimap {
+    private static readonly STORAGE_KEY = 'boulderdash.minimap';
+    private static readonly FOG_COLOR = '#181818';  // Unexplored cells
+    private static readonly MAX_WIDTH = 300;  // Largest size of the map in pixels
+    private static readonly MAX_HEIGHT = 180;
+    private readonly canvas: HTMLCanvasElement;
+    private readonly ctx: CanvasRenderingContext2D;
+    private grid: Grid | null = null;  // Grid the explored cells belong to
+    private explored: boolean[] = [];  // Cells that have been on screen, indexed as y * width + x
+    private drawnColors: string[] = [];  // Colour each cell of the canvas was painted with
+    private mode: MinimapMode = Minimap.getChosenMode();
+
+    constructor() {
+        this.canvas = document.createElement('canvas');
+        this.ctx = this.canvas.getContext('2d')!;
+    }
+
+    public getMode(): MinimapMode {
+        return this.mode;
+    }
+
+    // The map cycles between shown, shown with unexplored parts hidden, and hidden
+    public cycleMode(): void {
+        const modes: MinimapMode[] = ['shown', 'fog', 'hidden'];
+        this.mode = modes[(modes.indexOf(this.mode) + 1) % modes.length];
+        Minimap.setChosenMode(this.mode);
+    }
+
+    // The map mode picked last time, shown by default
+    private static getChosenMode(): MinimapMode {
+        try {
+            const mode = localStorage.getItem(Minimap.STORAGE_KEY);
+            return mode === 'hidden' || mode === 'fog' ? mode : 'shown';
+        } catch {
+            return 'shown';
+        }
+    }
+
+    private static setChosenMode(mode: MinimapMode): void {
+        try {
+            localStorage.setItem(Minimap.STORAGE_KEY, mode);
+        } catch (error) {
+            console.error('Error saving minimap mode:', error);
+        }
+    }
+
+    // Marks a rectangle of cells as seen; a different grid than last time starts a new cave
+    public reveal(grid: Grid, left: number, top: number, width: number, height: number): void {
+        if (grid !== this.grid) {
+            this.grid = grid;
+            this.explored = new Array(grid.getWidth() * grid.getHeight()).fill(false);
+        }
+        for (let y = Math.max(0, top); y < Math.min(grid.getHeight(), top + height); y++) {
+            for (let x = Math.max(0, left); x < Math.min(grid.getWidth(), left + width); x++) {
+                this.explored[y * grid.getWidth() + x] = true;
+            }
+        }
+    }
+
+    private isExplored(grid: Grid, x: number, y: number): boolean {
+        return grid === this.grid && this.explored[y * grid.getWidth() + x] === true;
+    }
+
+    /**
+     * Draws the map in the top right corner of the area below `areaTop`, unless it is hidden.
+     * `colorOf` gives the colour of each tile; under fog unexplored cells are left dark.
+     */
+    public draw(
+        ctx: CanvasRenderingContext2D, grid: Grid, areaTop: number,
+        colorOf: (type: TileType) => string, markers: MinimapMarkers
+    ): void {
+        if (this.mode === 'hidden') {
+            return;
+        }
+        const width = grid.getWidth();
+        const height = grid.getHeight();
+        const fog = this.mode === 'fog';
+        const scale = Math.max(1, Math.floor(Math.min(Minimap.MAX_WIDTH / width, Minimap.MAX_HEIGHT / height)));
+        const left = ctx.canvas.width - width * scale - 14;
+        const top = areaTop + 14;
+        if (this.canvas.width !== width || this.canvas.height !== height) {
+            this.canvas.width = width;
+            this.canvas.height = height;
+            this.drawnColors = [];
+        }
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const color = fog && !this.isExplored(grid, x, y) ? Minimap.FOG_COLOR : colorOf(grid.getTile(x, y));
+                if (this.drawnColors[y * width + x] !== color) {
+                    this.drawnColors[y * width + x] = color;
+                    this.ctx.fillStyle = color;
+                    this.ctx.fillRect(x, y, 1, 1);
+                }
+            }
+        }
+
+        ctx.save();
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(left - 4, top - 4, width * scale + 8, height * scale + 8);
+        ctx.globalAlpha = 0.85;
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(this.canvas, left, top, width * scale, height * scale);
+        ctx.globalAlpha = 1;
+
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.lineWidth = 1;
+        const { view } = markers;
+        ctx.strokeRect(left + view.x * scale + 0.5, top + view.y * scale + 0.5, view.width * scale - 1, view.height * scale - 1);
+
+        // The exit and the player blink so they stand out from the tiles around them
+        const blink = Math.floor(performance.now() / 300) % 2 === 0;
+        const mark = (position: { x: number; y: number } | null, color: string) => {
+            if (position) {
+                ctx.fillStyle = color;
+                ctx.fillRect(left + (position.x - 1) * scale, top + (position.y - 1) * scale, scale * 3, scale * 3);
+            }
+        };
+        mark(markers.exit, blink ? '#00FF00' : '#FFFFFF');
+        mark(markers.player, blink ? '#FFFFFF' : '#FF0000');
+        ctx.restore();
+    }
+
+    /**
+     * Draws the whole cave scaled down to fit the area below `top`, with the part normally on
+     * screen outlined. `drawTile` draws a tile at its cave position; under fog only explored
+     * cells are drawn.
+     */
+    public drawOverview(
+        ctx: CanvasRenderingContext2D, grid: Grid, top: number, tileSize: number,
+        drawTile: (x: number, y: number, type: TileType) => void, player: { x: number; y: number } | null,
+        view: MinimapMarkers['view']
+    ): void {
+        const { width, height } = ctx.canvas;
+        const areaHeight = height - top;
+        const scale = Math.min(1, width / (grid.getWidth() * tileSize), areaHeight / (grid.getHeight() * tileSize));
+        const left = (width - grid.getWidth() * tileSize * scale) / 2;
+        const fog = this.mode === 'fog';
+
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, top, width, areaHeight);
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(0, top, width, areaHeight);
+        ctx.clip();
+        ctx.translate(left, top + (areaHeight - grid.getHeight() * tileSize * scale) / 2);
+        ctx.scale(scale, scale);
+        ctx.imageSmoothingEnabled = true;
+
+        // Under fog the cave starts out covered and only explored cells are drawn
+        if (fog) {
+            ctx.fillStyle = Minimap.FOG_COLOR;
+            ctx.fillRect(0, 0, grid.getWidth() * tileSize, grid.getHeight() * tileSize);
+        }
+        for (let y = 0; y < grid.getHeight(); y++) {
+            for (let x = 0; x < grid.getWidth(); x++) {
+                if (!fog || this.isExplored(grid, x, y)) {
+                    drawTile(x, y, grid.getTile(x, y));
+                }
+            }
+        }
+        if (player) {
+            drawTile(player.x, player.y, TileType.PLAYER);
+        }
+
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.lineWidth = 2 / scale;
+        ctx.strokeRect(view.x * tileSize, view.y * tileSize, view.width * tileSize, view.height * tileSize);
+        ctx.restore();
+    }
+}
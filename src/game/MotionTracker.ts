@@ -0,0 +1,97 @@
+import { Grid } from './Grid';
+import { TileType } from './TileType';
+import { CaveSimulation, TileMove } from './CaveSimulation';
+
+// A move being drawn between the cell it left and the cell it reached
+export interface Motion extends TileMove {
+    startTick: number;  // Tick the move happened on
+}
+
+/*
+ * Remembers what moved during each tick so it can be drawn sliding from its old cell to its
+ * new one. Drawing runs one move behind the simulation: each move is spread over the ticks
+ * until the next one could happen, so steady walking and falling look smooth.
+ */
+export class MotionTracker {
+    private simulation: CaveSimulation | null = null;  // Simulation the motions below belong to
+    private playerMotion: Motion | null = null;
+    private tileMotions: Map<number, Motion> = new Map();  // Objects and enemies on the move, by destination cell
+    private tickTime: number = 0;  // Real time since the last tick (ms)
+
+    // Records the moves of the tick just stepped; the player was at previousX,previousY before it
+    public record(simulation: CaveSimulation, previousX: number, previousY: number): void {
+        if (this.simulation !== simulation) {
+            this.simulation = simulation;
+            this.playerMotion = null;
+            this.tileMotions.clear();
+        }
+        const startTick = simulation.getTick();
+        const playerX = simulation.getPlayerX();
+        const playerY = simulation.getPlayerY();
+        if (Math.abs(playerX - previousX) + Math.abs(playerY - previousY) === 1) {
+            this.playerMotion = {
+                fromX: previousX, fromY: previousY, toX: playerX, toY: playerY,
+                tile: TileType.PLAYER, ticks: CaveSimulation.MOVE_TICKS, startTick
+            };
+        }
+
+        this.tileMotions.forEach((motion, cell) => {
+            if (this.getProgress(motion) >= 1) {
+                this.tileMotions.delete(cell);
+            }
+        });
+        const width = simulation.getGrid().getWidth();
+        simulation.getMoves().forEach(move => {
+            this.tileMotions.set(move.toY * width + move.toX, { ...move, startTick });
+        });
+    }
+
+    // Nothing is drawn moving until the next recorded tick, e.g. while the simulation is paused
+    public stop(): void {
+        this.simulation = null;
+    }
+
+    public setTickTime(time: number): void {
+        this.tickTime = time;
+    }
+
+    // Where the player is drawn, part way between cells while walking
+    public getPlayerPosition(simulation: CaveSimulation): { x: number; y: number } {
+        const x = simulation.getPlayerX();
+        const y = simulation.getPlayerY();
+        const motion = this.playerMotion;
+        if (!this.isShown(simulation, motion) || motion.toX !== x || motion.toY !== y) {
+            return { x, y };
+        }
+        return this.getPosition(motion);
+    }
+
+    // The motion of the object that moved into x,y, if it is still being drawn on its way there
+    public getTileMotion(simulation: CaveSimulation, grid: Grid, x: number, y: number, tile: TileType): Motion | null {
+        if (grid !== simulation.getGrid() || simulation.isExploding()) {
+            return null;
+        }
+        const motion = this.tileMotions.get(y * grid.getWidth() + x);
+        return this.isShown(simulation, motion) && motion.tile === tile ? motion : null;
+    }
+
+    // Where a moving object is drawn right now, in tile coordinates
+    public getPosition(motion: Motion): { x: number; y: number } {
+        const progress = this.getProgress(motion);
+        return {
+            x: motion.fromX + (motion.toX - motion.fromX) * progress,
+            y: motion.fromY + (motion.toY - motion.fromY) * progress
+        };
+    }
+
+    // How far along a motion is drawn, from 0 at its old cell to 1 at its new one
+    private getProgress(motion: Motion): number {
+        const elapsed = (this.simulation!.getTick() - motion.startTick) * CaveSimulation.TICK_DURATION + this.tickTime;
+        return Math.min(1, elapsed / (motion.ticks * CaveSimulation.TICK_DURATION));
+    }
+
+    // Moves stop being drawn when the simulation is paused or stopped, or is another one
+    private isShown(simulation: CaveSimulation, motion: Motion | null | undefined): motion is Motion {
+        return !!motion && this.simulation === simulation && this.getProgress(motion) < 1;
+    }
+}
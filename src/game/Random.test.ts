@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Random } from './Random';
+import { CaveGenerator } from './CaveGenerator';
+import { CaveFile } from './CaveFile';
+
+function sequence(random: Random, length: number): number[] {
+    return Array.from({ length }, () => random.next());
+}
+
+describe('Random', () => {
+    it('gives the same sequence for the same seed', () => {
+        expect(sequence(new Random(42), 100)).toEqual(sequence(new Random(42), 100));
+        expect(sequence(new Random(43), 100)).not.toEqual(sequence(new Random(42), 100));
+        expect(sequence(new Random(42), 100).every(n => n >= 0 && n < 1)).toBe(true);
+    });
+
+    it('resumes the sequence from a saved state', () => {
+        const random = new Random(7);
+        sequence(random, 10);
+        const resumed = new Random(random.getSeed());
+        resumed.setState(random.getState());
+
+        expect(sequence(resumed, 20)).toEqual(sequence(random, 20));
+    });
+
+    it('generates the same cave for the same seed', () => {
+        const cave = new CaveGenerator(new Random(1234)).generate(40, 30);
+        const again = new CaveGenerator(new Random(1234)).generate(40, 30);
+        const other = new CaveGenerator(new Random(1235)).generate(40, 30);
+
+        expect(CaveFile.serialize(again)).toBe(CaveFile.serialize(cave));
+        expect(CaveFile.serialize(other)).not.toBe(CaveFile.serialize(cave));
+    });
+
+    it('uses plain numbers as seeds and hashes any other text', () => {
+        expect(Random.parseSeed('12345')).toBe(12345);
+        expect(Random.parseSeed('  12345 ')).toBe(12345);
+        // Too big for a seed: wraps around rather than failing
+        expect(Random.parseSeed('4294967297')).toBe(1);
+
+        // Not plain numbers, so hashed: still a valid seed, and the same one every time
+        for (const text of ['-5', '1e3', '12.5', 'abc', '', '💎']) {
+            const seed = Random.parseSeed(text);
+            expect(Number.isInteger(seed) && seed >= 0 && seed < 4294967296).toBe(true);
+            expect(Random.parseSeed(text)).toBe(seed);
+        }
+        expect(Random.parseSeed('-5')).not.toBe(5);
+        expect(Random.parseSeed('abc')).not.toBe(Random.parseSeed('abd'));
+        expect(Random.parseSeed(' abc ')).toBe(Random.parseSeed('abc'));
+    });
+});
@@ -0,0 +1,55 @@
+// Small seedable PRNG (mulberry32) so that caves can be reproduced from their seed
+export class Random {
+    private readonly seed: number;
+    private state: number;
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    // Returns a float in [0, 1), like Math.random()
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    public getSeed(): number {
+        return this.seed;
+    }
+
+    // Current position in the sequence, so a generator can be saved and resumed
+    public getState(): number {
+        return this.state;
+    }
+
+    public setState(state: number): void {
+        this.state = state >>> 0;
+    }
+
+    public static randomSeed(): number {
+        return Math.floor(Math.random() * 4294967296);
+    }
+
+    /**
+     * Turns user-supplied text (e.g. the `?seed=` URL parameter) into a seed.
+     * Plain numbers are used as-is, anything else is hashed.
+     */
+    public static parseSeed(text: string): number {
+        const trimmed = text.trim();
+        if (/^\d+$/.test(trimmed)) {
+            return Number(trimmed) >>> 0;
+        }
+
+        // FNV-1a hash of the text
+        let hash = 0x811C9DC5;
+        for (let i = 0; i < trimmed.length; i++) {
+            hash ^= trimmed.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+}
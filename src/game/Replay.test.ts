@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Replay } from './Replay';
+
+function replayText(fields: { [key: string]: unknown }): string {
+    return JSON.stringify({ format: 'boulder-dash-replay', version: 4, seed: 7, inputs: '', ...fields });
+}
+
+describe('Replay', () => {
+    it('reads back the inputs it wrote', () => {
+        const replay = new Replay(7, null);
+        [null, null, 'right', 'right', 'up'].forEach(move => {
+            replay.record({ move: move as 'right' | 'up' | null, snap: false });
+        });
+        replay.record({ move: 'left', snap: true });
+
+        const loaded = Replay.parse(replay.toText());
+        expect(loaded.getSeed()).toBe(7);
+        expect(loaded.getLength()).toBe(6);
+        expect(loaded.getInput(2)).toEqual({ move: 'right', snap: false });
+        expect(loaded.getInput(5)).toEqual({ move: 'left', snap: true });
+        expect(loaded.getInput(6)).toEqual({ move: null, snap: false });
+    });
+
+    it('rejects a replay whose cave can\'t be played', () => {
+        expect(() => Replay.parse(replayText({ cave: 'width: 3\n' }))).toThrow(/^Replay cave is broken: /);
+    });
+
+    it('keeps the cave text of a replay of a cave file', () => {
+        const cave = 'width: 3\nheight: 1\ndiamonds: 1\ntime: 10\ndiamondValue: 1\nmap:\n@*X\n';
+        expect(Replay.parse(replayText({ cave })).getCaveText()).toBe(cave);
+    });
+
+    it('plays replays from older versions, flagged as such', () => {
+        const replay = Replay.parse(replayText({ version: 1, inputs: '3.R' }));
+        expect(replay.getLength()).toBe(4);
+        expect(replay.isFromOlderVersion()).toBe(true);
+        expect(Replay.parse(new Replay(7, null).toText()).isFromOlderVersion()).toBe(false);
+    });
+
+    it('rejects replays from newer versions', () => {
+        expect(() => Replay.parse(replayText({ version: 99 }))).toThrow(/newer version/);
+    });
+
+    it('rejects input runs too long to be real', () => {
+        expect(() => Replay.parse(replayText({ inputs: '99999999999R' }))).toThrow(/longer than/);
+        expect(() => Replay.parse(replayText({ inputs: '600000.600000R' }))).toThrow(/longer than/);
+        expect(() => Replay.parse(replayText({ inputs: '0R' }))).toThrow(/run length/);
+    });
+});
@@ -0,0 +1,220 @@
+import { Direction, TickInput } from './CaveSimulation';
+import { DEFAULT_GENERATOR_OPTIONS, GeneratorOptions } from './CaveGenerator';
+import { isGeneratorName } from './CaveStrategies';
+import { isDifficultyName } from './Difficulty';
+import { CaveFile } from './CaveFile';
+
+/*
+ * A recorded run: the inputs of every simulation tick plus what is needed to rebuild the
+ * cave. Random caves are regenerated from their seed, generator and difficulty; other caves
+ * are stored as cave file text. Replay files are JSON with the inputs run-length encoded, e.g. "40.R3.2U" is
+ * 40 ticks without input, one move right, 3 idle ticks and two moves up. Lower-case
+ * letters are snaps in that direction.
+ */
+
+interface ReplayFile {
+    format: string;
+    version: number;
+    name?: string;
+    seed: number;
+    cave?: string;
+    generator?: string;  // Generated caves only; files without these are from the original generator
+    difficulty?: string;
+    inputs: string;
+}
+
+const FORMAT = 'boulder-dash-replay';
+// Raised whenever cave generation or the simulation changes, as older replays may then play out
+// differently: 2 added the generator and difficulty, 3 changed where random exits go, made
+// objects on the edges of borderless caves move, kept the headings of imported enemies and
+// changed where the scatter and classic generators put enemies, 4 kept random exits off
+// diamonds, boulders and enemies
+const VERSION = 4;
+const OLDEST_VERSION = 1;
+const MAX_TICKS = 1000000;  // About 20 hours of play
+
+const MOVE_CHARS: Record<Direction, string> = {
+    left: 'L',
+    right: 'R',
+    up: 'U',
+    down: 'D'
+};
+const NO_MOVE_CHAR = '.';
+
+function inputChar(input: TickInput): string {
+    if (input.move === null) {
+        return NO_MOVE_CHAR;
+    }
+    const char = MOVE_CHARS[input.move];
+    return input.snap ? char.toLowerCase() : char;
+}
+
+export class Replay {
+    private readonly seed: number;
+    private readonly caveText: string | null;
+    private readonly name: string | undefined;
+    private readonly inputs: TickInput[];
+    private readonly generator: GeneratorOptions;
+    private readonly version: number;  // Version of the game the run was recorded with
+
+    /**
+     * `caveText` is the cave in the cave file format, or null for a cave generated from
+     * `seed` with `generator`. Either way `seed` also seeds the simulation.
+     */
+    constructor(
+        seed: number, caveText: string | null, name?: string, inputs: TickInput[] = [],
+        generator: GeneratorOptions = DEFAULT_GENERATOR_OPTIONS, version: number = VERSION
+    ) {
+        this.seed = seed;
+        this.caveText = caveText;
+        this.name = name;
+        this.inputs = inputs;
+        this.generator = generator;
+        this.version = version;
+    }
+
+    public getSeed(): number {
+        return this.seed;
+    }
+
+    public getCaveText(): string | null {
+        return this.caveText;
+    }
+
+    public getName(): string | undefined {
+        return this.name;
+    }
+
+    public getGeneratorOptions(): GeneratorOptions {
+        return this.generator;
+    }
+
+    // Runs recorded before the last change to the simulation may not play back the same
+    public isFromOlderVersion(): boolean {
+        return this.version < VERSION;
+    }
+
+    public record(input: TickInput): void {
+        this.inputs.push({ move: input.move, snap: input.move !== null && input.snap });
+    }
+
+    // Number of recorded ticks
+    public getLength(): number {
+        return this.inputs.length;
+    }
+
+    // Input for a tick (0-based); ticks past the end of the recording have no input
+    public getInput(tick: number): TickInput {
+        return this.inputs[tick] ?? { move: null, snap: false };
+    }
+
+    public toText(): string {
+        const file: ReplayFile = {
+            format: FORMAT,
+            version: VERSION,
+            seed: this.seed,
+            inputs: Replay.encodeInputs(this.inputs)
+        };
+        if (this.name) {
+            file.name = this.name;
+        }
+        if (this.caveText !== null) {
+            file.cave = this.caveText;
+        } else {
+            file.generator = this.generator.generator;
+            file.difficulty = this.generator.difficulty;
+        }
+        return JSON.stringify(file, null, 2) + '\n';
+    }
+
+    // Reads a replay file; throws an Error describing the problem on bad input
+    public static parse(text: string): Replay {
+        let file: Partial<ReplayFile>;
+        try {
+            file = JSON.parse(text);
+        } catch {
+            throw new Error('Replay file is not valid JSON');
+        }
+
+        if (file.format !== FORMAT) {
+            throw new Error('Not a replay file');
+        }
+        if (typeof file.version !== 'number' || file.version < OLDEST_VERSION) {
+            throw new Error(`Unsupported replay version ${file.version}`);
+        }
+        if (file.version > VERSION) {
+            throw new Error(`Replay is from a newer version of the game (version ${file.version})`);
+        }
+        if (typeof file.seed !== 'number' || typeof file.inputs !== 'string') {
+            throw new Error('Replay file is missing its seed or inputs');
+        }
+        if (file.cave !== undefined && typeof file.cave !== 'string') {
+            throw new Error('Replay cave must be cave file text');
+        }
+        if (file.cave !== undefined) {
+            // Checked here so a replay that loads can always be played
+            try {
+                CaveFile.parse(file.cave);
+            } catch (error) {
+                throw new Error(`Replay cave is broken: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        const generator = file.generator ?? DEFAULT_GENERATOR_OPTIONS.generator;
+        const difficulty = file.difficulty ?? DEFAULT_GENERATOR_OPTIONS.difficulty;
+        if (!isGeneratorName(generator)) {
+            throw new Error(`Unknown cave generator "${generator}"`);
+        }
+        if (!isDifficultyName(difficulty)) {
+            throw new Error(`Unknown difficulty "${difficulty}"`);
+        }
+
+        return new Replay(
+            file.seed, file.cave ?? null, file.name, Replay.decodeInputs(file.inputs), { generator, difficulty }, file.version
+        );
+    }
+
+    private static encodeInputs(inputs: TickInput[]): string {
+        let encoded = '';
+        let i = 0;
+        while (i < inputs.length) {
+            const char = inputChar(inputs[i]);
+            let run = 1;
+            while (i + run < inputs.length && inputChar(inputs[i + run]) === char) {
+                run++;
+            }
+            encoded += (run > 1 ? run : '') + char;
+            i += run;
+        }
+        return encoded;
+    }
+
+    private static decodeInputs(encoded: string): TickInput[] {
+        const charInputs: { [char: string]: TickInput } = { [NO_MOVE_CHAR]: { move: null, snap: false } };
+        (Object.keys(MOVE_CHARS) as Direction[]).forEach(direction => {
+            charInputs[MOVE_CHARS[direction]] = { move: direction, snap: false };
+            charInputs[MOVE_CHARS[direction].toLowerCase()] = { move: direction, snap: true };
+        });
+
+        const inputs: TickInput[] = [];
+        const pattern = /(\d*)(.)/gs;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(encoded)) !== null) {
+            const [, count, char] = match;
+            if (!(char in charInputs)) {
+                throw new Error(`Unknown replay input "${char}" at position ${match.index + count.length + 1}`);
+            }
+            const run = count === '' ? 1 : Number(count);
+            if (run < 1) {
+                throw new Error(`Bad replay run length at position ${match.index + 1}`);
+            }
+            if (run > MAX_TICKS - inputs.length) {
+                throw new Error(`Replay is longer than the ${MAX_TICKS} ticks allowed`);
+            }
+            for (let i = 0; i < run; i++) {
+                inputs.push(charInputs[char]);
+            }
+        }
+        return inputs;
+    }
+}
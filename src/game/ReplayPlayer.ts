@@ -0,0 +1,142 @@
+import { Action, Controls } from './Controls';
+import { Replay } from './Replay';
+import { TickInput } from './CaveSimulation';
+
+// What replay playback needs from the game around it
+export interface ReplayPlayerHost {
+    exit(): void;  // Stop watching and go back to playing
+    restart(): void;  // Watch the replay again from the start
+    step(): void;  // Run a single tick while paused
+    download(replay: Replay): void;
+    cycleMinimap(): void;
+    toggleMute(): void;
+}
+
+/*
+ * Playback controls of the replay mode: pausing, stepping, the playback speed and the bar
+ * along the bottom of the screen. They go through the remappable controls: pause pauses,
+ * right steps while paused and up and down change the speed. The simulation itself is run
+ * by the game, fed with the recorded inputs from getInput().
+ */
+export class ReplayPlayer {
+    private static readonly SPEEDS = [1, 2, 4];
+    private readonly controls: Controls;
+    private readonly host: ReplayPlayerHost;
+    private replay: Replay | null = null;  // Run being played back
+    private speed: number = 1;
+    private paused: boolean = false;
+
+    constructor(controls: Controls, host: ReplayPlayerHost) {
+        this.controls = controls;
+        this.host = host;
+    }
+
+    public start(replay: Replay): void {
+        this.replay = replay;
+        this.speed = 1;
+        this.paused = false;
+    }
+
+    public stop(): void {
+        this.replay = null;
+    }
+
+    public getReplay(): Replay {
+        if (!this.replay) {
+            throw new Error('No replay is being played');
+        }
+        return this.replay;
+    }
+
+    public getInput(tick: number): TickInput {
+        return this.getReplay().getInput(tick);
+    }
+
+    public getSpeed(): number {
+        return this.speed;
+    }
+
+    public isPaused(): boolean {
+        return this.paused;
+    }
+
+    public pause(): void {
+        this.paused = true;
+    }
+
+    public handleKey(event: KeyboardEvent): void {
+        if (event.key === 'Escape') {
+            this.host.exit();
+            return;
+        }
+        const action = this.controls.getActionForKey(event.code);
+        if (action) {
+            event.preventDefault();
+            if (!event.repeat) {
+                this.handleAction(action);
+            }
+        }
+    }
+
+    // Presses of remappable actions, from the keyboard or a gamepad
+    public handleAction(action: Action): void {
+        const speedIndex = ReplayPlayer.SPEEDS.indexOf(this.speed);
+        switch (action) {
+            case 'pause':
+                this.paused = !this.paused;
+                break;
+            case 'right':
+                // Step a single tick while paused
+                if (this.paused) {
+                    this.host.step();
+                }
+                break;
+            case 'up':
+                this.speed = ReplayPlayer.SPEEDS[Math.min(speedIndex + 1, ReplayPlayer.SPEEDS.length - 1)];
+                break;
+            case 'down':
+                this.speed = ReplayPlayer.SPEEDS[Math.max(speedIndex - 1, 0)];
+                break;
+            case 'restart':
+                this.host.restart();
+                break;
+            case 'download':
+                this.host.download(this.getReplay());
+                break;
+            case 'mute':
+                this.host.toggleMute();
+                break;
+            case 'map':
+                this.host.cycleMinimap();
+                break;
+        }
+    }
+
+    // Playback status along the bottom of the screen at the given tick
+    public renderBar(ctx: CanvasRenderingContext2D, tick: number): void {
+        const replay = this.getReplay();
+        const { width, height } = ctx.canvas;
+        const status = this.paused ? 'PAUSED' : `${this.speed}x`;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+        ctx.fillRect(0, height - 36, width, 36);
+        ctx.fillStyle = '#FF6060';
+        ctx.font = '16px Arial';
+        ctx.textAlign = 'left';
+        ctx.fillText(`● REPLAY ${status}  tick ${Math.min(tick, replay.getLength())}/${replay.getLength()}`, 12, height - 12);
+        ctx.fillStyle = '#CCCCCC';
+        ctx.textAlign = 'right';
+        const key = (action: Action) => this.controls.describeAction(action);
+        ctx.fillText(
+            `${key('pause')} pause · ${key('right')} step · ${key('up')}/${key('down')} speed · ` +
+            `${key('restart')} restart · ${key('download')} download · Esc exit`,
+            width - 12, height - 12
+        );
+
+        if (replay.isFromOlderVersion()) {
+            ctx.fillStyle = '#FFD166';
+            ctx.textAlign = 'left';
+            ctx.fillText('Recorded with an older version of the game: it may not play back the same', 12, height - 48);
+        }
+    }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { CaveSimulation, TickInput } from './CaveSimulation';
+import { SaveGame } from './SaveGame';
+import { Replay } from './Replay';
+import { createTestSimulation } from './testCaves';
+
+// Boulders that fall through a magic wall, a growing amoeba and two enemies, below a tunnel
+// where the player is safe from all of them
+const CAVE = [
+    '############',
+    '#@:*::*::::#',
+    '#==========#',
+    '#..O..O...F#',
+    '#..........#',
+    '#..........#',
+    '#....MMM...#',
+    '#..........#',
+    '#.A......B.#',
+    '############'
+];
+const SAVE_TICK = 10;  // Both boulders are falling and the magic wall has just come on
+
+// The same walk for every run: along the tunnel and back, with a snap now and then
+function inputAt(tick: number): TickInput {
+    return { move: Math.floor(tick / 90) % 2 === 0 ? 'right' : 'left', snap: tick % 17 === 0 };
+}
+
+function saveOf(simulation: CaveSimulation): SaveGame {
+    return new SaveGame({
+        game: 'random',
+        label: 'Test cave',
+        savedAt: new Date(0).toISOString(),
+        seed: 5,
+        replay: new Replay(5, null).toText(),
+        simulation: simulation.getSnapshot()
+    });
+}
+
+function saveText(fields: { [key: string]: unknown }): string {
+    const simulation = createTestSimulation(CAVE, { diamonds: 3 }, 5);
+    return JSON.stringify({ ...JSON.parse(saveOf(simulation).toText()), ...fields });
+}
+
+describe('SaveGame', () => {
+    it('resumes a saved simulation that continues tick for tick like the original', () => {
+        const original = createTestSimulation(CAVE, { diamonds: 3, amoebaSlowTime: 1 }, 5);
+        let tick = 0;
+        for (; tick < SAVE_TICK; tick++) {
+            original.step(inputAt(tick));
+        }
+        expect(original.getSnapshot().falling).toHaveLength(2);
+        expect(original.getSnapshot().magicWallState).toBe('active');
+        const resumed = SaveGame.parse(saveOf(original).toText()).createSimulation();
+        expect(resumed.getSnapshot()).toEqual(original.getSnapshot());
+
+        for (; tick < 400; tick++) {
+            const events = original.step(inputAt(tick));
+            expect(resumed.step(inputAt(tick))).toEqual(events);
+            expect(resumed.getSnapshot()).toEqual(original.getSnapshot());
+        }
+        expect(resumed.getStatus()).toBe('playing');
+    });
+
+    it('rejects text that is not a save', () => {
+        expect(() => SaveGame.parse('{ not json')).toThrow(/not valid JSON/);
+        expect(() => SaveGame.parse(saveText({ format: 'boulder-dash-replay' }))).toThrow(/Not a saved game/);
+    });
+
+    it('rejects saves of another version', () => {
+        expect(() => SaveGame.parse(saveText({ version: 2 }))).toThrow(/Unsupported save version 2/);
+        expect(() => SaveGame.parse(saveText({ version: undefined }))).toThrow(/Unsupported save version/);
+    });
+
+    it('rejects saves with missing or broken fields', () => {
+        const snapshot = createTestSimulation(CAVE, { diamonds: 3 }, 5).getSnapshot();
+
+        expect(() => SaveGame.parse(saveText({ seed: '5' }))).toThrow(/missing its game, seed or replay/);
+        expect(() => SaveGame.parse(saveText({ simulation: null }))).toThrow(/no cave state/);
+        expect(() => SaveGame.parse(saveText({ simulation: { ...snapshot, width: 0 } }))).toThrow(/invalid size/);
+        expect(() => SaveGame.parse(saveText({ simulation: { ...snapshot, tiles: snapshot.tiles.slice(1) } })))
+            .toThrow(/should have 120 tiles/);
+        expect(() => SaveGame.parse(saveText({ simulation: { ...snapshot, tiles: snapshot.tiles.map(() => 99) } })))
+            .toThrow(/unknown tiles/);
+        expect(() => SaveGame.parse(saveText({ simulation: { ...snapshot, falling: undefined } })))
+            .toThrow(/moving object state/);
+    });
+});
@@ -0,0 +1,134 @@
+import { CaveSimulation, SimulationSnapshot } from './CaveSimulation';
+import { TileType } from './TileType';
+
+/*
+ * A cave saved mid-run: the full simulation state plus what the front end needs to carry
+ * on (which game it belongs to, campaign position, lives, score and the replay recorded so far). Saves
+ * live in a few localStorage slots and can be exported to and imported from JSON files.
+ */
+
+export interface SaveGameData {
+    game: string;  // Which game the save belongs to, see Game.getSaveGameId()
+    label: string;  // Cave description shown in the slot list
+    savedAt: string;  // ISO date
+    seed: number;
+    campaignCave?: number;
+    carriedScore?: number;  // Score from earlier caves and lives of the run
+    lives?: number;
+    nextExtraLifeScore?: number;
+    replay: string;  // Replay file text of the run up to the save
+    simulation: SimulationSnapshot;
+}
+
+interface SaveGameFile extends SaveGameData {
+    format: string;
+    version: number;
+}
+
+const FORMAT = 'boulder-dash-save';
+const VERSION = 1;
+
+export class SaveGame {
+    public static readonly SLOT_COUNT = 3;
+    private static readonly STORAGE_PREFIX = 'boulderdash.save.';
+    private readonly data: SaveGameData;
+
+    constructor(data: SaveGameData) {
+        this.data = data;
+    }
+
+    public getData(): SaveGameData {
+        return this.data;
+    }
+
+    public createSimulation(): CaveSimulation {
+        return CaveSimulation.fromSnapshot(this.data.simulation);
+    }
+
+    public toText(): string {
+        const file: SaveGameFile = { format: FORMAT, version: VERSION, ...this.data };
+        return JSON.stringify(file) + '\n';
+    }
+
+    // Reads a save file; throws an Error describing the problem on bad input
+    public static parse(text: string): SaveGame {
+        let file: Partial<SaveGameFile>;
+        try {
+            file = JSON.parse(text);
+        } catch {
+            throw new Error('Save file is not valid JSON');
+        }
+
+        if (file.format !== FORMAT) {
+            throw new Error('Not a saved game');
+        }
+        if (file.version !== VERSION) {
+            throw new Error(`Unsupported save version ${file.version}`);
+        }
+        if (typeof file.game !== 'string' || typeof file.seed !== 'number' || typeof file.replay !== 'string') {
+            throw new Error('Save file is missing its game, seed or replay');
+        }
+        SaveGame.checkSnapshot(file.simulation);
+
+        const { format: _format, version: _version, ...data } = file as SaveGameFile;
+        return new SaveGame(data);
+    }
+
+    // Only the parts that would break the game if they were wrong; the rest is trusted
+    private static checkSnapshot(snapshot: SimulationSnapshot | undefined): void {
+        if (!snapshot || typeof snapshot !== 'object') {
+            throw new Error('Save file has no cave state');
+        }
+        const { width, height, tiles } = snapshot;
+        if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+            throw new Error('Saved cave has an invalid size');
+        }
+        if (!Array.isArray(tiles) || tiles.length !== width * height) {
+            throw new Error(`Saved cave should have ${width * height} tiles`);
+        }
+        if (tiles.some(tile => TileType[tile] === undefined)) {
+            throw new Error('Saved cave contains unknown tiles');
+        }
+        if (!Array.isArray(snapshot.falling) || !Array.isArray(snapshot.enemyHeadings) || !Array.isArray(snapshot.blasts)) {
+            throw new Error('Save file is missing moving object state');
+        }
+    }
+
+    // The save in each slot, or null for empty slots (and slots that can't be read)
+    public static loadSlots(): (SaveGame | null)[] {
+        const slots: (SaveGame | null)[] = [];
+        for (let slot = 0; slot < SaveGame.SLOT_COUNT; slot++) {
+            slots.push(SaveGame.loadSlot(slot));
+        }
+        return slots;
+    }
+
+    private static loadSlot(slot: number): SaveGame | null {
+        try {
+            const text = localStorage.getItem(SaveGame.STORAGE_PREFIX + slot);
+            return text === null ? null : SaveGame.parse(text);
+        } catch (error) {
+            console.error(`Error loading save slot ${slot + 1}:`, error);
+            return null;
+        }
+    }
+
+    // Returns whether the save was stored; localStorage can be full or unavailable
+    public saveToSlot(slot: number): boolean {
+        try {
+            localStorage.setItem(SaveGame.STORAGE_PREFIX + slot, this.toText());
+            return true;
+        } catch (error) {
+            console.error(`Error saving to slot ${slot + 1}:`, error);
+            return false;
+        }
+    }
+
+    public static clearSlot(slot: number): void {
+        try {
+            localStorage.removeItem(SaveGame.STORAGE_PREFIX + slot);
+        } catch (error) {
+            console.error(`Error clearing save slot ${slot + 1}:`, error);
+        }
+    }
+}
@@ -0,0 +1,186 @@
+import { SaveGame } from './SaveGame';
+import { Action } from './Controls';
+
+/*
+ * Screen listing the save slots, opened either to save the current run or to load one.
+ * Saves can also be exported to and imported from files. The game builds and loads the
+ * saves; loading reports a message when the save can't be used.
+ */
+export class SaveSlotsScreen {
+    private readonly top: number;  // Top of the area the screen covers, below the score area
+    private readonly createSave: () => SaveGame;
+    private readonly loadSave: (save: SaveGame) => string | null;
+    private purpose: 'save' | 'load' | null = null;  // Open for saving or loading
+    private slots: (SaveGame | null)[] = [];
+    private index: number = 0;
+    private message: string = '';
+
+    /**
+     * `createSave` saves the run being played; `loadSave` resumes a save and returns an error
+     * message if it can't.
+     */
+    constructor(top: number, createSave: () => SaveGame, loadSave: (save: SaveGame) => string | null) {
+        this.top = top;
+        this.createSave = createSave;
+        this.loadSave = loadSave;
+    }
+
+    public isOpen(): boolean {
+        return this.purpose !== null;
+    }
+
+    public show(purpose: 'save' | 'load'): void {
+        this.purpose = purpose;
+        this.slots = SaveGame.loadSlots();
+        this.index = 0;
+        this.message = '';
+    }
+
+    public close(): void {
+        this.purpose = null;
+    }
+
+    public handleKey(event: KeyboardEvent): void {
+        const save = this.slots[this.index];
+
+        switch (event.code) {
+            case 'ArrowUp':
+                this.handleAction('up');
+                break;
+            case 'ArrowDown':
+                this.handleAction('down');
+                break;
+            case 'Enter':
+                this.handleAction('snap');
+                break;
+            case 'Delete':
+            case 'Backspace':
+                if (save) {
+                    SaveGame.clearSlot(this.index);
+                    this.slots = SaveGame.loadSlots();
+                    this.message = `Slot ${this.index + 1} cleared`;
+                }
+                break;
+            case 'KeyX':
+                // Export the current run when saving, the selected save when loading
+                if (this.purpose === 'save') {
+                    this.exportSave(this.createSave());
+                } else if (save) {
+                    this.exportSave(save);
+                }
+                break;
+            case 'KeyI':
+                this.importSave();
+                break;
+            case 'Escape':
+                this.close();
+                break;
+        }
+    }
+
+    // Up and down choose a slot, snap saves or loads it and pause closes the screen, so it works with any controls
+    public handleAction(action: Action): void {
+        const save = this.slots[this.index];
+
+        switch (action) {
+            case 'up':
+                this.index = (this.index + SaveGame.SLOT_COUNT - 1) % SaveGame.SLOT_COUNT;
+                this.message = '';
+                break;
+            case 'down':
+                this.index = (this.index + 1) % SaveGame.SLOT_COUNT;
+                this.message = '';
+                break;
+            case 'snap':
+                if (this.purpose === 'save') {
+                    const stored = this.createSave().saveToSlot(this.index);
+                    this.slots = SaveGame.loadSlots();
+                    this.message = stored ? `Saved to slot ${this.index + 1}` : 'Could not save: browser storage is full or unavailable';
+                } else if (save) {
+                    this.message = this.loadSave(save) ?? '';
+                } else {
+                    this.message = 'This slot is empty';
+                }
+                break;
+            case 'pause':
+                this.close();
+                break;
+        }
+    }
+
+    private exportSave(save: SaveGame): void {
+        const blob = new Blob([save.toText()], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `${save.getData().label.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.bdsave`;
+        link.click();
+        URL.revokeObjectURL(link.href);
+    }
+
+    private importSave(): void {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.bdsave,application/json';
+        input.addEventListener('change', () => {
+            const file = input.files?.[0];
+            if (!file) {
+                return;
+            }
+            file.text().then(text => {
+                this.message = this.loadSave(SaveGame.parse(text)) ?? '';
+            }).catch(error => {
+                this.message = `Could not import: ${error instanceof Error ? error.message : String(error)}`;
+            });
+        });
+        input.click();
+    }
+
+    public render(ctx: CanvasRenderingContext2D): void {
+        const { width, height } = ctx.canvas;
+        const centerX = width / 2;
+        const rowHeight = 70;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.9)';
+        ctx.fillRect(0, this.top, width, height - this.top);
+
+        ctx.textAlign = 'center';
+        ctx.fillStyle = 'gold';
+        ctx.font = '40px Arial';
+        ctx.fillText(this.purpose === 'save' ? 'Save Game' : 'Load Game', centerX, this.top + 80);
+        ctx.fillStyle = '#AAAAAA';
+        ctx.font = '20px Arial';
+        ctx.fillText(
+            `Up/Down to choose, Enter to ${this.purpose}, Delete to clear, X to export, I to import, Esc to close`,
+            centerX, this.top + 115
+        );
+
+        this.slots.forEach((save, i) => {
+            const y = this.top + 200 + i * rowHeight;
+            const selected = i === this.index;
+            if (selected) {
+                ctx.fillStyle = 'rgba(255, 215, 0, 0.2)';
+                ctx.fillRect(centerX - 400, y - 40, 800, rowHeight - 6);
+            }
+
+            ctx.fillStyle = selected ? 'gold' : 'white';
+            ctx.font = '26px Arial';
+            ctx.fillText(`Slot ${i + 1}: ${save ? save.getData().label : 'empty'}`, centerX, y - 8);
+            if (save) {
+                const snapshot = save.getData().simulation;
+                ctx.fillStyle = '#AAAAAA';
+                ctx.font = '16px Arial';
+                ctx.fillText(
+                    `${new Date(save.getData().savedAt).toLocaleString()} · Score ${snapshot.score} · ` +
+                    `💎 ${snapshot.diamondsCollected}/${snapshot.settings.diamondsRequired} · ${snapshot.timeRemaining}s left`,
+                    centerX, y + 16
+                );
+            }
+        });
+
+        if (this.message) {
+            ctx.fillStyle = '#FFA040';
+            ctx.font = '22px Arial';
+            ctx.fillText(this.message, centerX, this.top + 200 + SaveGame.SLOT_COUNT * rowHeight + 20);
+        }
+    }
+}
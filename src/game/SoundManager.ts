@@ -1,3 +1,19 @@
+const SOUND_FILES: { [name: string]: string } = {
+    diamond: '/sounds/diamond.wav',
+    boulder: '/sounds/boulder.wav',
+    walk: '/sounds/walk.wav',
+    explosion: '/sounds/explosion.wav',
+    victory: '/sounds/victory.wav',
+    timeWarning: '/sounds/warning.wav',
+    portal: '/sounds/portal.wav',
+    magicWall: '/sounds/magicwall.wav',
+    tally: '/sounds/tally.wav',
+    extraLife: '/sounds/extralife.wav'
+};
+
+// Sounds that keep playing until they are stopped
+const LOOPING_SOUNDS = ['timeWarning', 'magicWall'];
+
 export class SoundManager {
     private sounds: { [key: string]: HTMLAudioElement } = {};
     private isMuted: boolean = false;
@@ -32,25 +48,20 @@ export class SoundManager {
     private loadSounds(): void {
         try {
             // Load all sound effects
-            this.sounds = {
-                diamond: new Audio('/sounds/diamond.wav'),
-                boulder: new Audio('/sounds/boulder.wav'),
-                walk: new Audio('/sounds/walk.wav'),
-                explosion: new Audio('/sounds/explosion.wav'),
-                victory: new Audio('/sounds/victory.wav'),
-                timeWarning: new Audio('/sounds/warning.wav'),
-                portal: new Audio('/sounds/portal.wav')
-            };
+            this.sounds = {};
+            Object.entries(SOUND_FILES).forEach(([name, file]) => {
+                this.sounds[name] = new Audio(file);
+            });
 
             // Set volume for all sounds
             Object.values(this.sounds).forEach(sound => {
                 sound.volume = 0.3;  // 30% volume by default
             });
 
-            // Set warning sound to loop
-            if (this.sounds.timeWarning) {
-                this.sounds.timeWarning.loop = true;
-            }
+            // Set looping sounds to loop
+            LOOPING_SOUNDS.forEach(name => {
+                this.sounds[name].loop = true;
+            });
 
             // Preload sounds
             Object.values(this.sounds).forEach(sound => {
@@ -75,18 +86,18 @@ export class SoundManager {
 
         try {
             // For looping sounds like timeWarning, don't clone
-            if (soundName === 'timeWarning') {
+            if (LOOPING_SOUNDS.includes(soundName)) {
                 const promise = this.sounds[soundName].play();
                 if (promise !== undefined) {
                     promise.catch(error => {
-                        console.error('Error playing warning sound:', error);
+                        console.error(`Error playing looping sound ${soundName}:`, error);
                         // Try to reload the sound
-                        this.sounds[soundName] = new Audio('/sounds/warning.wav');
+                        this.sounds[soundName] = new Audio(SOUND_FILES[soundName]);
                         this.sounds[soundName].loop = true;
                         this.sounds[soundName].volume = 0.3;
                         // Try playing again
                         this.sounds[soundName].play()
-                            .catch(error => console.error('Error playing warning sound after reload:', error));
+                            .catch(error => console.error(`Error playing looping sound ${soundName} after reload:`, error));
                     });
                 }
                 return;
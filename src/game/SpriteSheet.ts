@@ -0,0 +1,195 @@
+import { CavePalette, PALETTE_ROLES } from './Cave';
+import { TileType } from './TileType';
+
+/*
+ * Themes drawn from a sprite sheet: an image plus a JSON atlas in src/themes/. The atlas
+ * names the image and lists the frames of each sprite as [column, row] cells of the sheet.
+ * Sprites it leaves out are drawn by the built-in theme.
+ *
+ *   {
+ *     "name": "Retro",
+ *     "image": "retro.svg",
+ *     "frameWidth": 16,
+ *     "frameHeight": 16,
+ *     "smoothing": false,
+ *     "sprites": { "BOULDER": [[0, 0]], "FIREFLY": [[0, 1], [1, 1], [2, 1], [3, 1]] },
+ *     "recolor": { "DIRT": "dirt" },
+ *     "palette": { "dirt": "#8B4513", "wall": "#8B3A3A", "highlight": "#696969" }
+ *   }
+ *
+ * Sprite names are TileType names (except EMPTY) plus PLAYER_LEFT, which defaults to a
+ * mirrored PLAYER, and MAGIC_WALL_ACTIVE. Animated sprites spread their frames evenly over
+ * the animation. `recolor` multiplies a sprite by one of the cave palette colours, so a
+ * sprite drawn in shades of grey takes on each cave's colours. `palette` gives the colours
+ * for caves without one of their own. `smoothing` (default false) turns on smoothing when
+ * frames are scaled up to the tile size.
+ */
+
+export interface SpriteAtlas {
+    name: string;
+    image: string;  // File name of the sheet image, next to the atlas
+    frameWidth: number;
+    frameHeight: number;
+    smoothing?: boolean;
+    sprites: { [sprite: string]: [number, number][] };
+    recolor?: { [sprite: string]: keyof CavePalette };
+    palette?: CavePalette;
+}
+
+const atlasFiles = import.meta.glob('../themes/*.json', { import: 'default', eager: true }) as Record<string, unknown>;
+const imageFiles = import.meta.glob('../themes/*.{png,svg}', { query: '?url', import: 'default', eager: true }) as Record<string, string>;
+
+const SPRITE_NAMES = [
+    ...Object.keys(TileType).filter(name => isNaN(Number(name)) && name !== 'EMPTY'),
+    'PLAYER_LEFT',
+    'MAGIC_WALL_ACTIVE'
+];
+
+export class SpriteSheet {
+    private static readonly STORAGE_KEY = 'boulderdash.theme';
+    private readonly atlas: SpriteAtlas;
+    private readonly image: HTMLImageElement;
+
+    constructor(atlas: SpriteAtlas, image: HTMLImageElement) {
+        this.atlas = atlas;
+        this.image = image;
+    }
+
+    // Names of the bundled themes, usable with load()
+    public static getNames(): string[] {
+        return Object.keys(atlasFiles)
+            .map(path => path.slice('../themes/'.length, -'.json'.length))
+            .sort();
+    }
+
+    // The theme picked on the title screen, or null for the built-in one
+    public static getChosenName(): string | null {
+        try {
+            return localStorage.getItem(SpriteSheet.STORAGE_KEY);
+        } catch {
+            return null;
+        }
+    }
+
+    public static setChosenName(name: string | null): void {
+        try {
+            if (name === null) {
+                localStorage.removeItem(SpriteSheet.STORAGE_KEY);
+            } else {
+                localStorage.setItem(SpriteSheet.STORAGE_KEY, name);
+            }
+        } catch (error) {
+            console.error('Error saving theme choice:', error);
+        }
+    }
+
+    // Loads a bundled theme by name; the promise is rejected with an Error describing the problem
+    public static load(name: string): Promise<SpriteSheet> {
+        const data = atlasFiles[`../themes/${name}.json`];
+        if (data === undefined) {
+            return Promise.reject(new Error(`Theme "${name}" not found`));
+        }
+
+        let atlas: SpriteAtlas;
+        try {
+            atlas = SpriteSheet.parseAtlas(data);
+        } catch (error) {
+            return Promise.reject(error);
+        }
+        const url = imageFiles[`../themes/${atlas.image}`];
+        if (url === undefined) {
+            return Promise.reject(new Error(`Theme image "${atlas.image}" not found`));
+        }
+
+        const image = new Image();
+        image.src = url;
+        return image.decode().then(
+            () => new SpriteSheet(atlas, image),
+            () => { throw new Error(`Theme image "${atlas.image}" could not be loaded`); }
+        );
+    }
+
+    // Checks a parsed atlas file; throws an Error describing the problem on bad input
+    public static parseAtlas(data: unknown): SpriteAtlas {
+        const atlas = data as Partial<SpriteAtlas>;
+        if (!atlas || typeof atlas !== 'object') {
+            throw new Error('Theme atlas is not a JSON object');
+        }
+        if (typeof atlas.name !== 'string' || typeof atlas.image !== 'string') {
+            throw new Error('Theme atlas is missing its name or image');
+        }
+        for (const key of ['frameWidth', 'frameHeight'] as const) {
+            if (!Number.isInteger(atlas[key]) || atlas[key]! < 1) {
+                throw new Error(`Theme atlas "${key}" must be a whole number of at least 1`);
+            }
+        }
+        if (!atlas.sprites || typeof atlas.sprites !== 'object') {
+            throw new Error('Theme atlas has no sprites');
+        }
+        for (const [sprite, frames] of Object.entries(atlas.sprites)) {
+            if (!SPRITE_NAMES.includes(sprite)) {
+                throw new Error(`Theme atlas has unknown sprite "${sprite}"`);
+            }
+            const isCell = (frame: unknown) => Array.isArray(frame) && frame.length === 2 &&
+                frame.every(value => Number.isInteger(value) && value >= 0);
+            if (!Array.isArray(frames) || frames.length === 0 || !frames.every(isCell)) {
+                throw new Error(`Sprite "${sprite}" must list its frames as [column, row] pairs`);
+            }
+        }
+        for (const [sprite, role] of Object.entries(atlas.recolor ?? {})) {
+            if (!atlas.sprites[sprite] || !(PALETTE_ROLES as readonly string[]).includes(role)) {
+                throw new Error(`Sprite "${sprite}" can't be recoloured with "${role}"`);
+            }
+        }
+        if (atlas.palette !== undefined && !PALETTE_ROLES.every(role => /^#[0-9a-fA-F]{6}$/.test(String(atlas.palette?.[role])))) {
+            throw new Error('Theme palette must give dirt, wall and highlight as hex colours');
+        }
+        return atlas as SpriteAtlas;
+    }
+
+    public getLabel(): string {
+        return this.atlas.name;
+    }
+
+    public has(sprite: string): boolean {
+        return this.atlas.sprites[sprite] !== undefined;
+    }
+
+    /**
+     * Draws a sprite scaled to a size x size square at left,top. `cycle` (0-1) is the
+     * position in the animation, which picks the frame.
+     */
+    public draw(
+        ctx: CanvasRenderingContext2D, sprite: string, cycle: number, left: number, top: number, size: number,
+        palette: CavePalette | null
+    ): void {
+        const frames = this.atlas.sprites[sprite];
+        const [column, row] = frames[Math.min(frames.length - 1, Math.floor(cycle * frames.length))];
+        const { frameWidth, frameHeight } = this.atlas;
+        const role = this.atlas.recolor?.[sprite];
+        const colors = palette ?? this.atlas.palette;
+        const tint = role && colors ? colors[role] : null;
+
+        if (!tint) {
+            ctx.save();
+            ctx.imageSmoothingEnabled = this.atlas.smoothing ?? false;
+            ctx.drawImage(this.image, column * frameWidth, row * frameHeight, frameWidth, frameHeight, left, top, size, size);
+            ctx.restore();
+            return;
+        }
+
+        // Multiply the frame by the tint, then cut the result back to the frame's shape
+        const canvas = document.createElement('canvas');
+        canvas.width = size;
+        canvas.height = size;
+        const tinted = canvas.getContext('2d')!;
+        tinted.imageSmoothingEnabled = this.atlas.smoothing ?? false;
+        tinted.drawImage(this.image, column * frameWidth, row * frameHeight, frameWidth, frameHeight, 0, 0, size, size);
+        tinted.globalCompositeOperation = 'multiply';
+        tinted.fillStyle = tint;
+        tinted.fillRect(0, 0, size, size);
+        tinted.globalCompositeOperation = 'destination-in';
+        tinted.drawImage(this.image, column * frameWidth, row * frameHeight, frameWidth, frameHeight, 0, 0, size, size);
+        ctx.drawImage(canvas, left, top);
+    }
+}
@@ -0,0 +1,36 @@
+import { TileType } from './TileType';
+
+export interface TileAttributes {
+    rounded: boolean;  // Boulders and diamonds roll off it
+    explodable: boolean;  // Explosions destroy it
+    diggable: boolean;  // The player can dig through it
+    pushable: boolean;  // The player can push it sideways
+    falls: boolean;  // Falls when there is nothing below it
+    consumable: boolean;  // The player collects it by walking into it
+}
+
+const NONE: TileAttributes = {
+    rounded: false,
+    explodable: false,
+    diggable: false,
+    pushable: false,
+    falls: false,
+    consumable: false
+};
+
+// What each tile does, as far as the physics is concerned
+export const TILE_ATTRIBUTES: Record<TileType, TileAttributes> = {
+    [TileType.EMPTY]: { ...NONE, explodable: true },
+    [TileType.DIRT]: { ...NONE, explodable: true, diggable: true },
+    [TileType.BOULDER]: { ...NONE, rounded: true, explodable: true, pushable: true, falls: true },
+    [TileType.DIAMOND]: { ...NONE, rounded: true, explodable: true, falls: true, consumable: true },
+    [TileType.STEEL_WALL]: NONE,
+    [TileType.PLAYER]: { ...NONE, explodable: true },
+    [TileType.EXIT]: NONE,
+    [TileType.FIREFLY]: { ...NONE, explodable: true },
+    [TileType.BUTTERFLY]: { ...NONE, explodable: true },
+    [TileType.EXPLOSION]: { ...NONE, explodable: true },
+    [TileType.AMOEBA]: { ...NONE, explodable: true },
+    [TileType.MAGIC_WALL]: { ...NONE, explodable: true },
+    [TileType.BRICK_WALL]: { ...NONE, rounded: true, explodable: true }
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { CaveSimulation, Direction } from './CaveSimulation';
+import { Grid } from './Grid';
+import { Random } from './Random';
+import { TileLayer } from './TileLayer';
+import { TileType } from './TileType';
+import { parseTestCave } from './testCaves';
+
+// The tile types stand in for sprites, which change whenever the tile does
+function spritesOf(layer: TileLayer<TileType>, grid: Grid): (TileType | null)[] {
+    const sprites: (TileType | null)[] = [];
+    for (let row = 0; row < layer.rows; row++) {
+        for (let column = 0; column < layer.columns; column++) {
+            sprites.push(grid.isInBounds(column, row) ? grid.getTile(column, row) : null);
+        }
+    }
+    return sprites;
+}
+
+function isDirty(layer: TileLayer<TileType>, dirty: boolean[] | null, x: number, y: number): boolean {
+    return dirty === null || dirty[y * layer.columns + x];
+}
+
+function step(simulation: CaveSimulation, ticks: number, move: Direction | null = null): void {
+    for (let tick = 0; tick < ticks; tick++) {
+        simulation.step({ move, snap: false });
+    }
+}
+
+describe('TileLayer', () => {
+    const rows = [
+        '##########',
+        '#@*....O.#',
+        '#.:......#',
+        '#........#',
+        '#.......X#',
+        '##########'
+    ];
+
+    // The size of the layer in the game, large enough for a few changes to be patched
+    it('redraws everything at first and nothing while the cave stands still', () => {
+        const grid = parseTestCave(rows).grid;
+        const layer = new TileLayer<TileType>(35, 23);
+
+        expect(layer.update(grid, 0, 0, spritesOf(layer, grid))).toBeNull();
+        expect(layer.update(grid, 0, 0, spritesOf(layer, grid))!.some(cell => cell)).toBe(false);
+        // Moving the layer or replacing the grid starts over
+        expect(layer.update(grid, 1, 0, spritesOf(layer, grid))).toBeNull();
+        expect(layer.update(grid.clone(), 1, 0, spritesOf(layer, grid))).toBeNull();
+    });
+
+    it('redraws the cells a falling boulder left and entered', () => {
+        const simulation = new CaveSimulation(parseTestCave(rows), new Random(1));
+        const grid = simulation.getGrid();
+        const layer = new TileLayer<TileType>(35, 23);
+        layer.update(grid, 0, 0, spritesOf(layer, grid));
+
+        step(simulation, CaveSimulation.PHYSICS_TICKS);
+        expect(grid.getTile(7, 2)).toBe(TileType.BOULDER);
+        const dirty = layer.update(grid, 0, 0, spritesOf(layer, grid));
+        expect(dirty).not.toBeNull();
+        expect(isDirty(layer, dirty, 7, 1)).toBe(true);
+        expect(isDirty(layer, dirty, 7, 2)).toBe(true);
+        // Neighbours too, as sprites spill over the cell edges; cells further away are left alone
+        expect(isDirty(layer, dirty, 6, 3)).toBe(true);
+        expect(isDirty(layer, dirty, 3, 3)).toBe(false);
+    });
+
+    it('redraws the exit when it is revealed', () => {
+        const simulation = new CaveSimulation(parseTestCave(rows), new Random(1));
+        const grid = simulation.getGrid();
+        const layer = new TileLayer<TileType>(35, 23);
+        layer.update(grid, 0, 0, spritesOf(layer, grid));
+
+        while (!simulation.isMoveTick()) {
+            step(simulation, 1);
+        }
+        step(simulation, 1, 'right');
+        expect(grid.getTile(8, 4)).toBe(TileType.EXIT);
+        const dirty = layer.update(grid, 0, 0, spritesOf(layer, grid));
+        expect(isDirty(layer, dirty, 8, 4)).toBe(true);
+        expect(isDirty(layer, dirty, 2, 1)).toBe(true);
+    });
+});
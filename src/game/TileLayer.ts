@@ -0,0 +1,68 @@
+import { Grid } from './Grid';
+
+/*
+ * Bookkeeping for drawing the tiles on an offscreen layer that reaches one tile past the
+ * viewport. It remembers the sprite drawn in each cell last frame, so only cells whose
+ * sprite changed have to be redrawn, along with their neighbours since sprites overlap
+ * them. Sprites are compared by identity; null is a cell with nothing on the layer.
+ */
+
+export class TileLayer<Sprite> {
+    public readonly columns: number;
+    public readonly rows: number;
+    private grid: Grid | null = null;  // Grid the layer was last drawn from
+    private left: number = 0;  // Tile at the layer's top left corner
+    private top: number = 0;
+    private sprites: (Sprite | null)[] = [];  // Sprite drawn in each cell
+
+    constructor(columns: number, rows: number) {
+        this.columns = columns;
+        this.rows = rows;
+    }
+
+    // Makes the next update redraw everything
+    public invalidate(): void {
+        this.grid = null;
+    }
+
+    /**
+     * Takes the sprites for this frame, one per cell row by row, with the layer's top left
+     * corner at left,top. Returns the cells to repaint, or null when the whole layer has to be
+     * redrawn: the grid was replaced, the layer moved or too many cells changed for patching
+     * to pay off.
+     */
+    public update(grid: Grid, left: number, top: number, sprites: (Sprite | null)[]): boolean[] | null {
+        const { columns, rows } = this;
+        let fullRedraw = grid !== this.grid || left !== this.left || top !== this.top;
+        const dirty: boolean[] = new Array(columns * rows).fill(false);
+        let dirtyCount = 0;
+        if (!fullRedraw) {
+            for (let row = 0; row < rows; row++) {
+                for (let column = 0; column < columns; column++) {
+                    const cell = row * columns + column;
+                    if (sprites[cell] === this.sprites[cell]) {
+                        continue;
+                    }
+                    // Mark the cell and everything its old and new sprites spill into
+                    for (let dy = -1; dy <= 1; dy++) {
+                        for (let dx = -1; dx <= 1; dx++) {
+                            const neighbour = (row + dy) * columns + column + dx;
+                            if (row + dy >= 0 && row + dy < rows && column + dx >= 0 && column + dx < columns && !dirty[neighbour]) {
+                                dirty[neighbour] = true;
+                                dirtyCount++;
+                            }
+                        }
+                    }
+                }
+            }
+        }
+        // Patching a cell draws its nine neighbours, so past a ninth of the layer a full redraw is cheaper
+        fullRedraw = fullRedraw || dirtyCount * 9 > columns * rows;
+
+        this.grid = grid;
+        this.left = left;
+        this.top = top;
+        this.sprites = sprites;
+        return fullRedraw ? null : dirty;
+    }
+}
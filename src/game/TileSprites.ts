@@ -0,0 +1,651 @@
+import { TileType } from './TileType';
+import { CavePalette } from './Cave';
+import { SpriteSheet } from './SpriteSheet';
+
+/*
+ * Tile artwork, drawn once per tile type and animation frame into offscreen canvases and
+ * then copied with drawImage. Sprites have a margin of half a tile on every side because
+ * glows, shadows and blasts spill over into the neighbouring cells. Tiles come from the
+ * sprite sheet theme if one is set and has them, otherwise they are drawn procedurally
+ * (the built-in theme), recoloured with the cave palette.
+ */
+
+// Animated tiles loop through `frames` sprites every `duration` ms
+const ANIMATIONS: Partial<Record<TileType, { frames: number; duration: number }>> = {
+    [TileType.FIREFLY]: { frames: 24, duration: 942 },  // Three quarter turns and one glow pulse
+    [TileType.BUTTERFLY]: { frames: 10, duration: 377 },  // One wing flap
+    [TileType.AMOEBA]: { frames: 16, duration: 2513 },  // One bubble wobble
+    [TileType.EXPLOSION]: { frames: 8, duration: 377 },  // One flicker
+    [TileType.EXIT]: { frames: 64, duration: 3142 },  // One turn of the swirl and one glow pulse
+    [TileType.MAGIC_WALL]: { frames: 24, duration: 1440 }  // Once round the colour wheel while active
+};
+
+const COLORS: Record<TileType, string> = {
+    [TileType.EMPTY]: '#000',
+    [TileType.DIRT]: '#8B4513',
+    [TileType.BOULDER]: '#808080',
+    [TileType.DIAMOND]: '#00FFFF',
+    [TileType.STEEL_WALL]: '#696969',
+    [TileType.PLAYER]: '#FF0000',
+    [TileType.EXIT]: '#00FF00',
+    [TileType.FIREFLY]: '#FF8C00',
+    [TileType.BUTTERFLY]: '#6495ED',
+    [TileType.EXPLOSION]: '#000',
+    [TileType.AMOEBA]: '#32CD32',
+    [TileType.MAGIC_WALL]: '#696969',
+    [TileType.BRICK_WALL]: '#8B3A3A'
+};
+
+// Colours of the procedural tiles that the cave palette changes
+interface PaletteColors {
+    dirt: string;
+    steelWall: string;
+    rivets: string;
+    brickWall: string;
+    mortar: string;
+    magicWall: string;
+    magicWallMortar: string;
+    boulder: [string, string, string];  // Highlight, body and shadow
+}
+
+const BUILT_IN_COLORS: PaletteColors = {
+    dirt: COLORS[TileType.DIRT],
+    steelWall: COLORS[TileType.STEEL_WALL],
+    rivets: '#A9A9A9',
+    brickWall: COLORS[TileType.BRICK_WALL],
+    mortar: '#3A2A2A',
+    magicWall: '#8A8A9A',
+    magicWallMortar: '#555',
+    boulder: ['#A0A0A0', '#808080', '#505050']
+};
+
+// Mixes a #RRGGBB colour towards white (amount > 0) or black (amount < 0)
+function shade(color: string, amount: number): string {
+    const target = amount > 0 ? 255 : 0;
+    const channels = [1, 3, 5].map(i => {
+        const value = parseInt(color.slice(i, i + 2), 16);
+        return Math.round(value + (target - value) * Math.abs(amount));
+    });
+    return `rgb(${channels.join(', ')})`;
+}
+
+// Like the original, magic walls look like the cave's brick walls and boulders share their colour
+function getPaletteColors(palette: CavePalette | null): PaletteColors {
+    if (!palette) {
+        return BUILT_IN_COLORS;
+    }
+    return {
+        dirt: palette.dirt,
+        steelWall: palette.highlight,
+        rivets: shade(palette.highlight, 0.35),
+        brickWall: palette.wall,
+        mortar: shade(palette.wall, -0.6),
+        magicWall: palette.wall,
+        magicWallMortar: shade(palette.wall, -0.6),
+        boulder: [shade(palette.wall, 0.25), palette.wall, shade(palette.wall, -0.4)]
+    };
+}
+
+export class TileSprites {
+    private static readonly PLAYER_FRAMES = 4;  // Walking animation frames, see Game.playerAnimFrame
+    private readonly tileSize: number;
+    private readonly margin: number;
+    private readonly sprites: Map<string, HTMLCanvasElement> = new Map();
+    private sheet: SpriteSheet | null = null;
+    private palette: CavePalette | null = null;
+    private colors: PaletteColors = BUILT_IN_COLORS;
+
+    constructor(tileSize: number) {
+        this.tileSize = tileSize;
+        this.margin = tileSize / 2;
+    }
+
+    // Switches to a sprite sheet theme, or back to the built-in one with null
+    public setSpriteSheet(sheet: SpriteSheet | null): void {
+        if (sheet !== this.sheet) {
+            this.sheet = sheet;
+            this.sprites.clear();
+        }
+    }
+
+    // Recolours the tiles for a cave; cheap to call every frame when nothing changes
+    public setPalette(palette: CavePalette | null): void {
+        const same = palette === this.palette || (palette !== null && this.palette !== null &&
+            palette.dirt === this.palette.dirt && palette.wall === this.palette.wall &&
+            palette.highlight === this.palette.highlight);
+        if (!same) {
+            this.palette = palette;
+            this.colors = getPaletteColors(palette);
+            this.sprites.clear();
+        }
+    }
+
+    // Flat colour standing for a tile on the minimap, in the cave palette
+    public getMapColor(type: TileType): string {
+        switch (type) {
+            case TileType.DIRT:
+                return this.colors.dirt;
+            case TileType.BOULDER:
+                return this.colors.boulder[1];
+            case TileType.STEEL_WALL:
+                return this.colors.steelWall;
+            case TileType.BRICK_WALL:
+                return this.colors.brickWall;
+            case TileType.MAGIC_WALL:
+                return this.colors.magicWall;
+            case TileType.EXPLOSION:
+                return '#FFD700';
+            default:
+                return COLORS[type];
+        }
+    }
+
+    /**
+     * Animation frame of a tile at a given time. Amoeba and magic wall cells are offset by
+     * their position so neighbouring cells don't move in step. Frame 0 of the magic wall is
+     * its look while inactive, so pass `animated` false for inactive and dormant walls.
+     */
+    public getFrame(type: TileType, x: number, y: number, time: number, animated: boolean = true): number {
+        const animation = ANIMATIONS[type];
+        if (!animation || !animated) {
+            return 0;
+        }
+        let frame = Math.floor(time / animation.duration * animation.frames);
+        if (type === TileType.AMOEBA) {
+            frame += Math.round((x + y) / (Math.PI * 2) * animation.frames);
+        } else if (type === TileType.MAGIC_WALL) {
+            frame = 1 + (frame + Math.round((y * 40 + x * 25) / 360 * animation.frames)) % animation.frames;
+        }
+        return ((frame % animation.frames) + animation.frames) % animation.frames;
+    }
+
+    public getTile(type: TileType, frame: number): HTMLCanvasElement {
+        return this.getSprite(`${type}:${frame}`, (ctx, left, top) => this.drawTile(ctx, left, top, type, frame));
+    }
+
+    public getPlayer(frame: number, facingLeft: boolean): HTMLCanvasElement {
+        return this.getSprite(`player:${frame}:${facingLeft}`, (ctx, left, top) => this.drawPlayer(ctx, left, top, frame, facingLeft));
+    }
+
+    // The player's explosion over a tile; progress (0-1) spreads the particles outwards
+    public getExplosion(type: TileType, progress: number): HTMLCanvasElement {
+        return this.getSprite(
+            `explosion:${COLORS[type]}:${progress.toFixed(3)}`,
+            (ctx, left, top) => {
+                if (this.sheet?.has('EXPLOSION')) {
+                    this.sheet.draw(ctx, 'EXPLOSION', progress, left, top, this.tileSize, this.palette);
+                } else {
+                    this.drawExplosion(ctx, left, top, COLORS[type], progress);
+                }
+            }
+        );
+    }
+
+    // Draws a sprite over the cell at x,y in tile coordinates
+    public draw(ctx: CanvasRenderingContext2D, sprite: HTMLCanvasElement, x: number, y: number): void {
+        ctx.drawImage(sprite, x * this.tileSize - this.margin, y * this.tileSize - this.margin);
+    }
+
+    // The exit while it opens, which changes every frame and isn't worth caching
+    public drawAppearingExit(ctx: CanvasRenderingContext2D, x: number, y: number, time: number, appearProgress: number): void {
+        const animation = ANIMATIONS[TileType.EXIT]!;
+        const cycle = time / animation.duration;
+        if (this.sheet?.has('EXIT')) {
+            // Grows from the middle of the tile
+            const size = this.tileSize * appearProgress;
+            const offset = (this.tileSize - size) / 2;
+            this.sheet.draw(ctx, 'EXIT', cycle % 1, x * this.tileSize + offset, y * this.tileSize + offset, size, this.palette);
+        } else {
+            this.drawExit(ctx, x * this.tileSize, y * this.tileSize, cycle, appearProgress);
+        }
+    }
+
+    private getSprite(
+        key: string, draw: (ctx: CanvasRenderingContext2D, left: number, top: number) => void
+    ): HTMLCanvasElement {
+        let sprite = this.sprites.get(key);
+        if (!sprite) {
+            sprite = document.createElement('canvas');
+            sprite.width = this.tileSize + this.margin * 2;
+            sprite.height = this.tileSize + this.margin * 2;
+            draw(sprite.getContext('2d')!, this.margin, this.margin);
+            this.sprites.set(key, sprite);
+        }
+        return sprite;
+    }
+
+    private drawTile(ctx: CanvasRenderingContext2D, left: number, top: number, type: TileType, frame: number): void {
+        // Position in the animation loop, from 0 to 1
+        const animation = ANIMATIONS[type];
+        const cycle = animation ? frame / animation.frames : 0;
+
+        // Frame 0 of the magic wall is the inactive wall, the others its active animation
+        if (this.sheet) {
+            if (type === TileType.MAGIC_WALL && frame > 0 && this.sheet.has('MAGIC_WALL_ACTIVE')) {
+                this.sheet.draw(ctx, 'MAGIC_WALL_ACTIVE', (frame - 1) / animation!.frames, left, top, this.tileSize, this.palette);
+                return;
+            }
+            if (this.sheet.has(TileType[type]) && !(type === TileType.MAGIC_WALL && frame > 0)) {
+                this.sheet.draw(ctx, TileType[type], cycle, left, top, this.tileSize, this.palette);
+                return;
+            }
+        }
+
+        switch (type) {
+            case TileType.BOULDER:
+                this.drawBoulder(ctx, left, top);
+                break;
+            case TileType.DIAMOND:
+                this.drawDiamond(ctx, left, top);
+                break;
+            case TileType.FIREFLY:
+                this.drawFirefly(ctx, left, top, cycle);
+                break;
+            case TileType.BUTTERFLY:
+                this.drawButterfly(ctx, left, top, cycle);
+                break;
+            case TileType.AMOEBA:
+                this.drawAmoeba(ctx, left, top, cycle);
+                break;
+            case TileType.MAGIC_WALL: {
+                // Bricks, shimmering with colour while the wall is active
+                const hue = (frame - 1) / ANIMATIONS[TileType.MAGIC_WALL]!.frames * 360;
+                this.drawBricks(ctx, left, top, this.colors.magicWallMortar, (row, brick) => frame > 0
+                    ? `hsl(${(hue + row * 40 + brick * 25 + 360) % 360}, 80%, 60%)`
+                    : this.colors.magicWall);
+                break;
+            }
+            case TileType.BRICK_WALL:
+                this.drawBricks(ctx, left, top, this.colors.mortar, () => this.colors.brickWall);
+                break;
+            case TileType.EXPLOSION:
+                // Enemy explosions flicker until they clear
+                this.drawExplosion(ctx, left, top, COLORS[type], 0.5 + Math.sin(cycle * Math.PI * 2) * 0.5);
+                break;
+            case TileType.EXIT:
+                this.drawExit(ctx, left, top, cycle, 1);
+                break;
+            case TileType.PLAYER:
+                this.drawPlayer(ctx, left, top, 0, false);
+                break;
+            case TileType.EMPTY:
+                break;
+            default:
+                this.drawBlock(ctx, left, top, type);
+        }
+    }
+
+    // Dirt and steel walls: plain blocks with a border
+    private drawBlock(ctx: CanvasRenderingContext2D, left: number, top: number, type: TileType): void {
+        ctx.fillStyle = type === TileType.DIRT ? this.colors.dirt : type === TileType.STEEL_WALL ? this.colors.steelWall : COLORS[type];
+        ctx.fillRect(left, top, this.tileSize, this.tileSize);
+        ctx.strokeStyle = '#333';
+        ctx.lineWidth = 1;
+        ctx.strokeRect(left, top, this.tileSize, this.tileSize);
+
+        // Rivets tell steel walls apart from brick walls
+        if (type === TileType.STEEL_WALL) {
+            ctx.fillStyle = this.colors.rivets;
+            for (const [rivetX, rivetY] of [[0.2, 0.2], [0.8, 0.2], [0.2, 0.8], [0.8, 0.8]]) {
+                ctx.beginPath();
+                ctx.arc(left + rivetX * this.tileSize, top + rivetY * this.tileSize, this.tileSize * 0.06, 0, Math.PI * 2);
+                ctx.fill();
+            }
+        }
+    }
+
+    private drawPlayer(ctx: CanvasRenderingContext2D, left: number, top: number, frame: number, facingLeft: boolean): void {
+        if (this.sheet?.has('PLAYER')) {
+            const sprite = facingLeft && this.sheet.has('PLAYER_LEFT') ? 'PLAYER_LEFT' : 'PLAYER';
+            ctx.save();
+            if (facingLeft && sprite === 'PLAYER') {
+                ctx.translate(left * 2 + this.tileSize, 0);
+                ctx.scale(-1, 1);
+            }
+            this.sheet.draw(ctx, sprite, frame / TileSprites.PLAYER_FRAMES, left, top, this.tileSize, this.palette);
+            ctx.restore();
+            return;
+        }
+
+        const centerX = left + this.tileSize / 2;
+        const centerY = top + this.tileSize / 2;
+        const size = this.tileSize * 0.8;  // Slightly smaller than tile
+
+        ctx.save();
+
+        // If facing left, flip the drawing
+        if (facingLeft) {
+            ctx.translate(centerX * 2, 0);
+            ctx.scale(-1, 1);
+        }
+
+        // Draw the miner character
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = 2;
+        ctx.fillStyle = '#FFB6C1';  // Light pink for skin tone
+
+        // Head
+        const headRadius = size * 0.2;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY - (size * 0.25), headRadius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+
+        // Hard hat
+        ctx.fillStyle = '#FFD700';
+        ctx.beginPath();
+        ctx.arc(centerX, centerY - (size * 0.25) - (headRadius * 0.2), headRadius * 1.1, Math.PI, 2 * Math.PI);
+        ctx.fill();
+        ctx.stroke();
+
+        // Body
+        ctx.fillStyle = '#4169E1';  // Royal blue for clothes
+        ctx.beginPath();
+        ctx.moveTo(centerX - (size * 0.2), centerY - (size * 0.1));
+        ctx.lineTo(centerX + (size * 0.2), centerY - (size * 0.1));
+        ctx.lineTo(centerX + (size * 0.15), centerY + (size * 0.3));
+        ctx.lineTo(centerX - (size * 0.15), centerY + (size * 0.3));
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+
+        // Arms swing with the walking animation
+        const armAngle = Math.sin((frame / TileSprites.PLAYER_FRAMES) * Math.PI * 2) * 0.2;
+        for (const side of [-1, 1]) {
+            ctx.beginPath();
+            ctx.moveTo(centerX + side * (size * 0.2), centerY);
+            ctx.lineTo(centerX + side * (size * 0.35), centerY + (size * 0.15) - side * (armAngle * size));
+            ctx.lineTo(centerX + side * (size * 0.3), centerY + (size * 0.15) - side * (armAngle * size));
+            ctx.lineTo(centerX + side * (size * 0.15), centerY);
+            ctx.closePath();
+            ctx.fill();
+        }
+
+        // Legs too
+        const legOffset = Math.sin((frame / TileSprites.PLAYER_FRAMES) * Math.PI * 2) * 0.1;
+        for (const side of [-1, 1]) {
+            ctx.beginPath();
+            ctx.moveTo(centerX + side * (size * 0.15), centerY + (size * 0.3));
+            ctx.lineTo(centerX + side * (size * 0.2), centerY + (size * 0.45) - side * (legOffset * size));
+            ctx.lineTo(centerX + side * (size * 0.15), centerY + (size * 0.45) - side * (legOffset * size));
+            ctx.lineTo(centerX + side * (size * 0.1), centerY + (size * 0.3));
+            ctx.closePath();
+            ctx.fill();
+            ctx.stroke();
+        }
+
+        ctx.restore();
+    }
+
+    private drawBoulder(ctx: CanvasRenderingContext2D, left: number, top: number): void {
+        const centerX = left + this.tileSize / 2;
+        const centerY = top + this.tileSize / 2;
+        const radius = this.tileSize * 0.49;
+
+        // Shadow
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+        ctx.beginPath();
+        ctx.ellipse(centerX + 2, centerY + 4, radius * 0.9, radius * 0.4, 0, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Gradient for a 3D look
+        const gradient = ctx.createRadialGradient(
+            centerX - radius * 0.3, centerY - radius * 0.3, 0,
+            centerX, centerY, radius * 1.2
+        );
+        gradient.addColorStop(0, this.colors.boulder[0]);
+        gradient.addColorStop(0.5, this.colors.boulder[1]);
+        gradient.addColorStop(1, this.colors.boulder[2]);
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Highlight
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(centerX - radius * 0.2, centerY - radius * 0.2, radius * 0.8, Math.PI * 1.2, Math.PI * 1.6);
+        ctx.stroke();
+
+        // Cracks
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(centerX - radius * 0.5, centerY - radius * 0.3);
+        ctx.lineTo(centerX + radius * 0.2, centerY + radius * 0.3);
+        ctx.moveTo(centerX + radius * 0.4, centerY - radius * 0.4);
+        ctx.lineTo(centerX - radius * 0.1, centerY + radius * 0.5);
+        ctx.stroke();
+    }
+
+    private drawDiamond(ctx: CanvasRenderingContext2D, left: number, top: number): void {
+        const centerX = left + this.tileSize / 2;
+        const centerY = top + this.tileSize / 2;
+        const size = this.tileSize * 0.45;
+
+        // Outer glow behind the diamond
+        const glowGradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, size * 2);
+        glowGradient.addColorStop(0, 'rgba(0, 255, 255, 0.5)');
+        glowGradient.addColorStop(0.5, 'rgba(0, 255, 255, 0.2)');
+        glowGradient.addColorStop(1, 'rgba(0, 255, 255, 0)');
+        ctx.fillStyle = glowGradient;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, size * 2, 0, Math.PI * 2);
+        ctx.fill();
+
+        const gradient = ctx.createLinearGradient(centerX - size, centerY - size, centerX + size, centerY + size);
+        gradient.addColorStop(0, '#80FFFF');
+        gradient.addColorStop(0.3, '#40FFFF');
+        gradient.addColorStop(0.6, '#00FFFF');
+        gradient.addColorStop(1, '#00C0C0');
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.moveTo(centerX, centerY - size);
+        ctx.lineTo(centerX + size, centerY);
+        ctx.lineTo(centerX, centerY + size);
+        ctx.lineTo(centerX - size, centerY);
+        ctx.closePath();
+        ctx.fill();
+
+        // Sparkle
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(centerX - size * 0.3, centerY - size * 0.3);
+        ctx.lineTo(centerX + size * 0.3, centerY + size * 0.3);
+        ctx.moveTo(centerX + size * 0.3, centerY - size * 0.3);
+        ctx.lineTo(centerX - size * 0.3, centerY + size * 0.3);
+        ctx.stroke();
+
+        // Highlight
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.arc(centerX - size * 0.2, centerY - size * 0.2, size * 0.3, 0, Math.PI * 2);
+        ctx.stroke();
+    }
+
+    // Spinning square with a pulsing glow
+    private drawFirefly(ctx: CanvasRenderingContext2D, left: number, top: number, cycle: number): void {
+        const centerX = left + this.tileSize / 2;
+        const centerY = top + this.tileSize / 2;
+        const size = this.tileSize * 0.35;
+
+        const glowGradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, size * 1.6);
+        glowGradient.addColorStop(0, 'rgba(255, 200, 0, 0.6)');
+        glowGradient.addColorStop(1, 'rgba(255, 100, 0, 0)');
+        ctx.fillStyle = glowGradient;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, size * (1.4 + Math.sin(cycle * Math.PI * 2) * 0.2), 0, Math.PI * 2);
+        ctx.fill();
+
+        ctx.save();
+        ctx.translate(centerX, centerY);
+        ctx.rotate(cycle * Math.PI * 1.5);
+        ctx.strokeStyle = '#FF8C00';
+        ctx.lineWidth = 4;
+        ctx.strokeRect(-size, -size, size * 2, size * 2);
+        ctx.fillStyle = '#FFD700';
+        ctx.fillRect(-size * 0.4, -size * 0.4, size * 0.8, size * 0.8);
+        ctx.restore();
+    }
+
+    private drawButterfly(ctx: CanvasRenderingContext2D, left: number, top: number, cycle: number): void {
+        const centerX = left + this.tileSize / 2;
+        const centerY = top + this.tileSize / 2;
+        const size = this.tileSize * 0.4;
+
+        // Wings flap by squashing them horizontally
+        const flap = 0.3 + Math.abs(Math.sin(cycle * Math.PI)) * 0.7;
+
+        ctx.save();
+        ctx.translate(centerX, centerY);
+        ctx.scale(flap, 1);
+        ctx.fillStyle = '#6495ED';
+        ctx.strokeStyle = '#9932CC';
+        ctx.lineWidth = 2;
+        for (const side of [-1, 1]) {
+            ctx.beginPath();
+            ctx.ellipse(side * size * 0.55, -size * 0.35, size * 0.5, size * 0.6, 0, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+            ctx.beginPath();
+            ctx.ellipse(side * size * 0.45, size * 0.45, size * 0.35, size * 0.4, 0, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+        }
+        ctx.restore();
+
+        // Body
+        ctx.fillStyle = '#222';
+        ctx.fillRect(centerX - 2, centerY - size * 0.8, 4, size * 1.6);
+    }
+
+    // Green slime with slowly wobbling bubbles
+    private drawAmoeba(ctx: CanvasRenderingContext2D, left: number, top: number, cycle: number): void {
+        ctx.fillStyle = '#228B22';
+        ctx.fillRect(left, top, this.tileSize, this.tileSize);
+        ctx.fillStyle = '#32CD32';
+        for (let i = 0; i < 4; i++) {
+            const bubbleX = left + this.tileSize * (0.25 + (i % 2) * 0.5);
+            const bubbleY = top + this.tileSize * (0.25 + Math.floor(i / 2) * 0.5);
+            const radius = this.tileSize * (0.18 + Math.sin(cycle * Math.PI * 2 + i * 1.7) * 0.06);
+            ctx.beginPath();
+            ctx.arc(bubbleX, bubbleY, radius, 0, Math.PI * 2);
+            ctx.fill();
+        }
+    }
+
+    // Brick pattern filling a tile; brickColor picks the colour of each brick
+    private drawBricks(
+        ctx: CanvasRenderingContext2D, left: number, top: number, mortarColor: string,
+        brickColor: (row: number, brick: number) => string
+    ): void {
+        const brickHeight = this.tileSize / 4;
+
+        ctx.fillStyle = mortarColor;
+        ctx.fillRect(left, top, this.tileSize, this.tileSize);
+        for (let row = 0; row < 4; row++) {
+            const offset = row % 2 === 0 ? 0 : this.tileSize / 4;
+            for (let brick = -1; brick < 2; brick++) {
+                // Bricks of half a tile, clipped to the tile
+                const brickLeft = Math.max(left, left + offset + brick * this.tileSize / 2 + 1);
+                const brickRight = Math.min(left + this.tileSize, left + offset + (brick + 1) * this.tileSize / 2 - 1);
+                if (brickRight <= brickLeft) {
+                    continue;
+                }
+                ctx.fillStyle = brickColor(row, brick);
+                ctx.fillRect(brickLeft, top + row * brickHeight + 1, brickRight - brickLeft, brickHeight - 2);
+            }
+        }
+    }
+
+    // Fiery blast over a tile; progress (0-1) spreads the particles outwards
+    private drawExplosion(ctx: CanvasRenderingContext2D, left: number, top: number, baseColor: string, progress: number): void {
+        ctx.fillStyle = baseColor;
+        ctx.fillRect(left, top, this.tileSize, this.tileSize);
+
+        const centerX = left + this.tileSize / 2;
+        const centerY = top + this.tileSize / 2;
+
+        // Inner bright explosion
+        const innerGradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, this.tileSize * 0.8);
+        innerGradient.addColorStop(0, 'rgba(255, 255, 200, 0.9)');
+        innerGradient.addColorStop(0.2, 'rgba(255, 150, 50, 0.8)');
+        innerGradient.addColorStop(0.5, 'rgba(255, 50, 50, 0.6)');
+        innerGradient.addColorStop(1, 'rgba(100, 0, 0, 0)');
+
+        // Outer fire effect
+        const outerGradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, this.tileSize);
+        outerGradient.addColorStop(0, 'rgba(255, 100, 0, 0.4)');
+        outerGradient.addColorStop(0.6, 'rgba(255, 50, 0, 0.2)');
+        outerGradient.addColorStop(1, 'rgba(50, 0, 0, 0)');
+
+        // Particles
+        const particleCount = 5;
+        const angleStep = (Math.PI * 2) / particleCount;
+        for (let i = 0; i < particleCount; i++) {
+            const angle = i * angleStep + (progress * Math.PI);
+            const radius = this.tileSize * 0.7 * progress;
+            const particleX = centerX + Math.cos(angle) * radius;
+            const particleY = centerY + Math.sin(angle) * radius;
+
+            const particleGradient = ctx.createRadialGradient(particleX, particleY, 0, particleX, particleY, this.tileSize * 0.3);
+            particleGradient.addColorStop(0, 'rgba(255, 200, 0, 0.8)');
+            particleGradient.addColorStop(0.5, 'rgba(255, 100, 0, 0.4)');
+            particleGradient.addColorStop(1, 'rgba(200, 0, 0, 0)');
+            ctx.fillStyle = particleGradient;
+            ctx.beginPath();
+            ctx.arc(particleX, particleY, this.tileSize * 0.3, 0, Math.PI * 2);
+            ctx.fill();
+        }
+
+        ctx.fillStyle = innerGradient;
+        ctx.fillRect(left, top, this.tileSize, this.tileSize);
+        ctx.fillStyle = outerGradient;
+        ctx.fillRect(left, top, this.tileSize, this.tileSize);
+    }
+
+    // Swirling green portal; appearProgress (0-1) grows it while the exit opens
+    private drawExit(ctx: CanvasRenderingContext2D, left: number, top: number, cycle: number, appearProgress: number): void {
+        const centerX = left + this.tileSize / 2;
+        const centerY = top + this.tileSize / 2;
+        const size = this.tileSize * 0.8;
+        const angle = cycle * Math.PI;  // The arcs turn at twice this
+
+        const portalGradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, size * appearProgress);
+        portalGradient.addColorStop(0, '#00FF00');
+        portalGradient.addColorStop(0.6, '#008000');
+        portalGradient.addColorStop(1, '#004000');
+
+        // Swirl of arcs
+        ctx.save();
+        ctx.translate(centerX, centerY);
+        ctx.rotate(angle);
+        for (let i = 0; i < 4; i++) {
+            const rotation = (Math.PI / 2) * i + angle;
+            ctx.beginPath();
+            ctx.arc(0, 0, size * 0.5 * appearProgress, rotation, rotation + Math.PI * 0.3);
+            ctx.strokeStyle = `rgba(0, 255, 0, ${0.7 - i * 0.15})`;
+            ctx.lineWidth = 3;
+            ctx.stroke();
+        }
+        ctx.restore();
+
+        ctx.fillStyle = portalGradient;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, size * 0.5 * appearProgress, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Pulsing glow
+        const glowSize = size * (0.7 + Math.sin(cycle * Math.PI * 2) * 0.1);
+        const glowGradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, glowSize);
+        glowGradient.addColorStop(0, 'rgba(0, 255, 0, 0.2)');
+        glowGradient.addColorStop(1, 'rgba(0, 255, 0, 0)');
+        ctx.fillStyle = glowGradient;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, glowSize, 0, Math.PI * 2);
+        ctx.fill();
+    }
+}
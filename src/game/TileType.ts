@@ -3,7 +3,13 @@ export enum TileType {
     DIRT = 1,
     BOULDER = 2,
     DIAMOND = 3,
-    WALL = 4,
+    STEEL_WALL = 4,  // Indestructible wall
     PLAYER = 5,
-    EXIT = 6
-} 
\ No newline at end of file
+    EXIT = 6,
+    FIREFLY = 7,
+    BUTTERFLY = 8,
+    EXPLOSION = 9,  // Short-lived blast left by an exploding enemy
+    AMOEBA = 10,
+    MAGIC_WALL = 11,
+    BRICK_WALL = 12  // Wall that explosions can destroy
+}
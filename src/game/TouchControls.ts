@@ -0,0 +1,234 @@
+import { Direction } from './CaveSimulation';
+import { Action } from './Controls';
+
+interface TouchButton {
+    action: Action | 'swipeMode';
+    label: string;
+    x: number;  // Center in canvas coordinates
+    y: number;
+    size: number;
+}
+
+type TouchTarget =
+    | { kind: 'button'; button: TouchButton }
+    | { kind: 'swipe'; startX: number; startY: number; direction: Direction | null };
+
+/*
+ * On-screen controls for touch screens: a D-pad and action buttons drawn over the canvas,
+ * or swiping anywhere outside the buttons to move. Every finger is tracked separately so
+ * snap can be held while moving. The overlay only appears once the screen has been touched.
+ */
+export class TouchControls {
+    private static readonly SWIPE_MODE_KEY = 'boulderdash.touch.swipe';
+    private static readonly BUTTON_SIZE = 64;  // Button size in CSS pixels, whatever the canvas scale
+    private static readonly SWIPE_THRESHOLD = 24;  // CSS pixels a finger must travel to count as a swipe
+    private readonly canvas: HTMLCanvasElement;
+    private readonly onPress: (action: Action) => void;
+    private readonly isActive: () => boolean;
+    private scale: number = 1;  // CSS pixels per canvas pixel
+    private buttons: TouchButton[] = [];
+    private touches: Map<number, TouchTarget> = new Map();
+    private visible: boolean = false;
+    private swipeMode: boolean;
+
+    /**
+     * `onPress` is called when an action is pressed; `isActive` tells whether the game
+     * currently takes touch input (touches are left to the page otherwise).
+     */
+    constructor(canvas: HTMLCanvasElement, onPress: (action: Action) => void, isActive: () => boolean) {
+        this.canvas = canvas;
+        this.onPress = onPress;
+        this.isActive = isActive;
+        this.swipeMode = this.loadSwipeMode();
+
+        canvas.addEventListener('touchstart', this.handleTouchStart.bind(this), { passive: false });
+        canvas.addEventListener('touchmove', this.handleTouchMove.bind(this), { passive: false });
+        canvas.addEventListener('touchend', this.handleTouchEnd.bind(this), { passive: false });
+        canvas.addEventListener('touchcancel', this.handleTouchEnd.bind(this), { passive: false });
+    }
+
+    // Called whenever the canvas is scaled so the buttons keep the same size on screen
+    public setScale(scale: number): void {
+        this.scale = scale;
+        this.layout();
+    }
+
+    public isHeld(action: Action): boolean {
+        for (const target of this.touches.values()) {
+            if (target.kind === 'button' ? target.button.action === action : target.direction === action) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    public render(ctx: CanvasRenderingContext2D): void {
+        if (!this.visible) {
+            return;
+        }
+
+        ctx.save();
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        for (const button of this.buttons) {
+            if (this.swipeMode && this.isDirection(button.action)) {
+                continue;
+            }
+            const pressed = button.action === 'swipeMode' ? this.swipeMode : this.isHeld(button.action);
+            ctx.fillStyle = pressed ? 'rgba(255, 215, 0, 0.45)' : 'rgba(255, 255, 255, 0.18)';
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.arc(button.x, button.y, button.size / 2, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+
+            ctx.fillStyle = 'white';
+            ctx.font = `${Math.round(button.size * 0.35)}px Arial`;
+            ctx.fillText(button.label, button.x, button.y);
+        }
+        ctx.restore();
+    }
+
+    // D-pad in the bottom left corner, actions in the bottom right
+    private layout(): void {
+        const size = TouchControls.BUTTON_SIZE / this.scale;
+        const margin = size * 0.5;
+        const padX = margin + size * 1.5;
+        const padY = this.canvas.height - margin - size * 1.5;
+        const right = this.canvas.width - margin - size * 0.5;
+        const bottom = this.canvas.height - margin - size * 0.5;
+
+        this.buttons = [
+            { action: 'up', label: '▲', x: padX, y: padY - size, size },
+            { action: 'down', label: '▼', x: padX, y: padY + size, size },
+            { action: 'left', label: '◀', x: padX - size, y: padY, size },
+            { action: 'right', label: '▶', x: padX + size, y: padY, size },
+            { action: 'snap', label: 'Snap', x: right - size * 0.75, y: bottom - size * 0.25, size: size * 1.5 },
+            { action: 'pause', label: '❚❚', x: right, y: bottom - size * 2, size: size * 0.8 },
+            { action: 'restart', label: '↺', x: right - size * 1.2, y: bottom - size * 2, size: size * 0.8 },
+            { action: 'swipeMode', label: '⇄', x: right - size * 2.4, y: bottom - size * 2, size: size * 0.8 },
+            { action: 'map', label: '▦', x: right, y: bottom - size * 3.2, size: size * 0.8 },
+            { action: 'overview', label: '⤢', x: right - size * 1.2, y: bottom - size * 3.2, size: size * 0.8 }
+        ];
+    }
+
+    private isDirection(action: Action | 'swipeMode'): action is Direction {
+        return action === 'up' || action === 'down' || action === 'left' || action === 'right';
+    }
+
+    // Touch position in canvas coordinates
+    private toCanvas(touch: Touch): { x: number; y: number } {
+        const rect = this.canvas.getBoundingClientRect();
+        return {
+            x: (touch.clientX - rect.left) * this.canvas.width / rect.width,
+            y: (touch.clientY - rect.top) * this.canvas.height / rect.height
+        };
+    }
+
+    private buttonAt(x: number, y: number): TouchButton | null {
+        for (const button of this.buttons) {
+            if (this.swipeMode && this.isDirection(button.action)) {
+                continue;
+            }
+            // Square hit areas so the D-pad has no gaps between its arms
+            if (Math.abs(x - button.x) <= button.size / 2 && Math.abs(y - button.y) <= button.size / 2) {
+                return button;
+            }
+        }
+        return null;
+    }
+
+    private handleTouchStart(event: TouchEvent): void {
+        this.visible = true;
+        if (!this.isActive()) {
+            return;
+        }
+        event.preventDefault();
+
+        for (const touch of Array.from(event.changedTouches)) {
+            const { x, y } = this.toCanvas(touch);
+            const button = this.buttonAt(x, y);
+            if (button) {
+                this.touches.set(touch.identifier, { kind: 'button', button });
+                this.press(button);
+            } else if (this.swipeMode) {
+                this.touches.set(touch.identifier, { kind: 'swipe', startX: x, startY: y, direction: null });
+            }
+        }
+    }
+
+    private handleTouchMove(event: TouchEvent): void {
+        if (!this.isActive()) {
+            return;
+        }
+        event.preventDefault();
+
+        for (const touch of Array.from(event.changedTouches)) {
+            const target = this.touches.get(touch.identifier);
+            if (!target) {
+                continue;
+            }
+            const { x, y } = this.toCanvas(touch);
+
+            if (target.kind === 'button') {
+                // Sliding a finger across the D-pad changes direction without lifting it
+                const button = this.buttonAt(x, y);
+                if (button && button !== target.button && this.isDirection(button.action) && this.isDirection(target.button.action)) {
+                    target.button = button;
+                    this.press(button);
+                }
+                continue;
+            }
+
+            // A swipe keeps moving in its direction until the finger is lifted
+            const dx = x - target.startX;
+            const dy = y - target.startY;
+            if (Math.max(Math.abs(dx), Math.abs(dy)) * this.scale < TouchControls.SWIPE_THRESHOLD) {
+                continue;
+            }
+            const direction: Direction = Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? 'right' : 'left') : (dy > 0 ? 'down' : 'up');
+            if (direction !== target.direction) {
+                target.direction = direction;
+                this.onPress(direction);
+            }
+            target.startX = x;
+            target.startY = y;
+        }
+    }
+
+    private handleTouchEnd(event: TouchEvent): void {
+        for (const touch of Array.from(event.changedTouches)) {
+            this.touches.delete(touch.identifier);
+        }
+        if (this.isActive()) {
+            event.preventDefault();
+        }
+    }
+
+    private press(button: TouchButton): void {
+        if (button.action === 'swipeMode') {
+            this.swipeMode = !this.swipeMode;
+            this.saveSwipeMode();
+        } else {
+            this.onPress(button.action);
+        }
+    }
+
+    private loadSwipeMode(): boolean {
+        try {
+            return localStorage.getItem(TouchControls.SWIPE_MODE_KEY) === 'yes';
+        } catch (error) {
+            console.error('Error loading touch settings:', error);
+            return false;
+        }
+    }
+
+    private saveSwipeMode(): void {
+        try {
+            localStorage.setItem(TouchControls.SWIPE_MODE_KEY, this.swipeMode ? 'yes' : 'no');
+        } catch (error) {
+            console.error('Error saving touch settings:', error);
+        }
+    }
+}
@@ -0,0 +1,16 @@
+import { Cave } from './Cave';
+import { CaveFile } from './CaveFile';
+import { CaveSimulation } from './CaveSimulation';
+import { Random } from './Random';
+
+// Shared by the tests: a cave from map rows in the cave file format, with header keys for a small easy cave
+export function parseTestCave(rows: string[], header: { [key: string]: string | number } = {}): Cave {
+    const keys = { width: rows[0].length, height: rows.length, diamonds: 1, time: 100, diamondValue: 10, ...header };
+    const lines = Object.entries(keys).map(([key, value]) => `${key}: ${value}`);
+    return CaveFile.parse([...lines, 'map:', ...rows].join('\n') + '\n');
+}
+
+// A simulation of such a cave, with the random exit and amoeba decided by `seed`
+export function createTestSimulation(rows: string[], header: { [key: string]: string | number } = {}, seed: number = 1): CaveSimulation {
+    return new CaveSimulation(parseTestCave(rows, header), new Random(seed));
+}
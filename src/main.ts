@@ -1,8 +1,70 @@
 import { Game } from './game/Game';
+import { Random } from './game/Random';
+import { CaveLibrary, LibraryCave } from './game/CaveLibrary';
+import { Campaign } from './game/Campaign';
+import { DEFAULT_GENERATOR_OPTIONS, GeneratorOptions } from './game/CaveGenerator';
+import { isGeneratorName } from './game/CaveStrategies';
+import { isDifficultyName } from './game/Difficulty';
+import { isBdcffLevel } from './game/BdcffImporter';
+import campaignDefinition from './caves/campaign.json';
 
 // Get the canvas element
 const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement;
+const params = new URLSearchParams(window.location.search);
+
+// Use the cave seed from the URL (?seed=...) if one was given
+const seedParam = params.get('seed');
+const seed = seedParam !== null ? Random.parseSeed(seedParam) : Random.randomSeed();
+
+// How random caves are made (?generator=caverns&difficulty=hard)
+const generatorParam = params.get('generator');
+const difficultyParam = params.get('difficulty');
+const generator: GeneratorOptions = { ...DEFAULT_GENERATOR_OPTIONS };
+if (generatorParam !== null) {
+    if (isGeneratorName(generatorParam)) {
+        generator.generator = generatorParam;
+    } else {
+        console.error(`Unknown cave generator "${generatorParam}"`);
+    }
+}
+if (difficultyParam !== null) {
+    if (isDifficultyName(difficultyParam)) {
+        generator.difficulty = difficultyParam;
+    } else {
+        console.error(`Unknown difficulty "${difficultyParam}"`);
+    }
+}
+
+// Play a single hand-made cave from the URL (?cave=first-steps) or from a
+// bundled BDCFF file (?bdcff=sample&number=2&level=1)
+let cave: LibraryCave | null = null;
+const caveParam = params.get('cave');
+const bdcffParam = params.get('bdcff');
+const levelParam = params.get('level');
+let level = 1;
+if (levelParam !== null) {
+    if (/^\d+$/.test(levelParam) && isBdcffLevel(Number(levelParam))) {
+        level = Number(levelParam);
+    } else {
+        console.error(`Unknown BDCFF level "${levelParam}", playing level 1`);
+    }
+}
+try {
+    if (caveParam !== null) {
+        cave = CaveLibrary.load(caveParam);
+    } else if (bdcffParam !== null) {
+        cave = CaveLibrary.load(`${bdcffParam}.bd#${params.get('number') ?? '1'}`, level);
+    }
+} catch (error) {
+    console.error('Error loading cave:', error);
+}
+
+// Without a seed, generator or cave in the URL, play the campaign
+const campaign = seedParam === null && generatorParam === null && difficultyParam === null &&
+    caveParam === null && bdcffParam === null
+    ? new Campaign(campaignDefinition)
+    : null;
 
 // Create and start the game
-const game = new Game(canvas);
-game.start(); 
\ No newline at end of file
+const game = new Game(canvas, { seed, cave: cave?.cave ?? null, caveWarnings: cave?.warnings, campaign, generator });
+game.start();